@@ -1,8 +1,7 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { INITIAL_POLITICIANS, INITIAL_SOURCES } from './constants';
-import { Politician, Source, NewsEvent, SimulationConfig, SentimentType, AIProviderConfig, ProviderType } from './types';
-import { getProvider, getDefaultAIProviderConfig, AIProvider } from './services/aiProvider';
-import { fetchRealNewsEvent } from './services/realTimeNewsFetcher';
+import { Politician, Source, NewsEvent, SimulationConfig, SentimentType, AIProviderConfig, ProviderType, ScoringModelId, GeminiTask } from './types';
+import { getProvider, AIProvider } from './services/aiProvider';
 import {
   calculateAllMetrics,
   calculateAnalyticsSummary,
@@ -12,6 +11,7 @@ import {
   calculateSentimentRatio,
   calculateInfluenceScore,
   calculateConsistencyScore,
+  ExportedData,
 } from './services/analyticsService';
 import { database } from './services/database';
 import { Ticker } from './components/Ticker';
@@ -22,7 +22,16 @@ import { SourceManager } from './components/SourceManager';
 import { CandidateManager } from './components/CandidateManager';
 import { AnalyticsDashboard } from './components/AnalyticsDashboard';
 import { CandidateContextModal } from './components/CandidateContextModal';
+import { ProviderStatusPanel } from './components/ProviderStatusPanel';
+import { OpenAICompatibleSettings } from './components/OpenAICompatibleSettings';
 import { updateCandidateProfile } from './services/candidateProfileUpdater';
+import { getScoringModel, applyLiveEvent, SCORING_MODELS, ScoredEventIndex } from './services/scoringEngine';
+import { isScoreable } from './services/eventProvenance';
+import { usageMeter } from './services/usageMeter';
+import { cadencePlanner } from './services/cadencePlanner';
+import { withConfigDefaults, getDefaultAIProviderConfig, DEFAULT_GEMINI_MODELS } from './services/configDefaults';
+import { ingestionClient } from './services/ingestionClient';
+import { promptRegistry } from './services/promptTemplates';
 import {
   BarChart3,
   Settings,
@@ -44,16 +53,34 @@ import {
   CheckCircle2,
   XCircle,
   Zap,
+  Plug,
+  BookA,
 } from 'lucide-react';
 
 const STORAGE_KEYS = {
   POLITICIANS: 'poli_politicians_v1',
   SOURCES: 'poli_sources_v1',
+  // Legacy: the feed now lives in IndexedDB only; the key is still cleared on reset
   FEED: 'poli_feed_v1',
+  LAST_SCORED_EVENT: 'poli_last_scored_event_v1',
   CONFIG: 'poli_config_v1',
   POTENTIAL_SOURCES: 'poli_potential_sources_v1',
 };
 
+// The feed state holds the newest events; older pages are read from IndexedDB on request
+const FEED_PAGE_SIZE = 100;
+// Events read per page while building the scoring index at startup
+const HYDRATE_PAGE_SIZE = 1000;
+
+const GEMINI_TASKS: { task: GeminiTask; label: string }[] = [
+  { task: 'event', label: 'Live events' },
+  { task: 'analysis', label: 'Article analysis' },
+  { task: 'history', label: 'History backfill' },
+  { task: 'image', label: 'Portraits' },
+  { task: 'sources', label: 'Source discovery' },
+  { task: 'chat', label: 'Profiles & context' },
+];
+
 export default function App() {
   // Load initial state from Local Storage or Constants
   const [politicians, setPoliticians] = useState<Politician[]>(() => {
@@ -66,10 +93,11 @@ export default function App() {
     return saved ? JSON.parse(saved) : INITIAL_SOURCES;
   });
 
-  const [feed, setFeed] = useState<NewsEvent[]>(() => {
-    const saved = localStorage.getItem(STORAGE_KEYS.FEED);
-    return saved ? JSON.parse(saved) : [];
-  });
+  // Hydrated from the database once it's ready
+  const [feed, setFeed] = useState<NewsEvent[]>([]);
+  const [hasOlderFeed, setHasOlderFeed] = useState(false);
+  // Grows by a page each time older events are loaded, so new events don't push them out
+  const feedLimitRef = useRef(FEED_PAGE_SIZE);
 
   const [potentialSources, setPotentialSources] = useState<Source[]>(() => {
     const saved = localStorage.getItem(STORAGE_KEYS.POTENTIAL_SOURCES);
@@ -78,15 +106,8 @@ export default function App() {
 
   const [config, setConfig] = useState<SimulationConfig>(() => {
     const saved = localStorage.getItem(STORAGE_KEYS.CONFIG);
-    const defaults: SimulationConfig = {
-      scanInterval: 15000,
-      isPaused: false,
-      useAI: true,
-      autoRefreshCandidates: true,
-      historyWindowDays: 60,
-      aiProviderConfig: getDefaultAIProviderConfig(),
-    };
-    return saved ? { ...defaults, ...JSON.parse(saved) } : defaults;
+    // Settings added since the config was saved take their defaults
+    return withConfigDefaults(saved ? JSON.parse(saved) : {});
   });
 
   const [ollamaStatus, setOllamaStatus] = useState<{ ok: boolean; models: string[] }>({ ok: false, models: [] });
@@ -101,9 +122,24 @@ export default function App() {
   // Get the current AI provider
   const currentProvider = getProvider(config.aiProviderConfig);
   const isProviderConfigured = currentProvider.isConfigured;
+  const fallbackProviders = (config.aiProviderConfig.fallbackProviders || []).filter(
+    (p) => p !== config.aiProviderConfig.provider
+  );
+  const inChain = (type: ProviderType) =>
+    config.aiProviderConfig.provider === type || fallbackProviders.includes(type);
   const [showAnalytics, setShowAnalytics] = useState(false);
   const [selectedPoliticianId, setSelectedPoliticianId] = useState<string | null>(null);
 
+  // Latest values for processEvent, which is memoized and called from the ingestion subscription
+  const feedRef = useRef(feed);
+  const sourcesRef = useRef(sources);
+  const configRef = useRef(config);
+  feedRef.current = feed;
+  sourcesRef.current = sources;
+  configRef.current = config;
+  // Every event scored so far; built from the stored feed when it's hydrated
+  const scoredRef = useRef(new ScoredEventIndex([]));
+
   // Dynamic Profile Updates (runs periodically to check for party/slogan changes)
   useEffect(() => {
     if (!config.useAI || !isProviderConfigured || config.isPaused) return;
@@ -137,11 +173,6 @@ export default function App() {
     database.setSources(sources);
   }, [sources]);
 
-  useEffect(() => {
-    localStorage.setItem(STORAGE_KEYS.FEED, JSON.stringify(feed.slice(0, 100)));
-    database.setFeed(feed);
-  }, [feed]);
-
   useEffect(() => {
     localStorage.setItem(STORAGE_KEYS.POTENTIAL_SOURCES, JSON.stringify(potentialSources));
     database.setPotentialSources(potentialSources);
@@ -152,6 +183,18 @@ export default function App() {
     database.setConfig(config);
   }, [config]);
 
+  useEffect(() => {
+    usageMeter.setBudget(config.aiBudget);
+  }, [config.aiBudget]);
+
+  useEffect(() => {
+    promptRegistry.setOverrides(config.promptOverrides);
+  }, [config.promptOverrides]);
+
+  useEffect(() => {
+    cadencePlanner.setBudget(config.fetchBudgetPerHour);
+  }, [config.fetchBudgetPerHour]);
+
   // On mount: auto-detect provider and load data
   useEffect(() => {
     // Auto-detect best available provider from env
@@ -189,7 +232,7 @@ export default function App() {
 
       try {
         // Process one politician at a time
-        const provider = getProvider(config.aiProviderConfig);
+        const provider = getProvider(config.aiProviderConfig, 'history-backfill');
         const fetchPromises = [];
         if (!hasHistory && provider.isConfigured) fetchPromises.push(provider.fetchHistory(pol, config.historyWindowDays));
         else fetchPromises.push(Promise.resolve(null));
@@ -225,6 +268,24 @@ export default function App() {
     setIsHistoryLoading(false);
   };
 
+  const providerOptions = [
+    { key: 'gemini' as ProviderType, label: 'Gemini (Google)', icon: <Globe size={13} />, configured: !!config.aiProviderConfig.geminiApiKey },
+    { key: 'ollama' as ProviderType, label: `Ollama (Local)`, icon: <Server size={13} />, configured: ollamaStatus.ok },
+    { key: 'huggingface' as ProviderType, label: 'HuggingFace (Free)', icon: <Cpu size={13} />, configured: !!config.aiProviderConfig.huggingfaceApiKey },
+    { key: 'openrouter' as ProviderType, label: 'OpenRouter (Free)', icon: <Zap size={13} />, configured: !!config.aiProviderConfig.openrouterApiKey },
+    { key: 'openai-compatible' as ProviderType, label: 'OpenAI-Compatible', icon: <Plug size={13} />, configured: !!config.aiProviderConfig.openaiBaseUrl && !!config.aiProviderConfig.openaiModel },
+    { key: 'local' as ProviderType, label: 'Local Lexicon (Offline)', icon: <BookA size={13} />, configured: true },
+  ];
+
+  // Clicking a provider appends it to the end of the fallback chain, or removes it
+  const toggleFallback = (type: ProviderType) => {
+    setConfig((prev) => {
+      const current = prev.aiProviderConfig.fallbackProviders || [];
+      const next = current.includes(type) ? current.filter((p) => p !== type) : [...current, type];
+      return { ...prev, aiProviderConfig: { ...prev.aiProviderConfig, fallbackProviders: next } };
+    });
+  };
+
   const handleResetData = () => {
     if (
       confirm(
@@ -236,6 +297,8 @@ export default function App() {
       localStorage.removeItem(STORAGE_KEYS.FEED);
       localStorage.removeItem(STORAGE_KEYS.POTENTIAL_SOURCES);
       localStorage.removeItem(STORAGE_KEYS.CONFIG);
+      localStorage.removeItem(STORAGE_KEYS.LAST_SCORED_EVENT);
+      database.clearAllData();
 
       window.location.reload();
     }
@@ -244,83 +307,142 @@ export default function App() {
   // Mock event generation removed — production mode uses real data only
 
   const processEvent = useCallback((event: NewsEvent) => {
-    setFeed((prev) => [event, ...prev].slice(0, 50));
+    const model = getScoringModel(configRef.current.scoringModel);
+    database.putFeedEvents([event]);
+    setFeed((prev) => [event, ...prev].slice(0, feedLimitRef.current));
+    if (feedRef.current.length >= feedLimitRef.current) setHasOlderFeed(true);
+    if (event.id > Number(localStorage.getItem(STORAGE_KEYS.LAST_SCORED_EVENT) || 0)) {
+      localStorage.setItem(STORAGE_KEYS.LAST_SCORED_EVENT, String(event.id));
+    }
+    // Unverified model-generated events are shown but don't move scores
+    if (!isScoreable(event, configRef.current.scoreModelGenerated)) return;
 
+    // Added once scored, so events queued in the same render are scored in arrival order
     setPoliticians((prevPols) => {
-      return prevPols.map((p) => {
-        if (p.id !== event.politicianId) {
-          return p;
-        }
-
-        let change = 0;
-        if (event.sentiment === 'positive') change = event.impact;
-        if (event.sentiment === 'negative') change = -event.impact;
-
-        const newScore = parseFloat((p.score + change).toFixed(2));
-
-        // Append new live point to history
-        const today = new Date().toISOString().split('T')[0];
-
-        const newHistoryItem = {
-          time: today,
-          score: newScore,
-          reason: 'Live: ' + event.headline,
-          sourceUrl: event.url, // Persist URL to history
-        };
-
-        // Keep history size manageable
-        const newHistory = [...p.history, newHistoryItem].slice(-50);
-
-        return {
-          ...p,
-          score: newScore,
-          trend: change,
-          history: newHistory,
-        };
+      const next = applyLiveEvent(model, event, {
+        politicians: prevPols,
+        sources: sourcesRef.current,
+        scored: scoredRef.current,
+        now: Date.now(),
       });
+      scoredRef.current.add(event);
+      return next;
     });
   }, []);
 
-  const runSimulationStep = async () => {
-    if (config.isPaused || isHistoryLoading) return;
-    if (politicians.length === 0) return;
+  // The ingestion worker owns all news fetching; the app feeds it settings and scores what it finds
+  useEffect(() => {
+    ingestionClient.configure(
+      {
+        politicians,
+        sources,
+        aiProviderConfig: config.aiProviderConfig,
+        scanInterval: config.scanInterval,
+      },
+      {
+        aiBudget: config.aiBudget,
+        promptOverrides: config.promptOverrides,
+        fetchBudgetPerHour: config.fetchBudgetPerHour,
+      }
+    );
+  }, [
+    politicians,
+    sources,
+    config.aiProviderConfig,
+    config.scanInterval,
+    config.aiBudget,
+    config.promptOverrides,
+    config.fetchBudgetPerHour,
+  ]);
 
-    const targetPolitician = politicians[Math.floor(Math.random() * politicians.length)];
-    const provider = getProvider(config.aiProviderConfig);
+  useEffect(() => {
+    if (config.isPaused || isHistoryLoading) ingestionClient.stop();
+    else ingestionClient.start();
+  }, [config.isPaused, isHistoryLoading]);
+
+  useEffect(() => () => ingestionClient.stop(), []);
+
+  // Events that arrive before the feed is hydrated wait, so they're scored after the backlog
+  const pendingEventsRef = useRef<NewsEvent[] | null>([]);
+
+  useEffect(
+    () =>
+      ingestionClient.subscribe((update) => {
+        if (update.type !== 'event') return;
+        if (pendingEventsRef.current) pendingEventsRef.current.push(update.event);
+        else processEvent(update.event);
+      }),
+    [processEvent]
+  );
 
-    try {
-      // Always use real-time news fetching — no mock data
-      const aiData = await fetchRealNewsEvent(targetPolitician, sources, provider);
-
-      if (aiData && aiData.headline) {
-        const event: NewsEvent = {
-          id: Date.now(),
-          politicianId: targetPolitician.id,
-          sourceId: `${config.aiProviderConfig.provider}-live`,
-          sourceName: aiData.sourceName || provider.name,
-          headline: aiData.headline || 'Update received',
-          sentiment: aiData.sentiment || 'neutral',
-          impact: aiData.impact || 0.5,
-          timestamp: aiData.timestamp || new Date().toLocaleString(),
-          url: aiData.url,
-        };
-        processEvent(event);
+  // Load the feed from the database. Scoring evidence spans the whole history, so every
+  // stored event is read, a page at a time. Events the background service worker stored
+  // while no tab was open haven't been scored yet; score them now, oldest first
+  useEffect(() => {
+    const hydrate = async () => {
+      await database.waitForReady();
+      const saved = localStorage.getItem(STORAGE_KEYS.LAST_SCORED_EVENT);
+      let lastScored = saved ? Number(saved) : null;
+      const scored = new ScoredEventIndex(sourcesRef.current);
+      const visible: NewsEvent[] = [];
+      const unscored: NewsEvent[] = [];
+      let hasOlder = false;
+
+      let page = await database.getFeedPage(Infinity, HYDRATE_PAGE_SIZE);
+      while (page.length > 0) {
+        for (const event of page) {
+          // Before scoring was tracked, every stored event had been scored as it arrived
+          lastScored ??= event.id;
+          if (event.id > lastScored) {
+            unscored.push(event);
+            continue;
+          }
+          if (visible.length < feedLimitRef.current) visible.push(event);
+          else hasOlder = true;
+          if (isScoreable(event, configRef.current.scoreModelGenerated)) scored.add(event);
+        }
+        page = await database.getFeedPage(page[page.length - 1].id, HYDRATE_PAGE_SIZE);
       }
-    } catch (err) {
-      console.error('[App] Real-time fetch error:', err);
-    }
+
+      const unscoredIds = new Set(unscored.map((e) => e.id));
+      const pending = (pendingEventsRef.current || []).filter((e) => !unscoredIds.has(e.id));
+      pendingEventsRef.current = null;
+
+      scoredRef.current = scored;
+      setFeed(visible);
+      setHasOlderFeed(hasOlder);
+      if (!saved) localStorage.setItem(STORAGE_KEYS.LAST_SCORED_EVENT, String(lastScored ?? 0));
+      [...unscored.reverse(), ...pending].forEach(processEvent);
+    };
+    hydrate();
+  }, []);
+
+  const loadOlderFeed = async () => {
+    const oldest = feedRef.current[feedRef.current.length - 1];
+    if (!oldest) return;
+    const older = await database.getFeedPage(oldest.id, FEED_PAGE_SIZE);
+    feedLimitRef.current += older.length;
+    setHasOlderFeed(older.length === FEED_PAGE_SIZE);
+    setFeed((prev) => [...prev, ...older]);
   };
 
-  // Simulation Loop
   useEffect(() => {
-    const interval = setInterval(runSimulationStep, config.scanInterval);
-    return () => clearInterval(interval);
-  }, [config, politicians, sources, isHistoryLoading]);
+    if (!config.backgroundSync) {
+      ingestionClient.setBackgroundSync(false);
+      return;
+    }
+    ingestionClient.setBackgroundSync(true).then((enabled) => {
+      if (!enabled) {
+        console.warn('[Ingestion] Periodic background sync is not available in this browser');
+        setConfig((prev) => ({ ...prev, backgroundSync: false }));
+      }
+    });
+  }, [config.backgroundSync]);
 
   // Handlers
   const handleScanForSources = async () => {
     setIsScanning(true);
-    const provider = getProvider(config.aiProviderConfig);
+    const provider = getProvider(config.aiProviderConfig, 'source-discovery');
     if (provider.isConfigured) {
       const newSuggestions = await provider.fetchSuggestedSources(sources);
       if (newSuggestions && newSuggestions.length > 0) {
@@ -353,7 +475,7 @@ export default function App() {
 
   const handleAddCandidate = async (candidate: Politician) => {
     setPoliticians((prev) => [...prev, candidate]);
-    const provider = getProvider(config.aiProviderConfig);
+    const provider = getProvider(config.aiProviderConfig, 'candidate-setup');
 
     if (provider.isConfigured) {
       setAddingCandidateId(true);
@@ -393,25 +515,12 @@ export default function App() {
     if (!pol || refreshingCandidateId) return;
 
     setRefreshingCandidateId(id);
-    const provider = getProvider(config.aiProviderConfig);
+    const provider = getProvider(config.aiProviderConfig, 'candidate-refresh');
 
     try {
       if (provider.isConfigured) {
-        const aiData = await fetchRealNewsEvent(pol, sources, provider);
-        if (aiData && aiData.headline) {
-          const event: NewsEvent = {
-            id: Date.now(),
-            politicianId: pol.id,
-            sourceId: `${config.aiProviderConfig.provider}-manual`,
-            sourceName: aiData.sourceName || provider.name,
-            headline: aiData.headline,
-            sentiment: aiData.sentiment || 'neutral',
-            impact: aiData.impact || 0.5,
-            timestamp: aiData.timestamp || new Date().toLocaleString(),
-            url: aiData.url,
-          };
-          processEvent(event);
-        }
+        // New events reach processEvent through the ingestion subscription
+        await ingestionClient.refresh(pol.id);
 
         const [history, image] = await Promise.all([
           provider.fetchHistory(pol, config.historyWindowDays),
@@ -443,13 +552,14 @@ export default function App() {
   const addSource = (source: Source) => setSources((prev) => [...prev, source]);
   const removeSource = (id: string) => setSources((prev) => prev.filter((s) => s.id !== id));
 
-  const handleImportData = (data: {
-    politicians: Politician[];
-    feed: NewsEvent[];
-    sources: Source[];
-  }) => {
+  const handleImportData = async (data: ExportedData) => {
+    await database.replaceScoreCollections(data);
     setPoliticians(data.politicians);
-    setFeed(data.feed);
+    // Imported events join the stored history rather than replacing it
+    await database.putFeedEvents(data.feed);
+    const newest = await database.getFeedPage(Infinity, feedLimitRef.current + 1);
+    setFeed(newest.slice(0, feedLimitRef.current));
+    setHasOlderFeed(newest.length > feedLimitRef.current);
     setSources(data.sources);
   };
 
@@ -542,15 +652,17 @@ export default function App() {
                     <div>
                       <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">AI Provider</span>
                       <div className="mt-2 space-y-1.5">
-                        {[
-                          { key: 'gemini' as ProviderType, label: 'Gemini (Google)', icon: <Globe size={13} />, configured: !!config.aiProviderConfig.geminiApiKey },
-                          { key: 'ollama' as ProviderType, label: `Ollama (Local)`, icon: <Server size={13} />, configured: ollamaStatus.ok },
-                          { key: 'huggingface' as ProviderType, label: 'HuggingFace (Free)', icon: <Cpu size={13} />, configured: !!config.aiProviderConfig.huggingfaceApiKey },
-                          { key: 'openrouter' as ProviderType, label: 'OpenRouter (Free)', icon: <Zap size={13} />, configured: !!config.aiProviderConfig.openrouterApiKey },
-                        ].map(p => (
+                        {providerOptions.map(p => (
                           <button
                             key={p.key}
-                            onClick={() => setConfig(prev => ({ ...prev, aiProviderConfig: { ...prev.aiProviderConfig, provider: p.key } }))}
+                            onClick={() => setConfig(prev => ({
+                              ...prev,
+                              aiProviderConfig: {
+                                ...prev.aiProviderConfig,
+                                provider: p.key,
+                                fallbackProviders: (prev.aiProviderConfig.fallbackProviders || []).filter(f => f !== p.key),
+                              },
+                            }))}
                             className={`w-full flex items-center justify-between px-3 py-2 rounded-lg text-xs font-medium transition-all ${config.aiProviderConfig.provider === p.key
                               ? 'bg-indigo-50 border border-indigo-300 text-indigo-700'
                               : 'bg-slate-50 border border-slate-200 text-slate-600 hover:bg-slate-100'
@@ -569,8 +681,35 @@ export default function App() {
                       </div>
                     </div>
 
+                    {/* Fallback Chain */}
+                    <div>
+                      <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Fallback Chain</span>
+                      <p className="text-[10px] text-slate-400 mt-0.5">Tried in order when the active provider fails or is cooling down</p>
+                      <div className="mt-2 flex flex-wrap gap-1.5">
+                        {providerOptions.filter(p => p.key !== config.aiProviderConfig.provider).map(p => {
+                          const position = fallbackProviders.indexOf(p.key);
+                          return (
+                            <button
+                              key={p.key}
+                              onClick={() => toggleFallback(p.key)}
+                              className={`flex items-center gap-1 px-2 py-1 rounded border text-[10px] font-medium ${position >= 0
+                                ? 'bg-indigo-50 border-indigo-300 text-indigo-700'
+                                : 'bg-white border-slate-200 text-slate-500 hover:bg-slate-50'
+                                }`}
+                            >
+                              {position >= 0 && <span className="font-mono">{position + 1}.</span>}
+                              {p.icon}
+                              {p.label}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    </div>
+
+                    <ProviderStatusPanel chain={[config.aiProviderConfig.provider, ...fallbackProviders]} />
+
                     {/* Ollama Config */}
-                    {config.aiProviderConfig.provider === 'ollama' && (
+                    {inChain('ollama') && (
                       <div className="bg-slate-50 p-3 rounded-lg border border-slate-200 space-y-2">
                         <span className="text-xs font-bold text-slate-500">Ollama Settings</span>
                         <div>
@@ -626,8 +765,29 @@ export default function App() {
                       </div>
                     )}
 
+                    {/* Gemini Models */}
+                    {inChain('gemini') && (
+                      <div className="bg-slate-50 p-3 rounded-lg border border-slate-200 space-y-2">
+                        <span className="text-xs font-bold text-slate-500">Gemini Models</span>
+                        <div className="grid grid-cols-2 gap-2">
+                          {GEMINI_TASKS.map(({ task, label }) => (
+                            <div key={task}>
+                              <label className="text-[10px] text-slate-400">{label}</label>
+                              <input
+                                type="text"
+                                value={config.aiProviderConfig.geminiModels[task]}
+                                onChange={(e) => setConfig(prev => ({ ...prev, aiProviderConfig: { ...prev.aiProviderConfig, geminiModels: { ...prev.aiProviderConfig.geminiModels, [task]: e.target.value } } }))}
+                                className="w-full text-xs border border-slate-300 rounded px-2 py-1.5 focus:border-indigo-500 focus:outline-none"
+                                placeholder={DEFAULT_GEMINI_MODELS[task]}
+                              />
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
                     {/* HuggingFace Config */}
-                    {config.aiProviderConfig.provider === 'huggingface' && (
+                    {inChain('huggingface') && (
                       <div className="bg-slate-50 p-3 rounded-lg border border-slate-200 space-y-2">
                         <span className="text-xs font-bold text-slate-500">HuggingFace API Key</span>
                         <input
@@ -642,7 +802,7 @@ export default function App() {
                     )}
 
                     {/* OpenRouter Config */}
-                    {config.aiProviderConfig.provider === 'openrouter' && (
+                    {inChain('openrouter') && (
                       <div className="bg-slate-50 p-3 rounded-lg border border-slate-200 space-y-2">
                         <span className="text-xs font-bold text-slate-500">OpenRouter API Key</span>
                         <input
@@ -656,6 +816,14 @@ export default function App() {
                       </div>
                     )}
 
+                    {/* OpenAI-Compatible Config */}
+                    {inChain('openai-compatible') && (
+                      <OpenAICompatibleSettings
+                        config={config.aiProviderConfig}
+                        onChange={(patch) => setConfig(prev => ({ ...prev, aiProviderConfig: { ...prev.aiProviderConfig, ...patch } }))}
+                      />
+                    )}
+
                     <hr className="border-slate-100" />
 
                     {/* Existing settings */}
@@ -680,6 +848,47 @@ export default function App() {
                         />
                       </button>
                     </div>
+                    <div className="flex items-center justify-between">
+                      <div className="flex flex-col">
+                        <span className="text-sm font-medium text-slate-700">Scoring Model</span>
+                        <span className="text-[10px] text-slate-400">
+                          {getScoringModel(config.scoringModel).description}
+                        </span>
+                      </div>
+                      <select
+                        value={config.scoringModel}
+                        onChange={(e) =>
+                          setConfig((prev) => ({
+                            ...prev,
+                            scoringModel: e.target.value as ScoringModelId,
+                          }))
+                        }
+                        className="text-sm border border-slate-300 rounded px-2 py-1 focus:border-indigo-500 focus:outline-none"
+                      >
+                        {SCORING_MODELS.map((m) => (
+                          <option key={m.id} value={m.id}>{m.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <div className="flex flex-col">
+                        <span className="text-sm font-medium text-slate-700">Score Unverified Events</span>
+                        <span className="text-[10px] text-slate-400">Let AI-generated events without a source move scores</span>
+                      </div>
+                      <button
+                        onClick={() =>
+                          setConfig((prev) => ({
+                            ...prev,
+                            scoreModelGenerated: !prev.scoreModelGenerated,
+                          }))
+                        }
+                        className={`w-10 h-5 rounded-full relative transition-colors ${config.scoreModelGenerated ? 'bg-indigo-600' : 'bg-slate-300'}`}
+                      >
+                        <span
+                          className={`absolute top-1 left-1 w-3 h-3 bg-white rounded-full transition-transform ${config.scoreModelGenerated ? 'translate-x-5' : 'translate-x-0'}`}
+                        />
+                      </button>
+                    </div>
                     <div className="flex items-center justify-between">
                       <div className="flex flex-col">
                         <span className="text-sm font-medium text-slate-700">History Window</span>
@@ -704,6 +913,87 @@ export default function App() {
                         <option value={365}>365 days</option>
                       </select>
                     </div>
+                    <div className="flex items-center justify-between">
+                      <div className="flex flex-col">
+                        <span className="text-sm font-medium text-slate-700">Fetch Budget</span>
+                        <span className="text-[10px] text-slate-400">
+                          News fetches per hour; busy candidates get more of them
+                        </span>
+                      </div>
+                      <select
+                        value={config.fetchBudgetPerHour}
+                        onChange={(e) =>
+                          setConfig((prev) => ({
+                            ...prev,
+                            fetchBudgetPerHour: parseInt(e.target.value),
+                          }))
+                        }
+                        className="text-sm border border-slate-300 rounded px-2 py-1 focus:border-indigo-500 focus:outline-none"
+                      >
+                        <option value={30}>30 / hour</option>
+                        <option value={60}>60 / hour</option>
+                        <option value={120}>120 / hour</option>
+                        <option value={240}>240 / hour</option>
+                        <option value={0}>Unlimited</option>
+                      </select>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <div className="flex flex-col">
+                        <span className="text-sm font-medium text-slate-700">Background Sync</span>
+                        <span className="text-[10px] text-slate-400">Keep fetching while the app is closed (installed app only)</span>
+                      </div>
+                      <button
+                        onClick={() =>
+                          setConfig((prev) => ({
+                            ...prev,
+                            backgroundSync: !prev.backgroundSync,
+                          }))
+                        }
+                        className={`w-10 h-5 rounded-full relative transition-colors ${config.backgroundSync ? 'bg-indigo-600' : 'bg-slate-300'}`}
+                      >
+                        <span
+                          className={`absolute top-1 left-1 w-3 h-3 bg-white rounded-full transition-transform ${config.backgroundSync ? 'translate-x-5' : 'translate-x-0'}`}
+                        />
+                      </button>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <div className="flex flex-col">
+                        <span className="text-sm font-medium text-slate-700">Daily AI Budget</span>
+                        <span className="text-[10px] text-slate-400">
+                          Requests / USD per day, 0 = unlimited
+                        </span>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <input
+                          type="number"
+                          min={0}
+                          value={config.aiBudget.dailyRequests}
+                          onChange={(e) =>
+                            setConfig((prev) => ({
+                              ...prev,
+                              aiBudget: { ...prev.aiBudget, dailyRequests: Math.max(0, parseInt(e.target.value) || 0) },
+                            }))
+                          }
+                          className="w-16 text-sm border border-slate-300 rounded px-2 py-1 focus:border-indigo-500 focus:outline-none"
+                          title="Max requests per day"
+                        />
+                        <span className="text-xs text-slate-400">$</span>
+                        <input
+                          type="number"
+                          min={0}
+                          step={0.05}
+                          value={config.aiBudget.dailyCostUsd}
+                          onChange={(e) =>
+                            setConfig((prev) => ({
+                              ...prev,
+                              aiBudget: { ...prev.aiBudget, dailyCostUsd: Math.max(0, parseFloat(e.target.value) || 0) },
+                            }))
+                          }
+                          className="w-16 text-sm border border-slate-300 rounded px-2 py-1 focus:border-indigo-500 focus:outline-none"
+                          title="Max estimated spend per day (USD)"
+                        />
+                      </div>
+                    </div>
                     <div className="text-[10px] text-slate-400 bg-slate-50 p-2 rounded">
                       Provider: <strong>{currentProvider.name}</strong> • {isProviderConfigured ? 'Configured ✓' : 'Not configured'}
                     </div>
@@ -716,14 +1006,14 @@ export default function App() {
       </nav>
 
       {/* Ticker */}
-      <Ticker events={feed} />
+      <Ticker events={feed} politicians={politicians} />
 
       {/* Provider Status Banner */}
       {!isProviderConfigured && (
         <div className="bg-amber-50 border-b border-amber-200 text-amber-800 px-4 py-2 text-xs text-center flex items-center justify-center gap-2">
           <AlertTriangle size={14} />
           <span>
-            No AI provider configured. Open <strong>Settings</strong> to select a provider (Gemini, Ollama, HuggingFace, or OpenRouter). Real-time news fetching is active but sentiment analysis requires a provider.
+            No AI provider configured. Open <strong>Settings</strong> to select a provider (Gemini, Ollama, HuggingFace, OpenRouter, or any OpenAI-compatible server). Real-time news fetching is active but sentiment analysis requires a provider.
           </span>
         </div>
       )}
@@ -833,6 +1123,12 @@ export default function App() {
                 politicians={politicians}
                 feed={feed}
                 sources={sources}
+                scoringModel={config.scoringModel}
+                scoreModelGenerated={config.scoreModelGenerated}
+                aiBudget={config.aiBudget}
+                aiProviderConfig={config.aiProviderConfig}
+                promptOverrides={config.promptOverrides}
+                onPromptOverridesChange={(promptOverrides) => setConfig(prev => ({ ...prev, promptOverrides }))}
                 onImport={handleImportData}
               />
             )}
@@ -863,7 +1159,12 @@ export default function App() {
           <div className="lg:col-span-1 space-y-6">
             {/* Live Feed */}
             <div className="bg-white rounded-xl shadow-sm border border-slate-200 h-[500px] flex flex-col">
-              <LiveFeed feed={feed} />
+              <LiveFeed
+                feed={feed}
+                politicians={politicians}
+                scoreModelGenerated={config.scoreModelGenerated}
+                onLoadOlder={hasOlderFeed ? loadOlderFeed : undefined}
+              />
             </div>
 
             {/* Desktop: Candidate Manager */}
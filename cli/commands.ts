@@ -0,0 +1,217 @@
+import { writeFileSync } from 'fs';
+import { NewsEvent, Politician, SimulationConfig } from '../types';
+import { database } from '../services/database';
+import { ingestionOrchestrator } from '../services/ingestionOrchestrator';
+import { EntityResolver } from '../services/entityResolver';
+import { isScoreable } from '../services/eventProvenance';
+import {
+  applyLiveEvent,
+  compareLeaderboards,
+  getScoringModel,
+  rankPoliticians,
+  replayFeed,
+  ScoredEventIndex,
+  SCORING_MODELS,
+} from '../services/scoringEngine';
+import { runSourceDiscovery } from '../services/autoSourceDiscovery';
+import { syncAspirants, checkForSteppedDownAspirants } from '../services/aspirantDiscovery';
+import { exportData } from '../services/analyticsService';
+import { buildReport, formatReportMarkdown } from './report';
+
+/**
+ * CLI Commands
+ * Each command works on the already-opened database through the same services the app
+ * uses. Results go to stdout; service logging goes to stderr (see polimetric.ts).
+ */
+
+export interface CliOptions {
+  politician?: string;
+  max?: string;
+  model?: string;
+  out?: string;
+  full?: boolean;
+  days?: string;
+  json?: boolean;
+}
+
+export class CliError extends Error {}
+
+type Command = (config: SimulationConfig, options: CliOptions) => Promise<void>;
+
+const print = (text: string) => process.stdout.write(text.endsWith('\n') ? text : text + '\n');
+
+/** Write to `--out` when given, stdout otherwise. */
+const emit = (text: string, out?: string) => {
+  if (!out) return print(text);
+  writeFileSync(out, text);
+  print(`Wrote ${out}`);
+};
+
+const positiveInt = (value: string | undefined, fallback: number, flag: string): number => {
+  if (value === undefined) return fallback;
+  const n = parseInt(value, 10);
+  if (!Number.isFinite(n) || n < 1) throw new CliError(`${flag} must be a positive whole number`);
+  return n;
+};
+
+const findPolitician = (query: string): Politician => {
+  const politicians = database.getPoliticians();
+  const found =
+    politicians.find((p) => p.id === query) ||
+    (new EntityResolver(politicians).resolveName(query) as Politician | null);
+  if (!found) throw new CliError(`No tracked politician matches "${query}"`);
+  return found;
+};
+
+/**
+ * Run due fetch jobs (or one politician's, with `--politician`) and score the new events
+ * into the standings as the live feed would.
+ */
+const fetchCommand: Command = async (config, options) => {
+  const politicians = database.getPoliticians();
+  const model = getScoringModel(config.scoringModel);
+  const events: NewsEvent[] = [];
+  const scored = new ScoredEventIndex(
+    database.getSources(),
+    database.getFeed().filter((e) => isScoreable(e, config.scoreModelGenerated))
+  );
+
+  const unsubscribe = ingestionOrchestrator.subscribe((update) => {
+    if (update.type !== 'event') return;
+    const { event } = update;
+    events.push(event);
+    if (!isScoreable(event, config.scoreModelGenerated)) return;
+    database.setPoliticians(
+      applyLiveEvent(model, event, {
+        politicians: database.getPoliticians(),
+        sources: database.getSources(),
+        scored,
+        now: Date.now(),
+      })
+    );
+    scored.add(event);
+  });
+
+  ingestionOrchestrator.configure({
+    politicians,
+    sources: database.getSources(),
+    aiProviderConfig: config.aiProviderConfig,
+    scanInterval: config.scanInterval,
+  });
+  try {
+    if (options.politician) {
+      await ingestionOrchestrator.refresh(findPolitician(options.politician).id);
+    } else {
+      const ran = await ingestionOrchestrator.runDue(positiveInt(options.max, politicians.length, '--max'));
+      print(`Ran ${ran} fetch job(s)`);
+    }
+  } finally {
+    unsubscribe();
+  }
+
+  const names = new Map(politicians.map((p) => [p.id, p.name]));
+  print(`${events.length} new event(s)`);
+  events.forEach((e) => print(`  [${e.sentiment}] ${names.get(e.politicianId) || e.politicianId}: ${e.headline}`));
+  const failed = ingestionOrchestrator.getJobs().filter((j) => j.status === 'failed');
+  failed.forEach((j) => print(`  failed: ${j.politicianName} (${j.lastError})`));
+};
+
+/** Search for new outlets and queue any seen often enough as potential sources. */
+const discoverSources: Command = async (config) => {
+  const sources = database.getSources();
+  const suggestions = await runSourceDiscovery(sources, config.aiProviderConfig);
+  const potential = database.getPotentialSources();
+  const known = new Set([...sources, ...potential].map((s) => s.id));
+  const added = suggestions.filter((s) => !known.has(s.id));
+  if (added.length > 0) database.setPotentialSources([...potential, ...added]);
+
+  print(`${added.length} new potential source(s)`);
+  added.forEach((s) => print(`  ${s.name} (${s.type}, weight ${s.weight})`));
+};
+
+/** Add newly declared aspirants to the roster and drop those who have stepped down. */
+const discoverAspirants: Command = async () => {
+  const added: string[] = [];
+  const removed = new Set<string>();
+  const names = new Map(database.getPoliticians().map((p) => [p.id, p.name]));
+  const onAdd = (p: Politician) => {
+    database.addPolitician(p);
+    added.push(p.name);
+  };
+  const onRemove = (id: string) => {
+    if (!names.has(id)) return;
+    database.removePolitician(id);
+    removed.add(names.get(id)!);
+  };
+
+  await syncAspirants(database.getPoliticians(), onAdd, onRemove);
+  await checkForSteppedDownAspirants(database.getPoliticians(), onRemove);
+
+  print(`${added.length} added, ${removed.size} removed`);
+  added.forEach((name) => print(`  + ${name}`));
+  removed.forEach((name) => print(`  - ${name}`));
+};
+
+/**
+ * Print the standings. With `--model`, also replay the stored feed under that model and
+ * show how each politician's rank would differ.
+ */
+const score: Command = async (config, options) => {
+  const politicians = database.getPoliticians();
+  if (!options.model) {
+    rankPoliticians(politicians).forEach((e) => print(`${String(e.rank).padStart(4)}  ${e.score.toFixed(2).padStart(8)}  ${e.name}`));
+    return;
+  }
+
+  if (!SCORING_MODELS.some((m) => m.id === options.model)) {
+    throw new CliError(`Unknown model "${options.model}"; one of ${SCORING_MODELS.map((m) => m.id).join(', ')}`);
+  }
+  const model = getScoringModel(options.model as SimulationConfig['scoringModel']);
+  const replay = replayFeed(database.getFeed(), politicians, database.getSources(), model, {
+    includeModelGenerated: config.scoreModelGenerated,
+  });
+  print(`${model.name}: replayed ${replay.eventsApplied} event(s)`);
+  print('replay  live  change     score  name');
+  compareLeaderboards(rankPoliticians(politicians), replay.leaderboard).forEach((c) => {
+    const change = c.rankChange > 0 ? `+${c.rankChange}` : String(c.rankChange);
+    print(`${String(c.rankB).padStart(6)}  ${String(c.rankA).padStart(4)}  ${change.padStart(6)}  ${c.scoreB.toFixed(2).padStart(8)}  ${c.name}`);
+  });
+};
+
+/** The dashboard's export file, or the whole database with `--full`. */
+const exportCommand: Command = async (_config, options) => {
+  const json = options.full
+    ? await database.exportData()
+    : exportData({
+        politicians: database.getPoliticians(),
+        feed: await database.getAllFeed(),
+        sources: database.getSources(),
+        ...(await database.getScoreCollections()),
+      });
+  emit(json, options.out);
+};
+
+const report: Command = async (_config, options) => {
+  const days = positiveInt(options.days, 7, '--days');
+  const since = new Date();
+  since.setDate(since.getDate() - days);
+
+  const built = buildReport(
+    database.getPoliticians(),
+    await database.getFeedSince(since),
+    database.getSources(),
+    database.getAIUsage(since.toISOString().split('T')[0]),
+    database.getFetchJobs(),
+    days
+  );
+  emit(options.json ? JSON.stringify(built, null, 2) : formatReportMarkdown(built), options.out);
+};
+
+export const COMMANDS: Record<string, Command> = {
+  fetch: fetchCommand,
+  'discover-sources': discoverSources,
+  'discover-aspirants': discoverAspirants,
+  score,
+  export: exportCommand,
+  report,
+};
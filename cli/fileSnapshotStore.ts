@@ -0,0 +1,18 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { SnapshotStore } from '../services/database';
+
+/**
+ * File Snapshot Store
+ * Keeps the CLI's database in one JSON file. Saves write a temporary file and rename it
+ * over the real one, so a run that dies mid-save leaves the previous snapshot intact.
+ */
+export const fileSnapshotStore = (path: string): SnapshotStore => ({
+  load: () => (existsSync(path) ? readFileSync(path, 'utf8') : null),
+  save: (json) => {
+    mkdirSync(dirname(path), { recursive: true });
+    const temp = `${path}.tmp`;
+    writeFileSync(temp, json);
+    renameSync(temp, path);
+  },
+});
@@ -0,0 +1,142 @@
+#!/usr/bin/env node
+import { parseArgs } from 'util';
+import { resolve } from 'path';
+import { readFile } from 'fs/promises';
+import { AIProviderConfig, ProviderType, SimulationConfig } from '../types';
+import { INITIAL_POLITICIANS, INITIAL_SOURCES } from '../constants';
+import { database } from '../services/database';
+import { usageMeter, PROVIDER_PRICING } from '../services/usageMeter';
+import { promptRegistry } from '../services/promptTemplates';
+import { cadencePlanner } from '../services/cadencePlanner';
+import { enableFixtureFeeds } from '../services/rssFeedAdapter';
+import { logger } from '../services/logger';
+import { fileSnapshotStore } from './fileSnapshotStore';
+import { COMMANDS, CliError, CliOptions } from './commands';
+
+/**
+ * Polimetric CLI
+ * Headless entry point for running ingestion and reporting on a server. The database is a
+ * JSON file instead of IndexedDB; everything else is the app's own services. Provider keys
+ * come from the environment variables .env.example documents, read when the CLI runs.
+ */
+
+const USAGE = `Usage: polimetric <command> [options]
+
+Commands:
+  fetch                 Run due fetch jobs and score the new events
+    --politician <name>   Fetch one politician now instead
+    --max <n>             Most jobs to run (default: one per politician)
+  discover-sources      Search for new outlets to suggest as sources
+  discover-aspirants    Add newly declared aspirants, drop those who stepped down
+  score                 Print the standings
+    --model <id>          Replay the feed under another model and compare ranks
+  export                Write the dashboard's export JSON
+    --full                The whole database instead
+    --out <file>          Write to a file instead of stdout
+  report                Summarise the race
+    --days <n>            Window in days (default 7)
+    --json                JSON instead of markdown
+    --out <file>          Write to a file instead of stdout
+
+Options:
+  --db <file>           Database file (default $POLIMETRIC_DB or ./polimetric-db.json)
+  --provider <type>     Override the configured AI provider for this run
+  --quiet               Hide service logging other than errors
+  --help                Show this help
+
+Environment:
+  GEMINI_API_KEY        Gemini key (API_KEY is accepted too)
+  OPENAI_BASE_URL       OpenAI-compatible server, with OPENAI_MODEL and OPENAI_API_KEY
+  GNEWS_API_KEY         GNews key for the news fetcher
+  RSS_PROXY_URL         Prefix for outlet feed URLs
+  RSS_FIXTURE_URL       Directory of fixture feeds to read instead of the network
+  POLIMETRIC_DB         Database file when --db isn't given
+`;
+
+/** Provider settings set in the environment; they win over those saved in the database file. */
+const environmentAIConfig = (): Partial<AIProviderConfig> => {
+  const { GEMINI_API_KEY, API_KEY, OPENAI_BASE_URL, OPENAI_MODEL, OPENAI_API_KEY } = process.env;
+  const values = {
+    geminiApiKey: GEMINI_API_KEY || API_KEY,
+    openaiBaseUrl: OPENAI_BASE_URL,
+    openaiModel: OPENAI_MODEL,
+    openaiApiKey: OPENAI_API_KEY,
+  };
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value));
+};
+
+const parseCommandLine = () => {
+  try {
+    return parseArgs({
+      allowPositionals: true,
+      options: {
+        db: { type: 'string' },
+        provider: { type: 'string' },
+        quiet: { type: 'boolean' },
+        help: { type: 'boolean' },
+        politician: { type: 'string' },
+        max: { type: 'string' },
+        model: { type: 'string' },
+        out: { type: 'string' },
+        full: { type: 'boolean' },
+        days: { type: 'string' },
+        json: { type: 'boolean' },
+      },
+    });
+  } catch (e: any) {
+    throw new CliError(e.message);
+  }
+};
+
+const main = async (): Promise<number> => {
+  const { values, positionals } = parseCommandLine();
+
+  const [name] = positionals;
+  const command = name && Object.hasOwn(COMMANDS, name) ? COMMANDS[name] : undefined;
+  if (values.help || !command) {
+    process.stdout.write(USAGE);
+    return values.help ? 0 : 1;
+  }
+
+  // Keep stdout for results so they can be piped
+  logger.setSink((_level, args) => console.error(...args));
+  if (values.quiet) logger.setLevel('error');
+
+  // Fixture feeds are files here; RSS_FIXTURE_URL names their directory
+  if (process.env.RSS_FIXTURE_URL) {
+    enableFixtureFeeds(resolve(process.env.RSS_FIXTURE_URL), (path) => readFile(path, 'utf8').catch(() => null));
+  }
+
+  await database.useSnapshotStore(
+    fileSnapshotStore(resolve(values.db || process.env.POLIMETRIC_DB || 'polimetric-db.json'))
+  );
+  if (database.getPoliticians().length === 0) {
+    database.setPoliticians(INITIAL_POLITICIANS);
+    database.setSources(INITIAL_SOURCES);
+  }
+
+  const stored = database.getConfig();
+  if (values.provider && !(values.provider in PROVIDER_PRICING)) {
+    throw new CliError(`Unknown provider "${values.provider}"; one of ${Object.keys(PROVIDER_PRICING).join(', ')}`);
+  }
+  const aiProviderConfig: AIProviderConfig = { ...stored.aiProviderConfig, ...environmentAIConfig() };
+  if (values.provider) aiProviderConfig.provider = values.provider as ProviderType;
+  const config: SimulationConfig = { ...stored, aiProviderConfig };
+  usageMeter.setBudget(config.aiBudget);
+  promptRegistry.setOverrides(config.promptOverrides);
+  cadencePlanner.setBudget(config.fetchBudgetPerHour);
+
+  try {
+    await command(config, values as CliOptions);
+  } finally {
+    database.flush();
+  }
+  return 0;
+};
+
+main()
+  .then((code) => process.exit(code))
+  .catch((e) => {
+    console.error(e instanceof CliError ? `polimetric: ${e.message}` : e);
+    process.exit(e instanceof CliError ? 2 : 1);
+  });
@@ -0,0 +1,116 @@
+import { NewsEvent, Politician, Source, FetchJob, AIUsageRecord } from '../types';
+import { calculateAnalyticsSummary, AnalyticsSummary } from '../services/analyticsService';
+import { mentionFor, mentionsPolitician } from '../services/eventMentions';
+import { rankPoliticians } from '../services/scoringEngine';
+import { sumUsage, UsageTotals } from '../services/usageMeter';
+
+/**
+ * CLI Report
+ * A snapshot of the race over a recent window: standings with each candidate's coverage,
+ * the dashboard's summary figures, AI spend and any fetch jobs that are failing. Built as
+ * data so `report --json` and the markdown output show the same numbers.
+ */
+
+export interface StandingRow {
+  rank: number;
+  name: string;
+  party: string;
+  score: number;
+  trend: number;
+  mentions: number;
+  positive: number;
+  negative: number;
+  neutral: number;
+}
+
+export interface Report {
+  generatedAt: string;
+  days: number;
+  standings: StandingRow[];
+  summary: AnalyticsSummary;
+  aiUsage: UsageTotals;
+  failingJobs: Pick<FetchJob, 'politicianName' | 'attempts' | 'lastError'>[];
+}
+
+export const buildReport = (
+  politicians: Politician[],
+  windowFeed: NewsEvent[],
+  sources: Source[],
+  usage: AIUsageRecord[],
+  jobs: FetchJob[],
+  days: number
+): Report => {
+  const byId = new Map(politicians.map((p) => [p.id, p]));
+  const standings = rankPoliticians(politicians).map((entry) => {
+    const politician = byId.get(entry.politicianId)!;
+    const row: StandingRow = {
+      rank: entry.rank,
+      name: entry.name,
+      party: politician.party,
+      score: entry.score,
+      trend: politician.trend,
+      mentions: 0,
+      positive: 0,
+      negative: 0,
+      neutral: 0,
+    };
+    for (const event of windowFeed) {
+      if (!mentionsPolitician(event, politician.id)) continue;
+      row.mentions++;
+      row[mentionFor(event, politician.id)?.sentiment ?? event.sentiment]++;
+    }
+    return row;
+  });
+
+  return {
+    generatedAt: new Date().toISOString(),
+    days,
+    standings,
+    summary: calculateAnalyticsSummary(windowFeed, politicians, sources),
+    aiUsage: sumUsage(usage),
+    failingJobs: jobs
+      .filter((j) => j.status === 'failed')
+      .map(({ politicianName, attempts, lastError }) => ({ politicianName, attempts, lastError })),
+  };
+};
+
+const signed = (n: number): string => (n > 0 ? `+${n.toFixed(2)}` : n.toFixed(2));
+
+export const formatReportMarkdown = (report: Report): string => {
+  const { summary, aiUsage } = report;
+  const lines = [
+    `# Polimetric report, ${report.generatedAt.split('T')[0]}`,
+    '',
+    `Last ${report.days} day(s): ${summary.totalEvents} events, average sentiment ${signed(summary.avgSentiment)}, ` +
+      `most active source ${summary.mostInfluentialSource}.`,
+    '',
+    '## Standings',
+    '',
+    '| # | Candidate | Party | Score | Trend | Mentions | + / - / = |',
+    '|---|---|---|---|---|---|---|',
+    ...report.standings.map(
+      (r) =>
+        `| ${r.rank} | ${r.name} | ${r.party} | ${r.score.toFixed(2)} | ${signed(r.trend)} | ${r.mentions} | ` +
+        `${r.positive} / ${r.negative} / ${r.neutral} |`
+    ),
+    '',
+    '## Media share',
+    '',
+    '| Source | Events |',
+    '|---|---|',
+    ...summary.mediaShare.map((m) => `| ${m.source} | ${m.count} |`),
+    '',
+    '## AI usage',
+    '',
+    `${aiUsage.requests} requests (${aiUsage.failures} failed), ${aiUsage.inputTokens} input / ` +
+      `${aiUsage.outputTokens} output tokens, $${aiUsage.costUsd.toFixed(4)}.`,
+  ];
+
+  if (report.failingJobs.length > 0) {
+    lines.push('', '## Failing fetches', '');
+    report.failingJobs.forEach((j) =>
+      lines.push(`- ${j.politicianName}: ${j.attempts} attempt(s), ${j.lastError || 'unknown error'}`)
+    );
+  }
+  return lines.join('\n') + '\n';
+};
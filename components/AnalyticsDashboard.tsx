@@ -1,25 +1,38 @@
 import React, { useState, useMemo } from 'react';
 import { ResponsiveContainer, AreaChart, Area, BarChart, Bar, PieChart, Pie, Cell, XAxis, YAxis, Tooltip, CartesianGrid, Legend } from 'recharts';
-import { Politician, NewsEvent, Source } from '../types';
+import { Politician, NewsEvent, Source, ScoringModelId, AIBudget, AIProviderConfig, PromptOverrides } from '../types';
 import { 
   calculateAllMetrics, 
   calculateAnalyticsSummary, 
   exportData, 
   importData,
   AdvancedMetrics,
-  AnalyticsSummary 
+  AnalyticsSummary,
+  ExportedData
 } from '../services/analyticsService';
+import { database } from '../services/database';
+import { SCORING_MODELS, getScoringModel, replayFeed, compareLeaderboards } from '../services/scoringEngine';
+import { BacktestPanel } from './BacktestPanel';
+import { UsagePanel } from './UsagePanel';
+import { PromptPanel } from './PromptPanel';
+import { FetchQueuePanel } from './FetchQueuePanel';
 import { 
   TrendingUp, TrendingDown, Activity, Zap, Users, 
   Target, Brain, Download, Upload, X, PieChart as PieChartIcon,
-  BarChart3, LineChart as LineChartIcon
+  BarChart3, LineChart as LineChartIcon, Scale, History, Gauge, FileText, ListOrdered
 } from 'lucide-react';
 
 interface AnalyticsDashboardProps {
   politicians: Politician[];
   feed: NewsEvent[];
   sources: Source[];
-  onImport: (data: { politicians: Politician[], feed: NewsEvent[], sources: Source[] }) => void;
+  scoringModel: ScoringModelId;
+  scoreModelGenerated: boolean;
+  aiBudget: AIBudget;
+  aiProviderConfig: AIProviderConfig;
+  promptOverrides: PromptOverrides;
+  onPromptOverridesChange: (overrides: PromptOverrides) => void;
+  onImport: (data: ExportedData) => void;
 }
 
 const COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#06b6d4', '#84cc16'];
@@ -28,9 +41,16 @@ export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
   politicians,
   feed,
   sources,
+  scoringModel,
+  scoreModelGenerated,
+  aiBudget,
+  aiProviderConfig,
+  promptOverrides,
+  onPromptOverridesChange,
   onImport
 }) => {
-  const [activeTab, setActiveTab] = useState<'overview' | 'predictions' | 'sentiment' | 'sources'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'predictions' | 'sentiment' | 'sources' | 'models' | 'backtest' | 'usage' | 'prompts' | 'queue'>('overview');
+  const [compareModel, setCompareModel] = useState<ScoringModelId>(scoringModel === 'elo' ? 'linear' : 'elo');
   const [selectedPolitician, setSelectedPolitician] = useState<string | null>(null);
   const [showExportModal, setShowExportModal] = useState(false);
 
@@ -80,8 +100,18 @@ export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
     });
   }, [politicians, feed, sources]);
 
-  const handleExport = () => {
-    const data = exportData(politicians, feed, sources);
+  const modelComparison = useMemo(() => {
+    if (activeTab !== 'models') return [];
+    const options = { includeModelGenerated: scoreModelGenerated };
+    const current = replayFeed(feed, politicians, sources, getScoringModel(scoringModel), options);
+    const alternative = replayFeed(feed, politicians, sources, getScoringModel(compareModel), options);
+    return compareLeaderboards(current.leaderboard, alternative.leaderboard);
+  }, [activeTab, feed, politicians, sources, scoringModel, compareModel, scoreModelGenerated]);
+
+  const handleExport = async () => {
+    // The feed prop only holds the newest events; the export takes everything stored
+    const feed = await database.getAllFeed();
+    const data = exportData({ politicians, feed, sources, ...(await database.getScoreCollections()) });
     const blob = new Blob([data], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -137,7 +167,12 @@ export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
             { id: 'overview', label: 'Overview', icon: BarChart3 },
             { id: 'predictions', label: 'Predictions', icon: Brain },
             { id: 'sentiment', label: 'Sentiment', icon: PieChartIcon },
-            { id: 'sources', label: 'Sources', icon: Activity }
+            { id: 'sources', label: 'Sources', icon: Activity },
+            { id: 'models', label: 'Models', icon: Scale },
+            { id: 'backtest', label: 'Backtest', icon: History },
+            { id: 'usage', label: 'AI Usage', icon: Gauge },
+            { id: 'prompts', label: 'Prompts', icon: FileText },
+            { id: 'queue', label: 'Fetch Queue', icon: ListOrdered }
           ].map(tab => (
             <button
               key={tab.id}
@@ -456,6 +491,74 @@ export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
             </div>
           </div>
         )}
+
+        {activeTab === 'models' && (
+          <div className="space-y-4">
+            <div className="flex flex-col md:flex-row md:items-end gap-4">
+              <div>
+                <label className="text-sm font-medium text-slate-700 mb-2 block">Compare Against</label>
+                <select
+                  value={compareModel}
+                  onChange={(e) => setCompareModel(e.target.value as ScoringModelId)}
+                  className="w-full md:w-64 border border-slate-300 rounded-lg px-3 py-2 text-sm focus:border-indigo-500 focus:outline-none"
+                >
+                  {SCORING_MODELS.map(m => (
+                    <option key={m.id} value={m.id}>{m.name}</option>
+                  ))}
+                </select>
+              </div>
+              <p className="text-xs text-slate-500 flex-1">
+                Replays all {feed.length} stored events from a baseline of 100 under the active model
+                (<strong>{getScoringModel(scoringModel).name}</strong>) and under {getScoringModel(compareModel).name}.
+              </p>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-slate-500 uppercase border-b border-slate-200">
+                    <th className="py-2 pr-4">Candidate</th>
+                    <th className="py-2 pr-4">{getScoringModel(scoringModel).name}</th>
+                    <th className="py-2 pr-4">{getScoringModel(compareModel).name}</th>
+                    <th className="py-2">Rank Change</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {modelComparison.map(row => (
+                    <tr key={row.politicianId} className="border-b border-slate-100">
+                      <td className="py-2 pr-4 font-medium text-slate-800">{row.name}</td>
+                      <td className="py-2 pr-4 text-slate-600">#{row.rankA} • {row.scoreA.toFixed(2)}</td>
+                      <td className="py-2 pr-4 text-slate-600">#{row.rankB} • {row.scoreB.toFixed(2)}</td>
+                      <td className={`py-2 font-mono text-xs ${row.rankChange > 0 ? 'text-emerald-600' : row.rankChange < 0 ? 'text-rose-600' : 'text-slate-400'}`}>
+                        {row.rankChange > 0 ? `▲ ${row.rankChange}` : row.rankChange < 0 ? `▼ ${Math.abs(row.rankChange)}` : '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {activeTab === 'backtest' && (
+          <BacktestPanel
+            current={{ politicians, feed, sources }}
+            scoringModel={scoringModel}
+            includeModelGenerated={scoreModelGenerated}
+          />
+        )}
+
+        {activeTab === 'usage' && <UsagePanel budget={aiBudget} />}
+
+        {activeTab === 'prompts' && (
+          <PromptPanel
+            aiProviderConfig={aiProviderConfig}
+            overrides={promptOverrides}
+            onOverridesChange={onPromptOverridesChange}
+          />
+        )}
+
+        {activeTab === 'queue' && <FetchQueuePanel />}
       </div>
 
       {showExportModal && (
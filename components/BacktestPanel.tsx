@@ -0,0 +1,194 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Play, Square, Upload } from 'lucide-react';
+import { ScoringModelId } from '../types';
+import { importData } from '../services/analyticsService';
+import { SCORING_MODELS, getScoringModel } from '../services/scoringEngine';
+import {
+  BacktestDataset,
+  BacktestProgress,
+  BacktestResult,
+  BACKTEST_SPEEDS,
+  runBacktest,
+} from '../services/backtestRunner';
+import { TrendChart } from './TrendChart';
+
+interface BacktestPanelProps {
+  /** The live dataset, used unless an export file is loaded */
+  current: BacktestDataset;
+  scoringModel: ScoringModelId;
+  includeModelGenerated: boolean;
+}
+
+export const BacktestPanel: React.FC<BacktestPanelProps> = ({ current, scoringModel, includeModelGenerated }) => {
+  const [loaded, setLoaded] = useState<{ name: string; data: BacktestDataset } | null>(null);
+  const [modelId, setModelId] = useState<ScoringModelId>(scoringModel);
+  const [speed, setSpeed] = useState(BACKTEST_SPEEDS[1].speed);
+  const [progress, setProgress] = useState<BacktestProgress | null>(null);
+  const [result, setResult] = useState<BacktestResult | null>(null);
+  const [running, setRunning] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const dataset = loaded?.data || current;
+
+  // Stop a running replay when the panel unmounts
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleLoad = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const data = importData(event.target?.result as string);
+      if (data) {
+        setLoaded({ name: file.name, data });
+        setResult(null);
+      } else {
+        alert('Failed to load dataset. Please check the file format.');
+      }
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const handleRun = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(true);
+    setResult(null);
+    setProgress(null);
+    try {
+      const outcome = await runBacktest(dataset, { scoringModel: modelId, speed, includeModelGenerated }, {
+        signal: controller.signal,
+        onProgress: setProgress,
+      });
+      setResult(outcome);
+    } finally {
+      setRunning(false);
+      abortRef.current = null;
+    }
+  };
+
+  const percent = progress && progress.total ? Math.round((progress.processed / progress.total) * 100) : 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row md:items-end gap-4">
+        <div>
+          <label className="text-sm font-medium text-slate-700 mb-2 block">Dataset</label>
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-slate-600 truncate max-w-[180px]">
+              {loaded ? loaded.name : 'Current data'} ({dataset.feed.length} events)
+            </span>
+            <label className="flex items-center gap-1 px-2 py-1 text-xs font-medium bg-white border border-slate-300 rounded-lg hover:bg-slate-50 cursor-pointer">
+              <Upload size={12} /> Load Export
+              <input type="file" accept=".json" onChange={handleLoad} className="hidden" disabled={running} />
+            </label>
+            {loaded && (
+              <button
+                onClick={() => { setLoaded(null); setResult(null); }}
+                disabled={running}
+                className="text-xs text-slate-500 hover:text-slate-700 underline"
+              >
+                Use current
+              </button>
+            )}
+          </div>
+        </div>
+        <div>
+          <label className="text-sm font-medium text-slate-700 mb-2 block">Scoring Model</label>
+          <select
+            value={modelId}
+            onChange={(e) => setModelId(e.target.value as ScoringModelId)}
+            disabled={running}
+            className="border border-slate-300 rounded-lg px-3 py-2 text-sm focus:border-indigo-500 focus:outline-none"
+          >
+            {SCORING_MODELS.map(m => (
+              <option key={m.id} value={m.id}>{m.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="text-sm font-medium text-slate-700 mb-2 block">Speed</label>
+          <select
+            value={speed}
+            onChange={(e) => setSpeed(Number(e.target.value))}
+            disabled={running}
+            className="border border-slate-300 rounded-lg px-3 py-2 text-sm focus:border-indigo-500 focus:outline-none"
+          >
+            {BACKTEST_SPEEDS.map(s => (
+              <option key={s.label} value={s.speed}>{s.label}</option>
+            ))}
+          </select>
+        </div>
+        {running ? (
+          <button
+            onClick={() => abortRef.current?.abort()}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-medium bg-rose-600 text-white rounded-lg hover:bg-rose-700"
+          >
+            <Square size={14} /> Stop
+          </button>
+        ) : (
+          <button
+            onClick={handleRun}
+            disabled={dataset.feed.length === 0}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-medium bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+          >
+            <Play size={14} /> Run Backtest
+          </button>
+        )}
+      </div>
+
+      {progress && (running || result?.aborted) && (
+        <div>
+          <div className="flex justify-between text-xs text-slate-500 mb-1">
+            <span>{progress.processed} / {progress.total} events</span>
+            <span>{new Date(progress.simulatedTime).toLocaleString()}</span>
+          </div>
+          <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+            <div className="h-full bg-indigo-500 transition-all" style={{ width: `${percent}%` }} />
+          </div>
+        </div>
+      )}
+
+      {result && (
+        <>
+          <p className="text-xs text-slate-500">
+            {result.aborted ? 'Stopped after' : 'Replayed'} {result.eventsApplied} events with{' '}
+            <strong>{getScoringModel(result.modelId).name}</strong>. Solid lines are the recorded history,
+            dashed lines the backtest.
+          </p>
+          <TrendChart
+            politicians={dataset.politicians}
+            series={result.recorded}
+            comparison={{ label: 'backtest', histories: result.replay.histories }}
+          />
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-slate-500 uppercase border-b border-slate-200">
+                  <th className="py-2 pr-4">Candidate</th>
+                  <th className="py-2 pr-4">Recorded</th>
+                  <th className="py-2 pr-4">Backtest</th>
+                  <th className="py-2 pr-4">Mean |Δ|</th>
+                  <th className="py-2">Max |Δ|</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.politicians.map(row => (
+                  <tr key={row.politicianId} className="border-b border-slate-100">
+                    <td className="py-2 pr-4 font-medium text-slate-800">{row.name}</td>
+                    <td className="py-2 pr-4 text-slate-600">{row.recordedFinal?.toFixed(2) ?? '—'}</td>
+                    <td className="py-2 pr-4 text-slate-600">{row.replayedFinal?.toFixed(2) ?? '—'}</td>
+                    <td className="py-2 pr-4 font-mono text-xs text-slate-600">{row.meanAbsDelta.toFixed(2)}</td>
+                    <td className="py-2 font-mono text-xs text-slate-600">{row.maxAbsDelta.toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
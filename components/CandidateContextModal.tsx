@@ -1,6 +1,6 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Politician, CandidateContext, AdvancedMetrics } from '../types';
-import { X, BookOpen, ExternalLink, TrendingUp, AlertTriangle, ShieldCheck, Download, Loader2 } from 'lucide-react';
+import { X, BookOpen, ExternalLink, TrendingUp, AlertTriangle, ShieldCheck, Download, Loader2, Square } from 'lucide-react';
 import { generateCandidateContext } from '../services/contextGenerator';
 import { database } from '../services/database';
 
@@ -22,11 +22,17 @@ export const CandidateContextModal: React.FC<CandidateContextModalProps> = ({
     const [context, setContext] = useState<CandidateContext | null>(null);
     const [loading, setLoading] = useState(true);
     const [generating, setGenerating] = useState(false);
+    // The narrative as it streams in, before the full reply parses
+    const [streamedNarrative, setStreamedNarrative] = useState('');
+    const abortRef = useRef<AbortController | null>(null);
 
     useEffect(() => {
         loadContext();
     }, [politician.id]);
 
+    // Closing the modal cancels a generation in progress
+    useEffect(() => () => abortRef.current?.abort(), []);
+
     const loadContext = async () => {
         setLoading(true);
         // Try to load from DB first
@@ -42,13 +48,20 @@ export const CandidateContextModal: React.FC<CandidateContextModalProps> = ({
     };
 
     const handleGenerate = async (force = false) => {
+        const controller = new AbortController();
+        abortRef.current = controller;
         setGenerating(true);
+        setStreamedNarrative('');
         try {
-            const newContext = await generateCandidateContext(politician, feed, config.aiProviderConfig, force);
+            const newContext = await generateCandidateContext(politician, feed, config.aiProviderConfig, force, {
+                onNarrative: setStreamedNarrative,
+                signal: controller.signal,
+            });
             if (newContext) setContext(newContext);
         } catch (e) {
             console.error(e);
         } finally {
+            abortRef.current = null;
             setGenerating(false);
             setLoading(false);
         }
@@ -124,7 +137,23 @@ ${context.controversies.join('\n')}
 
                 {/* Content */}
                 <div className="p-8 space-y-8 flex-1">
-                    {loading || generating ? (
+                    {(loading || generating) && streamedNarrative ? (
+                        <div>
+                            <h3 className="text-xl font-bold text-slate-800 mb-4 flex items-center gap-2">
+                                <BookOpen size={24} className="text-indigo-600" />
+                                Strategic Narrative
+                                <Loader2 size={16} className="animate-spin text-indigo-500" />
+                            </h3>
+                            <div className="prose prose-slate max-w-none text-slate-600 leading-relaxed">
+                                {streamedNarrative.split('\n').map((para, i) => (
+                                    <p key={i} className="mb-4">{para}</p>
+                                ))}
+                            </div>
+                            <div className="text-xs text-slate-400 mt-2 italic">
+                                Writing… strengths, rivals and the summary follow once the analysis is complete.
+                            </div>
+                        </div>
+                    ) : loading || generating ? (
                         <div className="flex flex-col items-center justify-center py-20 text-slate-400">
                             <Loader2 size={48} className="animate-spin mb-4 text-indigo-500" />
                             <p className="text-lg font-medium">Analyzing political landscape...</p>
@@ -231,14 +260,23 @@ ${context.controversies.join('\n')}
 
                 {/* Footer Actions */}
                 <div className="p-4 bg-slate-50 border-t border-slate-200 flex justify-end gap-3 rounded-b-xl">
-                    <button
-                        onClick={() => handleGenerate(true)}
-                        disabled={generating}
-                        className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-300 rounded-lg text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50"
-                    >
-                        {generating ? <Loader2 size={16} className="animate-spin" /> : <TrendingUp size={16} />}
-                        Regenerate Analysis
-                    </button>
+                    {generating ? (
+                        <button
+                            onClick={() => abortRef.current?.abort()}
+                            className="flex items-center gap-2 px-4 py-2 bg-white border border-rose-300 rounded-lg text-sm font-medium text-rose-700 hover:bg-rose-50"
+                        >
+                            <Square size={16} />
+                            Stop Generating
+                        </button>
+                    ) : (
+                        <button
+                            onClick={() => handleGenerate(true)}
+                            className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-300 rounded-lg text-sm font-medium text-slate-700 hover:bg-slate-50"
+                        >
+                            <TrendingUp size={16} />
+                            Regenerate Analysis
+                        </button>
+                    )}
                     <button
                         onClick={handleExport}
                         disabled={!context}
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { Politician } from '../types';
 import { Users, Plus, X, Search, Filter } from 'lucide-react';
+import { aliasesFor } from '../services/entityResolver';
 
 interface CandidateManagerProps {
   candidates: Politician[];
@@ -23,6 +24,7 @@ export const CandidateManager: React.FC<CandidateManagerProps> = ({
   const [newRole, setNewRole] = useState('Presidential Aspirant');
   const [newSlogan, setNewSlogan] = useState('');
   const [newBio, setNewBio] = useState('');
+  const [newAliases, setNewAliases] = useState('');
 
   const handleAdd = () => {
     if (!newName || !newParty) return;
@@ -34,6 +36,7 @@ export const CandidateManager: React.FC<CandidateManagerProps> = ({
       role: newRole,
       slogan: newSlogan || 'Forward Together',
       bio: newBio || 'A presidential hopeful for the 2027 General Elections.',
+      aliases: newAliases.split(',').map(a => a.trim()).filter(Boolean),
       score: 100.0,
       trend: 0,
       color: `#${Math.floor(Math.random()*16777215).toString(16)}`,
@@ -47,6 +50,7 @@ export const CandidateManager: React.FC<CandidateManagerProps> = ({
     setNewParty('');
     setNewSlogan('');
     setNewBio('');
+    setNewAliases('');
     setIsAdding(false);
   };
 
@@ -88,6 +92,12 @@ export const CandidateManager: React.FC<CandidateManagerProps> = ({
                     onChange={e => setNewSlogan(e.target.value)}
                 />
              </div>
+             <input 
+                className="w-full text-sm border border-slate-300 rounded px-2 py-1.5 focus:border-indigo-500 focus:outline-none"
+                placeholder="Also known as (comma-separated, e.g. Kalonzo, Steve)"
+                value={newAliases}
+                onChange={e => setNewAliases(e.target.value)}
+             />
              <textarea 
                 className="w-full text-sm border border-slate-300 rounded px-2 py-1.5 focus:border-indigo-500 focus:outline-none resize-none"
                 placeholder="Brief Biography..."
@@ -116,7 +126,7 @@ export const CandidateManager: React.FC<CandidateManagerProps> = ({
       </div>
 
       <div className="space-y-2 max-h-[300px] overflow-y-auto custom-scroll pr-1">
-        {candidates.filter(c => c.name.toLowerCase().includes(filterText.toLowerCase()) || c.party.toLowerCase().includes(filterText.toLowerCase())).map(candidate => (
+        {candidates.filter(c => aliasesFor(c).some(a => a.toLowerCase().includes(filterText.toLowerCase())) || c.party.toLowerCase().includes(filterText.toLowerCase())).map(candidate => (
           <div key={candidate.id} className="flex items-center justify-between p-2 rounded hover:bg-slate-50 border border-transparent hover:border-slate-100 transition-all group">
              <div className="flex items-center gap-2">
                 <img src={candidate.image} alt="" className="w-8 h-8 rounded-full object-cover bg-slate-200 border border-slate-200" />
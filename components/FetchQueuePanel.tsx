@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { FetchJob, FetchJobStatus } from '../types';
+import { ingestionClient } from '../services/ingestionClient';
+
+const STATUS_STYLES: Record<FetchJobStatus, string> = {
+  pending: 'text-slate-600 bg-slate-100',
+  running: 'text-indigo-700 bg-indigo-100',
+  succeeded: 'text-emerald-700 bg-emerald-100',
+  failed: 'text-rose-700 bg-rose-100',
+};
+
+const formatWhen = (ms: number, now: number): string => {
+  const minutes = Math.round((ms - now) / 60000);
+  if (Math.abs(minutes) < 1) return 'now';
+  const span = Math.abs(minutes) >= 60 ? `${Math.round(Math.abs(minutes) / 60)}h` : `${Math.abs(minutes)}m`;
+  return minutes > 0 ? `in ${span}` : `${span} ago`;
+};
+
+const nextRunLabel = (job: FetchJob, now: number): string => {
+  if (job.status === 'running') return 'running';
+  return formatWhen(job.nextRunAt, now);
+};
+
+export const FetchQueuePanel: React.FC = () => {
+  const [, setTick] = useState(0);
+
+  useEffect(() => {
+    const unsubscribe = ingestionClient.subscribe(() => setTick((t) => t + 1));
+    // Relative times drift, so refresh them every half minute as well
+    const timer = setInterval(() => setTick((t) => t + 1), 30000);
+    return () => {
+      unsubscribe();
+      clearInterval(timer);
+    };
+  }, []);
+
+  const now = Date.now();
+  const { jobs, schedule, running, pollsLastHour } = ingestionClient.snapshot();
+  const waiting = jobs.filter((j) => j.status === 'pending').length;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 bg-slate-50 rounded-lg p-4 text-sm">
+        <div>
+          <div className="text-xs text-slate-500">Ingestion</div>
+          <div className="font-medium text-slate-800">
+            {running ? 'Running' : 'Paused'}
+            {waiting > 0 && <span className="text-xs text-slate-400 ml-2">{waiting} waiting</span>}
+          </div>
+        </div>
+        <div>
+          <div className="text-xs text-slate-500">Last fetch</div>
+          <div className="font-medium text-slate-800">
+            {schedule.lastFetchTime ? formatWhen(new Date(schedule.lastFetchTime).getTime(), now) : 'None yet'}
+            <span className="text-xs text-slate-400 ml-2">{schedule.fetchCount} in total</span>
+          </div>
+        </div>
+        <div>
+          <div className="text-xs text-slate-500">Fetches this hour</div>
+          <div className="font-medium text-slate-800">{pollsLastHour}</div>
+        </div>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-slate-500 border-b border-slate-200">
+            <th className="text-left py-2">Politician</th>
+            <th className="text-left py-2">Status</th>
+            <th className="text-right py-2">Attempts</th>
+            <th className="text-right py-2">Last run</th>
+            <th className="text-right py-2">Next run</th>
+            <th className="text-left py-2 pl-4">Last error</th>
+            <th className="py-2" />
+          </tr>
+        </thead>
+        <tbody>
+          {jobs.map((job) => (
+            <tr key={job.id} className="border-b border-slate-100">
+              <td className="py-2 text-slate-700">{job.politicianName}</td>
+              <td className="py-2">
+                <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded uppercase ${STATUS_STYLES[job.status]}`}>
+                  {job.status}
+                </span>
+                {job.status === 'succeeded' && job.lastEventCount !== undefined && (
+                  <span className="text-xs text-slate-400 ml-2">{job.lastEventCount} new</span>
+                )}
+              </td>
+              <td className="py-2 text-right font-mono">{job.attempts}</td>
+              <td className="py-2 text-right text-slate-500">{job.lastRunAt ? formatWhen(job.lastRunAt, now) : '—'}</td>
+              <td className="py-2 text-right text-slate-500">{nextRunLabel(job, now)}</td>
+              <td className="py-2 pl-4 text-xs text-rose-600 max-w-xs truncate" title={job.lastError}>
+                {job.lastError || ''}
+              </td>
+              <td className="py-2 text-right">
+                {job.status === 'failed' && (
+                  <button
+                    onClick={() => ingestionClient.retryJob(job.id)}
+                    className="flex items-center gap-1 text-xs text-indigo-600 hover:text-indigo-800"
+                  >
+                    <RotateCcw size={12} /> Retry now
+                  </button>
+                )}
+              </td>
+            </tr>
+          ))}
+          {jobs.length === 0 && (
+            <tr>
+              <td colSpan={7} className="py-4 text-center text-xs text-slate-400">
+                No jobs queued. The queue fills with one job per tracked politician once ingestion starts.
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+};
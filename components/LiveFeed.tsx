@@ -1,9 +1,17 @@
 import React from 'react';
-import { NewsEvent } from '../types';
-import { Bot, Radio, Globe, MessageCircle, Newspaper, ExternalLink } from 'lucide-react';
+import { NewsEvent, Politician } from '../types';
+import { Bot, Radio, Globe, MessageCircle, Newspaper, ExternalLink, Search } from 'lucide-react';
+import { eventMentions } from '../services/eventMentions';
+import { eventProvenance, PROVENANCE_LABELS } from '../services/eventProvenance';
+import { labelsConflict } from '../services/sentimentEngine';
 
 interface LiveFeedProps {
   feed: NewsEvent[];
+  politicians: Politician[];
+  /** Whether model-generated events are being scored */
+  scoreModelGenerated?: boolean;
+  /** Load the next page of older events; omitted when there are none */
+  onLoadOlder?: () => void;
 }
 
 const SourceIcon = ({ type }: { type: string }) => {
@@ -15,7 +23,9 @@ const SourceIcon = ({ type }: { type: string }) => {
   }
 };
 
-export const LiveFeed: React.FC<LiveFeedProps> = ({ feed }) => {
+export const LiveFeed: React.FC<LiveFeedProps> = ({ feed, politicians, scoreModelGenerated = false, onLoadOlder }) => {
+  const nameOf = (id: string) => politicians.find(p => p.id === id)?.name;
+
   return (
     <div className="flex flex-col h-full">
       <div className="p-4 border-b border-slate-100 bg-slate-50 flex justify-between items-center rounded-t-xl">
@@ -42,6 +52,9 @@ export const LiveFeed: React.FC<LiveFeedProps> = ({ feed }) => {
           </div>
         )}
         {feed.map((event) => {
+           const mentions = eventMentions(event).filter(m => nameOf(m.politicianId));
+           const provenance = eventProvenance(event);
+           const unverified = provenance === 'model-generated';
            let borderClass = 'border-l-4 border-slate-300';
            let bgClass = 'bg-white';
            
@@ -51,18 +64,55 @@ export const LiveFeed: React.FC<LiveFeedProps> = ({ feed }) => {
                borderClass = 'border-l-4 border-rose-500';
                bgClass = 'bg-rose-50/30';
            }
+           if (unverified) {
+               borderClass = 'border-l-4 border-dashed border-amber-400';
+               bgClass = 'bg-amber-50/40';
+           }
 
            return (
             <div key={event.id} className={`p-3 rounded-r-lg shadow-sm border border-slate-200 ${borderClass} ${bgClass} text-sm transition-all animate-in slide-in-from-right-2 duration-300 relative group`}>
               <div className="flex justify-between items-start mb-1">
                 <span className="font-bold text-slate-700 text-[10px] uppercase tracking-wide flex items-center gap-1">
                    {event.sourceName}
+                   {provenance === 'search-grounded' && (
+                     <span className="normal-case font-medium text-indigo-500 flex items-center gap-0.5" title={PROVENANCE_LABELS[provenance]}>
+                       <Search size={10} />
+                     </span>
+                   )}
                 </span>
                 <span className="text-[10px] text-slate-400 font-mono">{event.timestamp}</span>
               </div>
-              <div className="font-medium text-slate-800 mb-2 leading-relaxed">
+              <div className={`font-medium mb-2 leading-relaxed ${unverified ? 'text-slate-500 italic' : 'text-slate-800'}`}>
                 {event.headline}
               </div>
+              {unverified && (
+                <div
+                  className="flex items-center gap-1 text-[10px] font-semibold text-amber-700 bg-amber-100 border border-amber-200 rounded px-1.5 py-0.5 mb-2 w-fit"
+                  title="Produced from the model's own knowledge with no article behind it"
+                >
+                  <Bot size={11} />
+                  {PROVENANCE_LABELS[provenance]}{!scoreModelGenerated && ' • not scored'}
+                </div>
+              )}
+              {mentions.length > 1 && (
+                <div className="flex flex-wrap gap-1.5 mb-2">
+                  {mentions.map(m => (
+                    <span
+                      key={m.politicianId}
+                      className={`text-[10px] px-1.5 py-0.5 rounded border ${
+                        m.sentiment === 'positive' ? 'text-emerald-700 bg-emerald-50 border-emerald-200' :
+                        m.sentiment === 'negative' ? 'text-rose-700 bg-rose-50 border-rose-200' : 'text-slate-600 bg-slate-50 border-slate-200'
+                      }`}
+                      title={m.stance ? `Stance: ${m.stance}` : undefined}
+                    >
+                      <span className="font-semibold">{nameOf(m.politicianId)}</span>{' '}
+                      <span className="font-mono">
+                        {m.sentiment === 'negative' ? '-' : m.sentiment === 'positive' ? '+' : '±'}{m.impact.toFixed(2)}
+                      </span>
+                    </span>
+                  ))}
+                </div>
+              )}
               <div className="flex items-center justify-between pt-2 border-t border-slate-100/50">
                 <div className="flex items-center gap-2">
                     <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded ${
@@ -76,6 +126,16 @@ export const LiveFeed: React.FC<LiveFeedProps> = ({ feed }) => {
                             {event.sentiment === 'negative' ? '-' : '+'}{event.impact.toFixed(2)}
                         </span>
                     </span>
+                    {event.topic && (
+                        <span className="text-[10px] text-slate-500 bg-slate-100 px-1.5 py-0.5 rounded" title={event.stance ? `Stance: ${event.stance}` : undefined}>
+                            {event.topic}
+                        </span>
+                    )}
+                    {event.localSentiment && labelsConflict(event.sentiment, event.localSentiment) && (
+                        <span className="text-[10px] text-amber-700 bg-amber-50 border border-amber-200 px-1.5 py-0.5 rounded" title="The offline lexicon engine reads this article the other way; worth a manual check">
+                            Lexicon: {event.localSentiment}
+                        </span>
+                    )}
                 </div>
                 {event.url && (
                     <a href={event.url} target="_blank" rel="noopener noreferrer" className="text-indigo-500 hover:text-indigo-700 flex items-center gap-1 text-[10px] font-medium opacity-80 hover:opacity-100">
@@ -86,6 +146,14 @@ export const LiveFeed: React.FC<LiveFeedProps> = ({ feed }) => {
             </div>
            );
         })}
+        {onLoadOlder && (
+          <button
+            onClick={onLoadOlder}
+            className="w-full py-2 text-xs font-medium text-indigo-600 hover:text-indigo-800 hover:bg-indigo-50 rounded-lg transition-colors"
+          >
+            Load older events
+          </button>
+        )}
       </div>
     </div>
   );
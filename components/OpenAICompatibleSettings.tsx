@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { CheckCircle2, XCircle } from 'lucide-react';
+import { AIProviderConfig } from '../types';
+import { OpenAICompatibleProvider } from '../services/providers/openAICompatibleProvider';
+
+interface OpenAICompatibleSettingsProps {
+  config: AIProviderConfig;
+  onChange: (patch: Partial<AIProviderConfig>) => void;
+}
+
+const formatHeaders = (headers: Record<string, string>): string =>
+  Object.entries(headers)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join('\n');
+
+/** One `Name: value` per line; lines without a colon are ignored. */
+const parseHeaders = (text: string): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim();
+    if (name) headers[name] = line.slice(colon + 1).trim();
+  }
+  return headers;
+};
+
+const inputClass =
+  'w-full text-xs border border-slate-300 rounded px-2 py-1.5 focus:border-indigo-500 focus:outline-none mt-0.5';
+
+export const OpenAICompatibleSettings: React.FC<OpenAICompatibleSettingsProps> = ({ config, onChange }) => {
+  const [headersText, setHeadersText] = useState(() => formatHeaders(config.openaiHeaders || {}));
+  const [status, setStatus] = useState<{ ok: boolean; models: string[] } | null>(null);
+  const [testing, setTesting] = useState(false);
+
+  const handleTest = async () => {
+    setTesting(true);
+    setStatus(
+      await OpenAICompatibleProvider.checkConnection(
+        config.openaiBaseUrl,
+        config.openaiApiKey,
+        config.openaiHeaders
+      )
+    );
+    setTesting(false);
+  };
+
+  return (
+    <div className="bg-slate-50 p-3 rounded-lg border border-slate-200 space-y-2">
+      <span className="text-xs font-bold text-slate-500">OpenAI-Compatible Server</span>
+      <div>
+        <label className="text-[10px] text-slate-400">Base URL</label>
+        <input
+          type="text"
+          value={config.openaiBaseUrl}
+          onChange={(e) => onChange({ openaiBaseUrl: e.target.value })}
+          className={inputClass}
+          placeholder="http://localhost:8080/v1"
+        />
+      </div>
+      <div>
+        <label className="text-[10px] text-slate-400">Model</label>
+        <input
+          type="text"
+          value={config.openaiModel}
+          onChange={(e) => onChange({ openaiModel: e.target.value })}
+          className={inputClass}
+          placeholder="e.g. qwen2.5-7b-instruct"
+        />
+      </div>
+      <div>
+        <label className="text-[10px] text-slate-400">API Key (optional)</label>
+        <input
+          type="password"
+          value={config.openaiApiKey}
+          onChange={(e) => onChange({ openaiApiKey: e.target.value })}
+          className={inputClass}
+          placeholder="Leave empty for local servers"
+        />
+      </div>
+      <div>
+        <label className="text-[10px] text-slate-400">Extra Headers (one per line)</label>
+        <textarea
+          value={headersText}
+          onChange={(e) => setHeadersText(e.target.value)}
+          onBlur={() => onChange({ openaiHeaders: parseHeaders(headersText) })}
+          rows={2}
+          className={`${inputClass} font-mono resize-none`}
+          placeholder="X-Api-Version: 2"
+        />
+      </div>
+      <label className="flex items-center gap-2 text-[10px] text-slate-500">
+        <input
+          type="checkbox"
+          checked={config.openaiJsonMode}
+          onChange={(e) => onChange({ openaiJsonMode: e.target.checked })}
+        />
+        JSON mode (<code>response_format</code>) — disable if the server rejects it
+      </label>
+      <div className="flex items-center gap-2">
+        {status &&
+          (status.ok ? (
+            <>
+              <CheckCircle2 size={12} className="text-emerald-500" />
+              <span className="text-[10px] text-emerald-600">Connected • {status.models.length} model(s)</span>
+            </>
+          ) : (
+            <>
+              <XCircle size={12} className="text-rose-400" />
+              <span className="text-[10px] text-rose-500">Not connected</span>
+            </>
+          ))}
+        <button
+          onClick={handleTest}
+          disabled={testing || !config.openaiBaseUrl}
+          className="text-[10px] text-indigo-600 hover:underline ml-auto disabled:opacity-50"
+        >
+          {testing ? 'Testing…' : 'Test'}
+        </button>
+      </div>
+      {status?.ok && status.models.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {status.models.slice(0, 6).map((m) => (
+            <button
+              key={m}
+              onClick={() => onChange({ openaiModel: m })}
+              className={`text-[9px] px-1.5 py-0.5 rounded border ${config.openaiModel === m ? 'bg-indigo-100 border-indigo-300 text-indigo-700' : 'bg-white border-slate-200 text-slate-500 hover:bg-slate-50'}`}
+            >
+              {m}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,245 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Play, Square } from 'lucide-react';
+import { AIProviderConfig, PromptId, PromptOverrides } from '../types';
+import { PROMPT_EVAL_GOLD_SET } from '../constants';
+import { getProvider } from '../services/aiProvider';
+import { PROMPT_IDS, PromptTemplate, latestPrompt, promptVersions, resolvePrompt } from '../services/promptTemplates';
+import { PromptComparison, PromptVariantResult, comparePromptVersions } from '../services/promptEvaluation';
+
+interface PromptPanelProps {
+  aiProviderConfig: AIProviderConfig;
+  overrides: PromptOverrides;
+  onOverridesChange: (overrides: PromptOverrides) => void;
+}
+
+// Select values: '' follows the latest version, 'custom' edits the text, otherwise a version
+const CUSTOM = 'custom';
+
+const overrideValue = (overrides: PromptOverrides, id: PromptId): string => {
+  const override = overrides[id];
+  if (override?.template !== undefined) return CUSTOM;
+  return override?.version !== undefined ? String(override.version) : '';
+};
+
+const versionLabel = (t: PromptTemplate) => (t.version === 0 ? 'Custom' : `v${t.version}`);
+
+const VariantSummary: React.FC<{ result: PromptVariantResult; wins: number }> = ({ result, wins }) => (
+  <div className="bg-slate-50 rounded-lg p-4">
+    <div className="flex items-baseline justify-between">
+      <span className="text-sm font-bold text-slate-700">
+        {result.label}: {result.version === 0 ? 'Custom' : `v${result.version}`}
+      </span>
+      <span className="text-2xl font-bold text-slate-800">{Math.round(result.accuracy * 100)}%</span>
+    </div>
+    <p className="text-xs text-slate-500 mt-1">
+      {result.cases.filter((c) => c.correct).length} of {result.cases.length} correct • {result.answered} answered •{' '}
+      {wins} won where the versions disagree
+    </p>
+  </div>
+);
+
+export const PromptPanel: React.FC<PromptPanelProps> = ({ aiProviderConfig, overrides, onOverridesChange }) => {
+  const analysisVersions = promptVersions('article-analysis');
+  const hasCustomAnalysis = !!overrides['article-analysis']?.template?.trim();
+  const [versionA, setVersionA] = useState(analysisVersions[0].version);
+  const [versionB, setVersionB] = useState(latestPrompt('article-analysis').version);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [comparison, setComparison] = useState<PromptComparison | null>(null);
+  const [running, setRunning] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const setOverride = (id: PromptId, value: string) => {
+    const next = { ...overrides };
+    if (value === '') delete next[id];
+    else if (value === CUSTOM) next[id] = { template: resolvePrompt(id, overrides).template };
+    else next[id] = { version: Number(value) };
+    onOverridesChange(next);
+  };
+
+  // 0 stands for the custom article-analysis text from settings
+  const analysisTemplate = (version: number): PromptTemplate =>
+    version === 0
+      ? { ...latestPrompt('article-analysis'), version: 0, template: overrides['article-analysis']?.template || '' }
+      : analysisVersions.find((t) => t.version === version)!;
+
+  const handleRun = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(true);
+    setComparison(null);
+    setProgress(null);
+    try {
+      const outcome = await comparePromptVersions(
+        getProvider(aiProviderConfig, 'prompt-eval'),
+        analysisTemplate(versionA),
+        analysisTemplate(versionB),
+        { signal: controller.signal, onProgress: (done, total) => setProgress({ done, total }) }
+      );
+      setComparison(outcome);
+    } finally {
+      setRunning(false);
+      abortRef.current = null;
+    }
+  };
+
+  const variantOptions = [
+    ...analysisVersions.map((t) => ({ value: t.version, label: `v${t.version} — ${t.description}` })),
+    ...(hasCustomAnalysis ? [{ value: 0, label: 'Custom (from settings)' }] : []),
+  ];
+  const selectClass =
+    'border border-slate-300 rounded-lg px-3 py-2 text-sm focus:border-indigo-500 focus:outline-none max-w-xs';
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h4 className="font-bold text-slate-700 mb-1">Templates</h4>
+        <p className="text-xs text-slate-500 mb-3">
+          Every prompt follows its latest version unless pinned here. Custom text may use the same{' '}
+          <code>{'{{variables}}'}</code> as the version it replaces.
+        </p>
+        <div className="space-y-3">
+          {PROMPT_IDS.map((id) => {
+            const value = overrideValue(overrides, id);
+            const active = resolvePrompt(id, overrides);
+            return (
+              <div key={id} className="border border-slate-200 rounded-lg p-3">
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <span className="text-sm font-mono text-slate-800">{id}</span>
+                    <span className="text-xs text-slate-400 ml-2">
+                      {versionLabel(active)} • {active.description}
+                    </span>
+                  </div>
+                  <select
+                    value={value}
+                    onChange={(e) => setOverride(id, e.target.value)}
+                    className="border border-slate-300 rounded px-2 py-1 text-xs focus:border-indigo-500 focus:outline-none"
+                  >
+                    <option value="">Latest (v{latestPrompt(id).version})</option>
+                    {promptVersions(id).map((t) => (
+                      <option key={t.version} value={t.version}>
+                        Pin v{t.version}
+                      </option>
+                    ))}
+                    <option value={CUSTOM}>Custom</option>
+                  </select>
+                </div>
+                {value === CUSTOM && (
+                  <textarea
+                    value={overrides[id]?.template || ''}
+                    onChange={(e) => onOverridesChange({ ...overrides, [id]: { template: e.target.value } })}
+                    rows={8}
+                    className="w-full mt-2 text-xs font-mono border border-slate-300 rounded px-2 py-1.5 focus:border-indigo-500 focus:outline-none"
+                  />
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <h4 className="font-bold text-slate-700 mb-1">A/B Evaluation</h4>
+          <p className="text-xs text-slate-500">
+            Labels {PROMPT_EVAL_GOLD_SET.length} hand-labelled articles with two versions of the article-analysis
+            prompt, using the current provider chain, and scores the sentiment against the gold labels.
+          </p>
+        </div>
+        <div className="flex flex-col md:flex-row md:items-end gap-4">
+          {[
+            { label: 'Version A', value: versionA, set: setVersionA },
+            { label: 'Version B', value: versionB, set: setVersionB },
+          ].map(({ label, value, set }) => (
+            <div key={label}>
+              <label className="text-sm font-medium text-slate-700 mb-2 block">{label}</label>
+              <select
+                value={value}
+                onChange={(e) => set(Number(e.target.value))}
+                disabled={running}
+                className={selectClass}
+              >
+                {variantOptions.map((o) => (
+                  <option key={o.value} value={o.value}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+          {running ? (
+            <button
+              onClick={() => abortRef.current?.abort()}
+              className="flex items-center gap-2 px-4 py-2 text-sm font-medium bg-rose-600 text-white rounded-lg hover:bg-rose-700"
+            >
+              <Square size={14} /> Stop
+            </button>
+          ) : (
+            <button
+              onClick={handleRun}
+              disabled={versionA === versionB}
+              className="flex items-center gap-2 px-4 py-2 text-sm font-medium bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+            >
+              <Play size={14} /> Compare
+            </button>
+          )}
+        </div>
+
+        {progress && running && (
+          <div>
+            <div className="text-xs text-slate-500 mb-1">
+              {progress.done} / {progress.total} articles
+            </div>
+            <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-indigo-500 transition-all"
+                style={{ width: `${(progress.done / progress.total) * 100}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        {comparison && (
+          <>
+            {comparison.aborted && <p className="text-xs text-amber-600">Stopped early; results cover the articles labelled so far.</p>}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <VariantSummary result={comparison.a} wins={comparison.aWins} />
+              <VariantSummary result={comparison.b} wins={comparison.bWins} />
+            </div>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-slate-500 uppercase border-b border-slate-200">
+                  <th className="py-2 pr-4">Article</th>
+                  <th className="py-2 pr-4">Gold</th>
+                  <th className="py-2 pr-4">A</th>
+                  <th className="py-2">B</th>
+                </tr>
+              </thead>
+              <tbody>
+                {comparison.a.cases.map((a, i) => {
+                  const b = comparison.b.cases[i];
+                  const cell = (correct: boolean, label: string | null) => (
+                    <span className={correct ? 'text-emerald-600' : 'text-rose-600'}>{label || '—'}</span>
+                  );
+                  return (
+                    <tr
+                      key={a.caseId}
+                      className={`border-b border-slate-100 ${comparison.disagreements.includes(a.caseId) ? 'bg-amber-50' : ''}`}
+                    >
+                      <td className="py-2 pr-4 text-slate-700">{a.title}</td>
+                      <td className="py-2 pr-4 text-slate-500">{a.expected}</td>
+                      <td className="py-2 pr-4">{cell(a.correct, a.predicted)}</td>
+                      <td className="py-2">{cell(b.correct, b.predicted)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
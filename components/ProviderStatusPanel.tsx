@@ -0,0 +1,97 @@
+import React, { useEffect, useState } from 'react';
+import { Activity } from 'lucide-react';
+import { ProviderType } from '../types';
+import { providerHealth, ProviderStatus } from '../services/providerChain';
+
+interface ProviderStatusPanelProps {
+  /** Providers in the order the chain tries them */
+  chain: ProviderType[];
+}
+
+const STATUS_STYLES: Record<ProviderStatus, { dot: string; label: string }> = {
+  healthy: { dot: 'bg-emerald-500', label: 'Healthy' },
+  degraded: { dot: 'bg-amber-400', label: 'Degraded' },
+  down: { dot: 'bg-rose-500', label: 'Circuit open' },
+  unknown: { dot: 'bg-slate-300', label: 'No requests yet' },
+};
+
+// Re-render periodically so cooldown countdowns stay current
+const REFRESH_MS = 5000;
+
+export const ProviderStatusPanel: React.FC<ProviderStatusPanelProps> = ({ chain }) => {
+  const [, setTick] = useState(0);
+
+  useEffect(() => {
+    const rerender = () => setTick((t) => t + 1);
+    const unsubscribe = providerHealth.subscribe(rerender);
+    const timer = setInterval(rerender, REFRESH_MS);
+    return () => {
+      unsubscribe();
+      clearInterval(timer);
+    };
+  }, []);
+
+  const now = Date.now();
+  const health = chain.map((type) => providerHealth.getHealth(type, now));
+  const nameOf = (type: ProviderType) => health.find((h) => h.provider === type)?.name || type;
+  const requests = providerHealth.getRecentRequests().slice(0, 6);
+
+  return (
+    <div className="bg-slate-50 p-3 rounded-lg border border-slate-200 space-y-2">
+      <span className="text-xs font-bold text-slate-500 flex items-center gap-1">
+        <Activity size={12} /> Provider Health
+      </span>
+      {health.map((h, idx) => {
+        const style = STATUS_STYLES[h.status];
+        return (
+          <div key={h.provider} className="text-[10px]">
+            <div className="flex items-center justify-between">
+              <span className="flex items-center gap-1.5 font-medium text-slate-700">
+                <span className={`w-2 h-2 rounded-full ${style.dot}`} />
+                {idx + 1}. {h.name}
+              </span>
+              <span className="text-slate-400 font-mono">
+                {h.successRate !== null ? `${Math.round(h.successRate * 100)}%` : '—'}
+                {h.avgLatencyMs !== null && ` • ${(h.avgLatencyMs / 1000).toFixed(1)}s`}
+              </span>
+            </div>
+            <div className="pl-3.5 text-slate-400">
+              {style.label}
+              {h.retryAt && ` • retry in ${Math.max(0, Math.ceil((h.retryAt - now) / 1000))}s`}
+              {h.lastError && h.status !== 'healthy' && (
+                <span className="block truncate text-rose-400" title={h.lastError}>
+                  {h.lastError}
+                </span>
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      {requests.length > 0 && (
+        <div className="pt-2 border-t border-slate-200 space-y-0.5">
+          <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">
+            Recent requests
+          </span>
+          {requests.map((r, idx) => {
+            const cached = r.attempts.some((a) => a.outcome === 'cached');
+            const skipped = r.attempts.filter((a) => a.outcome !== 'served' && !cached).length;
+            return (
+              <div key={`${r.at}-${idx}`} className="flex justify-between text-[10px] font-mono">
+                <span className="text-slate-500">{r.operation}</span>
+                <span
+                  className={r.servedBy ? 'text-slate-600' : 'text-rose-500'}
+                  title={r.attempts.map((a) => `${nameOf(a.provider)}: ${a.outcome}`).join('\n')}
+                >
+                  {r.servedBy ? nameOf(r.servedBy) : 'failed'}
+                  {cached && ' (cached)'}
+                  {skipped > 0 && r.servedBy && ` (+${skipped} skipped)`}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
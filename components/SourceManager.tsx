@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { Source } from '../types';
-import { Plus, Trash2, Globe, CheckCircle, Radio, Search, Check, X, Loader2 } from 'lucide-react';
+import { Plus, Trash2, Globe, CheckCircle, Radio, Search, Check, X, Loader2, Rss } from 'lucide-react';
+import { feedUrlsFor } from '../services/rssFeedAdapter';
 
 interface SourceManagerProps {
   sources: Source[];
@@ -25,6 +26,7 @@ export const SourceManager: React.FC<SourceManagerProps> = ({
 }) => {
   const [newSourceName, setNewSourceName] = useState('');
   const [newSourceType, setNewSourceType] = useState<Source['type']>('news');
+  const [newFeedUrl, setNewFeedUrl] = useState('');
 
   const handleAdd = () => {
     if (!newSourceName.trim()) return;
@@ -35,8 +37,10 @@ export const SourceManager: React.FC<SourceManagerProps> = ({
       weight: 1.5, // Default weight
       active: true
     };
+    if (newFeedUrl.trim()) newSource.feedUrls = [newFeedUrl.trim()];
     onAddSource(newSource);
     setNewSourceName('');
+    setNewFeedUrl('');
   };
 
   return (
@@ -95,6 +99,11 @@ export const SourceManager: React.FC<SourceManagerProps> = ({
                 <span className={`w-1.5 h-1.5 rounded-full shrink-0 ${source.active ? 'bg-emerald-500' : 'bg-slate-300'}`}></span>
                 <span className="font-medium text-slate-700 truncate">{source.name}</span>
                 <span className="text-[10px] text-slate-400 uppercase border border-slate-200 px-1 rounded hidden sm:inline-block">{source.type}</span>
+                {feedUrlsFor(source).length > 0 && (
+                  <span title={feedUrlsFor(source).join('\n')} className="text-orange-400 shrink-0">
+                    <Rss size={12} />
+                  </span>
+                )}
               </div>
               <button 
                 onClick={() => onRemoveSource(source.id)}
@@ -128,6 +137,13 @@ export const SourceManager: React.FC<SourceManagerProps> = ({
             <option value="blog">Blog</option>
           </select>
         </div>
+        <input 
+          type="url" 
+          value={newFeedUrl}
+          onChange={(e) => setNewFeedUrl(e.target.value)}
+          placeholder="RSS/Atom feed URL (optional)" 
+          className="w-full text-sm border border-slate-300 rounded px-2 py-1.5 mb-2 focus:outline-none focus:border-indigo-500"
+        />
         <button 
           onClick={handleAdd}
           className="w-full bg-indigo-600 hover:bg-indigo-700 text-white text-xs font-bold py-2 rounded transition-colors flex items-center justify-center gap-2 uppercase tracking-wide"
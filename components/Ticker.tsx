@@ -1,14 +1,33 @@
 import React from 'react';
-import { NewsEvent } from '../types';
+import { NewsEvent, Politician } from '../types';
 import { Circle, TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import { eventMentions } from '../services/eventMentions';
 
 interface TickerProps {
   events: NewsEvent[];
+  politicians: Politician[];
 }
 
-export const Ticker: React.FC<TickerProps> = ({ events }) => {
+export const Ticker: React.FC<TickerProps> = ({ events, politicians }) => {
   const recentEvents = events.slice(0, 10); // Show last 10 events
 
+  // Multi-candidate stories list each politician with their own direction
+  const renderMentions = (event: NewsEvent) => {
+    const mentions = eventMentions(event)
+      .map(m => ({ ...m, name: politicians.find(p => p.id === m.politicianId)?.name }))
+      .filter(m => m.name);
+    if (mentions.length < 2) return null;
+
+    return mentions.map(m => (
+      <span key={m.politicianId} className={`ml-3 text-xs font-semibold ${
+        m.sentiment === 'positive' ? 'text-emerald-400' :
+        m.sentiment === 'negative' ? 'text-rose-400' : 'text-slate-400'
+      }`}>
+        {m.name} {m.sentiment === 'positive' ? '▲' : m.sentiment === 'negative' ? '▼' : '–'}
+      </span>
+    ));
+  };
+
   return (
     <div className="bg-slate-900 text-slate-300 h-10 flex items-center border-b border-slate-700 relative z-40">
       <div className="bg-indigo-700 h-full px-4 flex items-center font-bold text-white text-xs uppercase tracking-wider shadow-lg z-10 shrink-0">
@@ -28,6 +47,7 @@ export const Ticker: React.FC<TickerProps> = ({ events }) => {
               </span>
               <span className="font-bold text-slate-100 mr-2">[{event.sourceName}]</span>
               <span>{event.headline}</span>
+              {renderMentions(event)}
             </div>
           ))}
           {/* Duplicate for seamless loop effect */}
@@ -43,6 +63,7 @@ export const Ticker: React.FC<TickerProps> = ({ events }) => {
               </span>
               <span className="font-bold text-slate-100 mr-2">[{event.sourceName}]</span>
               <span>{event.headline}</span>
+              {renderMentions(event)}
             </div>
           ))}
         </div>
@@ -1,11 +1,20 @@
 import React from 'react';
 import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, Tooltip, CartesianGrid, Legend, Brush } from 'recharts';
-import { Politician } from '../types';
+import { Politician, HistoryItem } from '../types';
 import { ExternalLink } from 'lucide-react';
+import { database } from '../services/database';
+import { buildTrendSeries } from '../services/analyticsService';
+
+// Beyond this window the chart switches from daily to weekly rollups
+const DAILY_WINDOW_MAX_DAYS = 120;
 
 interface TrendChartProps {
   politicians: Politician[];
   historyWindowDays?: number;
+  /** Chart these series instead of stored history (e.g. a dataset being backtested) */
+  series?: Record<string, HistoryItem[]>;
+  /** Drawn as dashed lines alongside each politician's series */
+  comparison?: { label: string; histories: Record<string, HistoryItem[]> };
 }
 
 const CustomTooltip = ({ active, payload, label }: any) => {
@@ -50,11 +59,27 @@ const CustomTooltip = ({ active, payload, label }: any) => {
   return null;
 };
 
-export const TrendChart: React.FC<TrendChartProps> = ({ politicians, historyWindowDays = 180 }) => {
+export const TrendChart: React.FC<TrendChartProps> = ({ politicians, historyWindowDays = 180, series, comparison }) => {
+  // 0. Build each politician's series from stored rollups plus live in-memory points
+  const period = historyWindowDays > DAILY_WINDOW_MAX_DAYS ? 'week' : 'day';
+  const since = new Date();
+  since.setDate(since.getDate() - historyWindowDays);
+  const seriesById: Record<string, HistoryItem[]> = {};
+  politicians.forEach(p => {
+      if (series) {
+          seriesById[p.id] = series[p.id] || [];
+          return;
+      }
+      seriesById[p.id] = buildTrendSeries(p.history, database.getRollups(p.id, period, since), historyWindowDays, period);
+  });
+
   // 1. Collect all unique dates from all politicians
   const allDates = new Set<string>();
   politicians.forEach(p => {
-      p.history.forEach(h => {
+      seriesById[p.id].forEach(h => {
+          if (h.time) allDates.add(h.time);
+      });
+      comparison?.histories[p.id]?.forEach(h => {
           if (h.time) allDates.add(h.time);
       });
   });
@@ -68,7 +93,7 @@ export const TrendChart: React.FC<TrendChartProps> = ({ politicians, historyWind
       
       politicians.forEach(p => {
           // Find if this politician has an entry for this specific date
-          const entry = p.history.find(h => h.time === date);
+          const entry = seriesById[p.id].find(h => h.time === date);
           
           if (entry) {
               point[p.id] = entry.score;
@@ -77,6 +102,14 @@ export const TrendChart: React.FC<TrendChartProps> = ({ politicians, historyWind
           } else {
               // Optional: Interpolate or leave undefined for broken lines. 
           }
+
+          // Last comparison point of the day
+          const compared = comparison?.histories[p.id]?.filter(h => h.time === date).pop();
+          if (compared) {
+              point[`${p.id}_cmp`] = compared.score;
+              point[`${p.id}_cmp_reason`] = compared.reason;
+              point[`${p.id}_cmp_url`] = compared.sourceUrl;
+          }
       });
       return point;
   });
@@ -124,6 +157,20 @@ export const TrendChart: React.FC<TrendChartProps> = ({ politicians, historyWind
               animationDuration={1000}
             />
           ))}
+          {comparison && politicians.map((p) => (
+            <Line
+              key={`${p.id}_cmp`}
+              type="monotone"
+              dataKey={`${p.id}_cmp`}
+              name={`${p.name} (${comparison.label})`}
+              stroke={p.color}
+              strokeWidth={2}
+              strokeDasharray="5 4"
+              dot={false}
+              connectNulls={true}
+              isAnimationActive={false}
+            />
+          ))}
         </LineChart>
       </ResponsiveContainer>
     </div>
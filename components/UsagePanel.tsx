@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from 'react';
+import { AIBudget, AIFeature, AIUsageRecord } from '../types';
+import { database } from '../services/database';
+import { usageMeter, sumUsage, FEATURE_LABELS, UsageTotals } from '../services/usageMeter';
+import { responseCache } from '../services/responseCache';
+import { providerHealth } from '../services/providerChain';
+
+interface UsagePanelProps {
+  budget: AIBudget;
+}
+
+const WINDOWS = [
+  { days: 1, label: 'Today' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+];
+
+const sinceDate = (days: number): string =>
+  new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+const groupBy = (records: AIUsageRecord[], key: (r: AIUsageRecord) => string) => {
+  const groups = new Map<string, AIUsageRecord[]>();
+  records.forEach((r) => groups.set(key(r), [...(groups.get(key(r)) || []), r]));
+  return Array.from(groups.entries())
+    .map(([name, rows]) => ({ name, totals: sumUsage(rows) }))
+    .sort((a, b) => b.totals.requests - a.totals.requests);
+};
+
+const formatCost = (usd: number) => (usd > 0 && usd < 0.01 ? '<$0.01' : `$${usd.toFixed(2)}`);
+const formatTokens = (n: number) => (n >= 1000 ? `${(n / 1000).toFixed(1)}k` : String(n));
+
+const BudgetBar: React.FC<{ label: string; used: number; limit: number; format: (n: number) => string }> = ({
+  label,
+  used,
+  limit,
+  format,
+}) => {
+  const pct = limit > 0 ? Math.min(100, (used / limit) * 100) : 0;
+  return (
+    <div>
+      <div className="flex justify-between text-xs text-slate-500 mb-1">
+        <span>{label}</span>
+        <span className="font-mono">
+          {format(used)} / {limit > 0 ? format(limit) : 'unlimited'}
+        </span>
+      </div>
+      <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+        <div
+          className={`h-full ${pct >= 100 ? 'bg-rose-500' : pct >= 80 ? 'bg-amber-400' : 'bg-indigo-500'}`}
+          style={{ width: `${pct}%` }}
+        />
+      </div>
+    </div>
+  );
+};
+
+const UsageTable: React.FC<{ title: string; rows: { name: string; totals: UsageTotals }[] }> = ({ title, rows }) => (
+  <div>
+    <h4 className="font-bold text-slate-700 mb-2">{title}</h4>
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-xs text-slate-500 border-b border-slate-200">
+          <th className="text-left py-2">Name</th>
+          <th className="text-right py-2">Requests</th>
+          <th className="text-right py-2">Failed</th>
+          <th className="text-right py-2">Tokens in/out</th>
+          <th className="text-right py-2">Cost</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(({ name, totals }) => (
+          <tr key={name} className="border-b border-slate-100">
+            <td className="py-2 text-slate-700">{name}</td>
+            <td className="py-2 text-right font-mono">{totals.requests}</td>
+            <td className="py-2 text-right font-mono text-slate-400">{totals.failures}</td>
+            <td className="py-2 text-right font-mono text-slate-500">
+              {formatTokens(totals.inputTokens)} / {formatTokens(totals.outputTokens)}
+            </td>
+            <td className="py-2 text-right font-mono">{formatCost(totals.costUsd)}</td>
+          </tr>
+        ))}
+        {rows.length === 0 && (
+          <tr>
+            <td colSpan={5} className="py-4 text-center text-xs text-slate-400">
+              No AI requests in this window
+            </td>
+          </tr>
+        )}
+      </tbody>
+    </table>
+  </div>
+);
+
+export const UsagePanel: React.FC<UsagePanelProps> = ({ budget }) => {
+  const [days, setDays] = useState(1);
+  const [, setTick] = useState(0);
+
+  useEffect(() => {
+    const rerender = () => setTick((t) => t + 1);
+    const unsubscribeUsage = usageMeter.subscribe(rerender);
+    // Cache hits don't reach the meter, but are logged as requests
+    const unsubscribeHealth = providerHealth.subscribe(rerender);
+    return () => {
+      unsubscribeUsage();
+      unsubscribeHealth();
+    };
+  }, []);
+
+  const handleClearCache = async () => {
+    await responseCache.clear();
+    setTick((t) => t + 1);
+  };
+
+  const records = database.getAIUsage(sinceDate(days));
+  const totals = sumUsage(records);
+  const today = usageMeter.today();
+  const cache = responseCache.stats();
+  const lookups = cache.hits + cache.misses;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex gap-1">
+          {WINDOWS.map((w) => (
+            <button
+              key={w.days}
+              onClick={() => setDays(w.days)}
+              className={`text-xs px-3 py-1 rounded-full border ${days === w.days ? 'bg-indigo-100 border-indigo-300 text-indigo-700' : 'bg-white border-slate-200 text-slate-500 hover:bg-slate-50'}`}
+            >
+              {w.label}
+            </button>
+          ))}
+        </div>
+        <span className="text-xs text-slate-500">
+          {totals.requests} requests • {formatTokens(totals.inputTokens + totals.outputTokens)} tokens •{' '}
+          {formatCost(totals.costUsd)}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 bg-slate-50 rounded-lg p-4">
+        <BudgetBar label="Requests today" used={today.requests} limit={budget.dailyRequests} format={String} />
+        <BudgetBar label="Spend today" used={today.costUsd} limit={budget.dailyCostUsd} format={formatCost} />
+      </div>
+
+      <div className="flex items-center justify-between text-xs text-slate-500">
+        <span>
+          Response cache this session: <strong>{cache.hits}</strong> served locally of {lookups} lookups
+          {lookups > 0 && ` (${Math.round((cache.hits / lookups) * 100)}%)`}
+        </span>
+        <button onClick={handleClearCache} className="text-indigo-600 hover:underline">
+          Clear cache
+        </button>
+      </div>
+
+      <UsageTable title="By Provider" rows={groupBy(records, (r) => r.provider)} />
+      <UsageTable
+        title="By Feature"
+        rows={groupBy(records, (r) => FEATURE_LABELS[r.feature as AIFeature] || r.feature)}
+      />
+      <p className="text-[10px] text-slate-400">
+        Costs are estimates from list prices; token counts are estimated for providers that don't report them.
+      </p>
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import { Politician, Source } from './types';
+import { Politician, Source, PromptEvalCase } from './types';
 
 export const INITIAL_POLITICIANS: Politician[] = [
   { 
@@ -77,6 +77,56 @@ export const INITIAL_SOURCES: Source[] = [
   { id: 's6', name: "Kenyans.co.ke", type: "blog", weight: 1.5, active: true },
 ];
 
+// Known aspirants and the other names the press uses for them (nicknames, short forms,
+// Swahili and common misspellings). Keys are also the names aspirant discovery looks for.
+// Surnames are matched automatically, so list them only when they're the usual short form.
+export const ALIAS_REGISTRY: Record<string, string[]> = {
+  "William Ruto": ["Ruto", "William Samoei Ruto", "WSR", "Bill Ruto", "Hustler-in-Chief"],
+  "Rigathi Gachagua": ["Riggy G", "Riggy", "Gachagua", "Mr Gachagua", "Rigathi"],
+  "Raila Odinga": ["Baba", "Raila", "Agwambo", "Jakom", "Tinga", "Raila Amolo Odinga"],
+  "Kalonzo Musyoka": ["Kalonzo", "Stephen Kalonzo", "Steve Kalonzo"],
+  "Fred Matiang'i": ["Matiang'i", "Matiangi", "Fred Matiangi", "Fred Okengo Matiang'i", "Fred Matiang’i"],
+  "Justin Muturi": ["Muturi"],
+  "George Wajackoyah": ["Wajackoyah", "Wajakoyah", "Prof Wajackoyah", "Professor Wajackoyah", "Wajakoya"],
+  "Martha Karua": ["Karua"],
+  "James Orengo": ["Orengo"],
+  "Moses Wetang'ula": ["Wetang'ula", "Wetangula", "Moses Wetangula"],
+  "Wycliffe Oparanya": ["Wycliffe Ambetsa Oparanya"],
+  "Gideon Moi": [],
+  "Ekuru Aukot": ["Aukot", "Dr Aukot"],
+  "Reuben Kigame": ["Kigame"],
+  "Mwai Kibaki": [],
+  "Joe Kaguta": [],
+  "Moses Kuria": [],
+  "Alees Nzeng": [],
+  "Johnny Muthama": ["Muthama"],
+  "Othaya Njiriri": [],
+  "Njeru Kagia": [],
+  "Josphat Nanok": ["Nanok"],
+  "Jacob Juma": [],
+  "Martin Wambora": ["Wambora"],
+  "Francis Oparanya": [],
+  "Sophonias Mogeni": [],
+  "Hassan Joho": ["Joho"],
+  "Ajabu Achari": [],
+  "Thuo Mathonde": [],
+  "Mburu Manyasa": [],
+  "Mbugua Mureithi": [],
+  "Mwangi Thuita": [],
+};
+
+// Public RSS/Atom feeds for the built-in outlets, keyed by source name
+export const KENYAN_OUTLET_FEEDS: Record<string, string[]> = {
+  "Daily Nation": ["https://nation.africa/kenya/rss.xml"],
+  "The Standard": [
+    "https://www.standardmedia.co.ke/rss/headlines.php",
+    "https://www.standardmedia.co.ke/rss/politics.php"
+  ],
+  "Citizen Digital": ["https://www.citizen.digital/rss"],
+  "The Star": ["https://www.the-star.co.ke/rss"],
+  "Kenyans.co.ke": ["https://www.kenyans.co.ke/feeds/news"],
+};
+
 export const MOCK_HEADLINES = {
   positive: [
     "launches new youth employment initiative in Nairobi",
@@ -100,4 +150,59 @@ export const MOCK_HEADLINES = {
     "featured in prime time debate on Citizen TV",
     "clarifies stance on agricultural exports and subsidies"
   ]
-};
\ No newline at end of file
+};
+
+// Hand-labelled articles for comparing article-analysis prompt versions. The label is the
+// effect on the named politician, which is often not the tone of the story.
+const goldCase = (
+  id: string,
+  politicianId: string,
+  sentiment: PromptEvalCase['sentiment'],
+  source: string,
+  title: string,
+  snippet: string
+): PromptEvalCase => ({
+  id,
+  politicianId,
+  sentiment,
+  item: { title, snippet, source, url: `https://fixtures.polimetric.local/${id}` },
+});
+
+export const PROMPT_EVAL_GOLD_SET: PromptEvalCase[] = [
+  goldCase('g01', '1', 'positive', 'Daily Nation',
+    'Ruto commissions 5,000 affordable housing units in Mukuru',
+    'Residents welcomed the handover, and the President said more estates would follow in every county by 2026.'),
+  goldCase('g02', '1', 'negative', 'The Standard',
+    'MPs question Hustler Fund defaults as repayment rate drops',
+    'A parliamentary committee said nearly half of the borrowers have not repaid, blaming weak vetting at the Treasury.'),
+  goldCase('g03', '2', 'positive', 'Citizen Digital',
+    'Kalonzo endorsed by Ukambani leaders as opposition flagbearer',
+    'Governors and MPs from Machakos, Makueni and Kitui said Kalonzo Musyoka was the only candidate who could unite the opposition.'),
+  goldCase('g04', '2', 'neutral', 'The Star',
+    'Ruto under fire over fuel prices',
+    'Motorists protested in Nairobi as pump prices rose again. Opposition figures including Kalonzo Musyoka were expected to meet later in the week.'),
+  goldCase('g05', '1', 'positive', 'Kenyans.co.ke',
+    'Court dismisses petition challenging housing levy',
+    'The High Court threw out the case, clearing the way for the government to continue collecting the levy.'),
+  goldCase('g06', '2', 'negative', 'Daily Nation',
+    'Wiper MPs defect as Kalonzo coalition talks stall',
+    'Three Wiper legislators announced they would back a rival coalition, citing frustration with the party leadership.'),
+  goldCase('g07', '3', 'neutral', 'The Star',
+    'Wajackoyah to address Roots Party delegates on Saturday',
+    'The party said its leader would outline the manifesto timetable at the meeting in Nairobi.'),
+  goldCase('g08', '1', 'negative', 'The Standard',
+    'Gen Z protesters chant "Ruto must go" in CBD',
+    'Thousands marched against the Finance Bill; "Hatutaki ushuru zaidi," read one placard as police dispersed the crowd.'),
+  goldCase('g09', '2', 'positive', 'Citizen Digital',
+    'Rival bid collapses as Kalonzo opponent withdraws from opposition race',
+    'The withdrawal leaves Kalonzo Musyoka as the front-runner for the united opposition ticket.'),
+  goldCase('g10', '4', 'positive', 'Kenyans.co.ke',
+    'Kigame draws crowds with gospel rally in Kakamega',
+    '"Huyu jamaa ni msafi, tutampigia kura," a supporter said as Reuben Kigame called for clean leadership.'),
+  goldCase('g11', '1', 'neutral', 'Daily Nation',
+    'State House releases President\'s schedule for the week',
+    'William Ruto will travel to Addis Ababa for an AU summit before returning for a cabinet meeting on Thursday.'),
+  goldCase('g12', '5', 'negative', 'The Star',
+    'Aukot\'s Thirdway Alliance fails to raise nomination fee',
+    'The party missed the deadline after a fundraising drive fell short, leaving Ekuru Aukot\'s bid in doubt.'),
+];
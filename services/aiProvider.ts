@@ -1,7 +1,13 @@
-import { Politician, Source, NewsEvent, HistoryItem, AIProviderConfig, ProviderType } from '../types';
+import { Politician, Source, NewsEvent, HistoryItem, AIProviderConfig, ProviderType, RawNewsItem, ArticleAnalysis, AIFeature, GeminiTask } from '../types';
 import { GeminiProvider } from './providers/geminiProvider';
 import { OllamaProvider } from './providers/ollamaProvider';
 import { FreeApiProvider } from './providers/freeApiProvider';
+import { OpenAICompatibleProvider } from './providers/openAICompatibleProvider';
+import { LocalSentimentProvider } from './providers/localSentimentProvider';
+import { FallbackProvider, providerHealth } from './providerChain';
+import { DEFAULT_GEMINI_MODELS } from './configDefaults';
+import { TokenUsage } from './usageMeter';
+import { logger } from './logger';
 
 /**
  * Unified AI Provider Interface
@@ -9,13 +15,29 @@ import { FreeApiProvider } from './providers/freeApiProvider';
  */
 export interface AIProvider {
     readonly name: string;
+    /** Model id, part of the response cache key */
+    readonly model?: string;
     readonly isConfigured: boolean;
 
     fetchEvent(politician: Politician, sources: Source[]): Promise<Partial<NewsEvent> | null>;
+    /** Classify a fetched article's sentiment, impact, stance and topic for one politician */
+    analyzeArticle(politician: Politician, item: RawNewsItem): Promise<ArticleAnalysis | null>;
     fetchHistory(politician: Politician, days: number): Promise<HistoryItem[] | null>;
     fetchImage(name: string): Promise<string | null>;
     fetchSuggestedSources(existingSources: Source[]): Promise<Partial<Source>[] | null>;
     chat(prompt: string): Promise<string | null>;
+    /** `chat`, reporting the reply as it is generated; aborting the signal cancels the request */
+    chatStream?(prompt: string, options: ChatStreamOptions): Promise<string | null>;
+    /** Tokens used since the last call (and reset), for metering */
+    takeUsage?(): TokenUsage;
+    /** False for operations (method names) it can't perform; the chain skips it without counting a failure */
+    supports?(operation: string): boolean;
+}
+
+export interface ChatStreamOptions {
+    /** Called with the whole reply so far each time more arrives */
+    onText: (text: string) => void;
+    signal?: AbortSignal;
 }
 
 // --- Retry Logic (shared across all providers) ---
@@ -39,12 +61,12 @@ export async function withRetry<T>(
         const isServerOverload = status === 503;
 
         if ((isRateLimit || isServerOverload) && retries > 0) {
-            console.warn(`[AI Provider] Rate limit/error (${status}). Retrying in ${baseDelay}ms...`);
+            logger.warn(`[AI Provider] Rate limit/error (${status}). Retrying in ${baseDelay}ms...`);
             await wait(baseDelay);
             return withRetry(operation, retries - 1, baseDelay * 2);
         }
 
-        console.error('[AI Provider] Request failed:', error);
+        logger.error('[AI Provider] Request failed:', error);
         return null;
     }
 }
@@ -55,53 +77,103 @@ export const parseJSON = (text: string) => {
         const cleaned = text.replace(/```json/g, '').replace(/```/g, '').trim();
         return JSON.parse(cleaned);
     } catch (e) {
-        console.error('Failed to parse JSON:', text);
+        logger.error('Failed to parse JSON:', text);
         return null;
     }
 };
 
+// --- Streaming (shared) ---
+export const isAbortError = (error: any): boolean => error?.name === 'AbortError';
+
+/** A streamed response body, one line at a time as it arrives (NDJSON and SSE are both line-based). */
+export async function* readLines(response: Response): AsyncGenerator<string> {
+    if (!response.body) return;
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split('\n');
+            buffer = lines.pop() || '';
+            for (const line of lines) yield line.replace(/\r$/, '');
+        }
+        buffer += decoder.decode();
+        if (buffer) yield buffer;
+    } finally {
+        reader.releaseLock();
+    }
+}
+
 // --- Provider Factory ---
-let cachedProvider: AIProvider | null = null;
+let cachedProvider: FallbackProvider | null = null;
 let cachedConfigHash: string = '';
 
 function configHash(config: AIProviderConfig): string {
-    return `${config.provider}|${config.ollamaUrl}|${config.ollamaModel}|${config.huggingfaceApiKey}|${config.openrouterApiKey}|${config.geminiApiKey}`;
+    return [
+        providerChain(config).join('>'),
+        config.ollamaUrl,
+        config.ollamaModel,
+        config.huggingfaceApiKey,
+        config.openrouterApiKey,
+        config.geminiApiKey,
+        JSON.stringify(config.geminiModels || {}),
+        config.openaiBaseUrl,
+        config.openaiModel,
+        config.openaiApiKey,
+        JSON.stringify(config.openaiHeaders || {}),
+        config.openaiJsonMode,
+    ].join('|');
 }
 
-export function getProvider(config: AIProviderConfig): AIProvider {
-    const hash = configHash(config);
-    if (cachedProvider && cachedConfigHash === hash) {
-        return cachedProvider;
-    }
-
-    switch (config.provider) {
-        case 'gemini':
-            cachedProvider = new GeminiProvider(config.geminiApiKey);
-            break;
+function createProvider(type: ProviderType, config: AIProviderConfig): AIProvider {
+    switch (type) {
         case 'ollama':
-            cachedProvider = new OllamaProvider(config.ollamaUrl, config.ollamaModel);
-            break;
+            return new OllamaProvider(config.ollamaUrl, config.ollamaModel);
         case 'huggingface':
-            cachedProvider = new FreeApiProvider('huggingface', config.huggingfaceApiKey);
-            break;
+            return new FreeApiProvider('huggingface', config.huggingfaceApiKey);
         case 'openrouter':
-            cachedProvider = new FreeApiProvider('openrouter', config.openrouterApiKey);
-            break;
+            return new FreeApiProvider('openrouter', config.openrouterApiKey);
+        case 'openai-compatible':
+            return new OpenAICompatibleProvider({
+                baseUrl: config.openaiBaseUrl,
+                model: config.openaiModel,
+                apiKey: config.openaiApiKey,
+                headers: config.openaiHeaders,
+                jsonMode: config.openaiJsonMode,
+            });
+        case 'local':
+            return new LocalSentimentProvider();
+        case 'gemini':
         default:
-            cachedProvider = new GeminiProvider(config.geminiApiKey);
+            return new GeminiProvider(config.geminiApiKey, { ...DEFAULT_GEMINI_MODELS, ...(config.geminiModels || {}) });
     }
+}
 
-    cachedConfigHash = hash;
-    return cachedProvider;
+/** The primary provider followed by its fallbacks, without repeats. */
+export function providerChain(config: AIProviderConfig): ProviderType[] {
+    return Array.from(new Set([config.provider, ...(config.fallbackProviders || [])]));
 }
 
-export function getDefaultAIProviderConfig(): AIProviderConfig {
-    return {
-        provider: 'gemini',
-        ollamaUrl: 'http://localhost:11434',
-        ollamaModel: 'llama3',
-        huggingfaceApiKey: '',
-        openrouterApiKey: '',
-        geminiApiKey: (typeof process !== 'undefined' && process.env?.API_KEY) || '',
-    };
+/**
+ * The provider for a config: the primary backend wrapped in a FallbackProvider that moves
+ * on to `fallbackProviders`, in order, when it fails or its circuit is open. Usage is
+ * metered under `feature`.
+ */
+export function getProvider(config: AIProviderConfig, feature: AIFeature = 'general'): AIProvider {
+    const hash = configHash(config);
+    if (cachedProvider && cachedConfigHash === hash) {
+        return cachedProvider.forFeature(feature);
+    }
+
+    // New keys or URLs may fix whatever was failing
+    if (cachedProvider) providerHealth.reset();
+
+    cachedProvider = new FallbackProvider(
+        providerChain(config).map(type => ({ type, provider: createProvider(type, config) }))
+    );
+    cachedConfigHash = hash;
+    return cachedProvider.forFeature(feature);
 }
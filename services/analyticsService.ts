@@ -1,4 +1,8 @@
-import { Politician, NewsEvent, Source, HistoryItem, SentimentType, AdvancedMetrics, SentimentBreakdown } from '../types';
+import { Politician, NewsEvent, Source, HistoryItem, SentimentType, AdvancedMetrics, SentimentBreakdown, RollupPeriod, ScoreRollup } from '../types';
+import { runMigrations, CURRENT_SCHEMA_VERSION } from './migrations';
+import { bucketFor, ScoreCollections } from './historyRollups';
+import { mentionFor, mentionsPolitician } from './eventMentions';
+import { logger } from './logger';
 
 const DAYS_TO_KEEP = 60;
 
@@ -57,7 +61,7 @@ export const calculateMediaFrequency = (feed: NewsEvent[], politicianId: string)
 
   return feed.filter((event) => {
     const eventDate = new Date(event.timestamp);
-    return event.politicianId === politicianId && eventDate >= sixtyDaysAgo;
+    return mentionsPolitician(event, politicianId) && eventDate >= sixtyDaysAgo;
   }).length;
 };
 
@@ -91,8 +95,7 @@ export const calculateInfluenceScore = (
 };
 
 export const calculateAudienceReach = (feed: NewsEvent[], politicianId: string): number => {
-  const politicianEvents = feed.filter((e) => e.politicianId === politicianId);
-  return politicianEvents.reduce((sum, e) => sum + e.impact * 1000, 0);
+  return feed.reduce((sum, e) => sum + (mentionFor(e, politicianId)?.impact ?? 0) * 1000, 0);
 };
 
 export const calculateTrendStrength = (history: HistoryItem[]): number => {
@@ -299,7 +302,7 @@ export const calculateControversyPenalty = (history: HistoryItem[]): number => {
 export const calculateRegionalDiversity = (politician: Politician, feed: NewsEvent[]): number => {
   // In a real app, we'd analyze geolocation of news. 
   // Here we'll use a heuristic based on unique source count + base region score.
-  const uniqueSources = new Set(feed.filter(e => e.politicianId === politician.id).map(e => e.sourceName)).size;
+  const uniqueSources = new Set(feed.filter(e => mentionsPolitician(e, politician.id)).map(e => e.sourceName)).size;
   let score = uniqueSources * 10;
   if (politician.region) score += 30; // Base presence
   return Math.min(100, score);
@@ -317,6 +320,73 @@ export const calculateOverallScore = (metrics: AdvancedMetrics, currentPopularit
   ));
 };
 
+// --- Long-range History (rollups) ---
+
+export interface RollupWindowSummary {
+  open: number;
+  close: number;
+  high: number;
+  low: number;
+  change: number;
+  eventCount: number;
+  sentiment: SentimentBreakdown;
+}
+
+export const summarizeRollups = (rollups: ScoreRollup[]): RollupWindowSummary | null => {
+  if (rollups.length === 0) return null;
+  const sorted = [...rollups].sort((a, b) => a.bucket.localeCompare(b.bucket));
+  const open = sorted[0].open;
+  const close = sorted[sorted.length - 1].close;
+
+  return {
+    open,
+    close,
+    high: Math.max(...sorted.map((r) => r.high)),
+    low: Math.min(...sorted.map((r) => r.low)),
+    change: parseFloat((close - open).toFixed(2)),
+    eventCount: sorted.reduce((sum, r) => sum + r.eventCount, 0),
+    sentiment: sorted.reduce(
+      (acc, r) => ({
+        positive: acc.positive + r.sentiment.positive,
+        negative: acc.negative + r.sentiment.negative,
+        neutral: acc.neutral + r.sentiment.neutral,
+      }),
+      { positive: 0, negative: 0, neutral: 0 }
+    ),
+  };
+};
+
+/**
+ * One point per day/week over the last `days` days: rollup closes from storage, overlaid
+ * with the politician's in-memory history, which can be ahead of the persisted rollups.
+ */
+export const buildTrendSeries = (
+  history: HistoryItem[],
+  rollups: ScoreRollup[],
+  days: number,
+  period: RollupPeriod
+): HistoryItem[] => {
+  const cutoff = new Date();
+  cutoff.setDate(cutoff.getDate() - days);
+  const cutoffBucket = bucketFor(cutoff.getTime(), period);
+
+  const byBucket = new Map<string, HistoryItem>();
+  for (const r of rollups) {
+    if (r.period !== period) continue;
+    byBucket.set(r.bucket, { time: r.bucket, score: r.close });
+  }
+  for (const item of history) {
+    const timeMs = Date.parse(item.time);
+    if (!item.time || isNaN(timeMs)) continue;
+    const bucket = bucketFor(timeMs, period);
+    byBucket.set(bucket, { ...item, time: bucket });
+  }
+
+  return [...byBucket.values()]
+    .filter((item) => item.time >= cutoffBucket)
+    .sort((a, b) => a.time.localeCompare(b.time));
+};
+
 export const calculateAnalyticsSummary = (
   feed: NewsEvent[],
   politicians: Politician[],
@@ -372,36 +442,43 @@ export const calculateAnalyticsSummary = (
   };
 };
 
-export const exportData = (
-  politicians: Politician[],
-  feed: NewsEvent[],
-  sources: Source[]
-): string => {
+/** An export's contents: the tracked entities plus their stored score history. */
+export interface ExportedData extends ScoreCollections {
+  politicians: Politician[];
+  feed: NewsEvent[];
+  sources: Source[];
+}
+
+export const exportData = ({ politicians, feed, sources, scoreHistory, scoreRollups }: ExportedData): string => {
   const data = {
     exportDate: new Date().toISOString(),
     version: '1.0',
+    schemaVersion: CURRENT_SCHEMA_VERSION,
     politicians,
     feed,
     sources,
+    scoreHistory,
+    scoreRollups,
   };
   return JSON.stringify(data, null, 2);
 };
 
-export const importData = (
-  jsonString: string
-): { politicians: Politician[]; feed: NewsEvent[]; sources: Source[] } | null => {
+export const importData = (jsonString: string): ExportedData | null => {
   try {
-    const data = JSON.parse(jsonString);
-    if (!data.politicians || !data.feed || !data.sources) {
+    const parsed = JSON.parse(jsonString);
+    if (!parsed.politicians || !parsed.feed || !parsed.sources) {
       throw new Error('Invalid data format');
     }
+    const { data } = runMigrations(parsed);
     return {
       politicians: data.politicians,
       feed: data.feed,
       sources: data.sources,
+      scoreHistory: data.scoreHistory,
+      scoreRollups: data.scoreRollups,
     };
   } catch (e) {
-    console.error('Import failed:', e);
+    logger.error('Import failed:', e);
     return null;
   }
 };
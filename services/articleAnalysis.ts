@@ -0,0 +1,89 @@
+import { Politician, RawNewsItem, ArticleAnalysis, ArticleStance, ArticleTopic, SentimentType } from '../types';
+import { renderPrompt, politicianVars, PromptVars } from './promptTemplates';
+
+/**
+ * Article Analysis
+ * The JSON schema, prompt variables and result coercion shared by every provider's `analyzeArticle`,
+ * so Gemini, Ollama and OpenAI-compatible backends classify articles the same way. Providers
+ * validate replies with `ARTICLE_ANALYSIS_OUTPUT` (structuredOutput.ts), built on this schema.
+ */
+
+export const SENTIMENTS: SentimentType[] = ['positive', 'negative', 'neutral'];
+export const STANCES: ArticleStance[] = ['supportive', 'critical', 'neutral', 'mixed'];
+export const TOPICS: ArticleTopic[] = [
+  'campaign',
+  'coalition',
+  'policy',
+  'economy',
+  'governance',
+  'scandal',
+  'legal',
+  'security',
+  'polling',
+  'personal',
+  'other',
+];
+
+export const MIN_IMPACT = 0.1;
+export const MAX_IMPACT = 3.0;
+
+/** Plain JSON Schema: passed as Gemini `responseJsonSchema`, Ollama `format` and OpenAI `json_schema`. */
+export const ARTICLE_ANALYSIS_SCHEMA = {
+  type: 'object',
+  properties: {
+    sentiment: {
+      type: 'string',
+      enum: SENTIMENTS,
+      description: 'How the article reflects on the politician, not the general tone of the news.',
+    },
+    impact: {
+      type: 'number',
+      minimum: MIN_IMPACT,
+      maximum: MAX_IMPACT,
+      description: 'Likely effect on the politician’s standing, 0.1 (trivial) to 3.0 (major).',
+    },
+    stance: {
+      type: 'string',
+      enum: STANCES,
+      description: 'The author’s position towards the politician.',
+    },
+    topic: { type: 'string', enum: TOPICS },
+    rationale: { type: 'string', description: 'One sentence explaining the classification.' },
+  },
+  required: ['sentiment', 'impact', 'stance', 'topic'],
+} as const;
+
+/** Template variables for the `article-analysis` prompt. */
+export const articleAnalysisVars = (politician: Pick<Politician, 'name' | 'party' | 'role'>, item: RawNewsItem): PromptVars => ({
+  ...politicianVars(politician),
+  outlet: item.source,
+  title: item.title,
+  text: item.snippet || '(no summary)',
+  sentiments: `"${SENTIMENTS.join('" or "')}"`,
+  minImpact: MIN_IMPACT,
+  maxImpact: MAX_IMPACT,
+  stances: `"${STANCES.join('" or "')}"`,
+  topics: `"${TOPICS.join('" or "')}"`,
+});
+
+export const buildArticleAnalysisPrompt = (politician: Politician, item: RawNewsItem): string =>
+  renderPrompt('article-analysis', articleAnalysisVars(politician, item));
+
+const pick = <T extends string>(value: unknown, allowed: readonly T[], fallback: T): T => {
+  const v = String(value ?? '').toLowerCase().trim() as T;
+  return allowed.includes(v) ? v : fallback;
+};
+
+/** Clamp and default a provider's parsed response; null if it isn't an object at all. */
+export const coerceArticleAnalysis = (data: any): ArticleAnalysis | null => {
+  if (!data || typeof data !== 'object') return null;
+
+  const impact = typeof data.impact === 'number' ? data.impact : parseFloat(data.impact);
+  return {
+    sentiment: pick(data.sentiment, SENTIMENTS, 'neutral'),
+    impact: Number.isFinite(impact) ? Math.min(MAX_IMPACT, Math.max(MIN_IMPACT, Math.abs(impact))) : 0.5,
+    stance: pick(data.stance, STANCES, 'neutral'),
+    topic: pick(data.topic, TOPICS, 'other'),
+    rationale: typeof data.rationale === 'string' ? data.rationale : undefined,
+  };
+};
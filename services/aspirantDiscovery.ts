@@ -1,5 +1,8 @@
 import { Politician } from '../types';
+import { ALIAS_REGISTRY } from '../constants';
 import { database, AspirantDiscovery } from './database';
+import { EntityResolver } from './entityResolver';
+import { logger } from './logger';
 
 export interface DiscoveredAspirant {
   name: string;
@@ -40,6 +43,18 @@ const fetchWithRetry = async (url: string, retries = 3): Promise<any | null> =>
   }
 };
 
+let aspirantResolver: EntityResolver | null = null;
+
+/** Resolver over every aspirant in ALIAS_REGISTRY; ids are the canonical names. */
+const getAspirantResolver = (): EntityResolver => {
+  if (!aspirantResolver) {
+    aspirantResolver = new EntityResolver(
+      Object.keys(ALIAS_REGISTRY).map((name) => ({ id: name, name }))
+    );
+  }
+  return aspirantResolver;
+};
+
 export const discoverAspirants = async (): Promise<DiscoveredAspirant[]> => {
   const discovered: DiscoveredAspirant[] = [];
 
@@ -59,9 +74,8 @@ export const discoverAspirants = async (): Promise<DiscoveredAspirant[]> => {
 
       if (results && results.results) {
         for (const result of results.results) {
-          const title = result.title?.toLowerCase() || '';
-          const snippet = result.snippet?.toLowerCase() || '';
-          const text = `${title} ${snippet}`;
+          const originalText = `${result.title || ''} ${result.snippet || ''}`;
+          const text = originalText.toLowerCase();
 
           if (
             text.includes('president') ||
@@ -71,38 +85,29 @@ export const discoverAspirants = async (): Promise<DiscoveredAspirant[]> => {
             text.includes('vying') ||
             text.includes('run for')
           ) {
-            const namePatterns = [
-              /(?:William Ruto|Rigathi Gachagua|Kalonzo Musyoka|Fred Matiang'i|Justi(?:n|ce) Muturi|George Wajackoyah|James Orengo|Moses Wetang'ula|Wycliffe Oparanya|Gideon Moi|Ekuru Aukot|Reuben Kigame|Mwai Kibaki|Joe Kaguta|Moses Kuria|Alees Nzeng|Johnny Muthama|Othaya Njiriri|Njeru Kagia|Josphat Nanok|Jacob Juma|Martin Wambora|Francis Oparanya|Sophonias Mogeni|Hassan Joho|Ajabu Achari|Thuo Mathonde|Mburu Manyasa|Mbugua Mureithi|Mwangi Thuita)/gi,
-            ];
-
-            for (const pattern of namePatterns) {
-              const matches = text.match(pattern);
-              if (matches) {
-                for (const name of matches) {
-                  const cleanName = name.trim();
-                  if (cleanName.length > 3 && !discovered.find((d) => d.name === cleanName)) {
-                    let status: AspirantDiscovery['status'] = 'announcement';
-                    if (
-                      text.includes('withdraw') ||
-                      text.includes('step down') ||
-                      text.includes('drops out') ||
-                      text.includes('retire')
-                    ) {
-                      status = 'stepped_down';
-                    } else if (text.includes('confirmed') || text.includes('official')) {
-                      status = 'confirmed';
-                    }
-
-                    discovered.push({
-                      name: cleanName,
-                      party: inferParty(text),
-                      role: 'Presidential Aspirant',
-                      status,
-                      sourceUrl: result.url,
-                      sourceName: extractSourceName(result.url || ''),
-                    });
-                  }
+            for (const mention of getAspirantResolver().resolve(originalText)) {
+              const cleanName = mention.name;
+              if (!discovered.find((d) => d.name === cleanName)) {
+                let status: AspirantDiscovery['status'] = 'announcement';
+                if (
+                  text.includes('withdraw') ||
+                  text.includes('step down') ||
+                  text.includes('drops out') ||
+                  text.includes('retire')
+                ) {
+                  status = 'stepped_down';
+                } else if (text.includes('confirmed') || text.includes('official')) {
+                  status = 'confirmed';
                 }
+
+                discovered.push({
+                  name: cleanName,
+                  party: inferParty(text),
+                  role: 'Presidential Aspirant',
+                  status,
+                  sourceUrl: result.url,
+                  sourceName: extractSourceName(result.url || ''),
+                });
               }
             }
           }
@@ -112,7 +117,7 @@ export const discoverAspirants = async (): Promise<DiscoveredAspirant[]> => {
       await new Promise((r) => setTimeout(r, 500));
     }
   } catch (error) {
-    console.error('Aspirant discovery error:', error);
+    logger.error('Aspirant discovery error:', error);
   }
 
   return discovered;
@@ -169,7 +174,7 @@ export const syncAspirants = async (
   onRemove: (id: string) => void
 ): Promise<void> => {
   const discovered = await discoverAspirants();
-  const existingNames = existingPoliticians.map((p) => p.name.toLowerCase());
+  const resolver = new EntityResolver(existingPoliticians);
   const discovery = database.getAspirantDiscovery();
 
   const now = new Date().toISOString();
@@ -191,13 +196,11 @@ export const syncAspirants = async (
         sourceName: aspirant.sourceName,
       });
 
-      const existingPol = existingPoliticians.find(
-        (p) => p.name.toLowerCase() === aspirant.name.toLowerCase()
-      );
+      const existingPol = resolver.resolveName(aspirant.name);
       if (existingPol) {
         onRemove(existingPol.id);
       }
-    } else if (!existingNames.includes(aspirant.name.toLowerCase())) {
+    } else if (!resolver.resolveName(aspirant.name)) {
       database.addAspirantDiscovery({
         name: aspirant.name,
         party: aspirant.party,
@@ -219,6 +222,7 @@ export const syncAspirants = async (
         color: getRandomColor(),
         image: `https://ui-avatars.com/api/?name=${encodeURIComponent(aspirant.name)}&background=random&size=200`,
         bio: aspirant.bio,
+        aliases: ALIAS_REGISTRY[aspirant.name],
         history: Array(15).fill({ time: '', score: 100 }),
       };
 
@@ -241,6 +245,7 @@ export const checkForSteppedDownAspirants = async (
     'presidential aspirant steps down Kenya',
     'candidate drops out Kenya 2027 race',
   ];
+  const resolver = new EntityResolver(existingPoliticians);
 
   try {
     for (const term of searchTerms) {
@@ -251,7 +256,8 @@ export const checkForSteppedDownAspirants = async (
 
       if (results && results.results) {
         for (const result of results.results) {
-          const snippet = result.snippet?.toLowerCase() || '';
+          const originalSnippet = result.snippet || '';
+          const snippet = originalSnippet.toLowerCase();
 
           if (
             snippet.includes('withdraw') ||
@@ -259,11 +265,9 @@ export const checkForSteppedDownAspirants = async (
             snippet.includes('drops out') ||
             snippet.includes('quit')
           ) {
-            for (const pol of existingPoliticians) {
-              if (snippet.includes(pol.name.toLowerCase())) {
-                database.updateAspirantStatus(pol.name, 'stepped_down');
-                onRemove(pol.id);
-              }
+            for (const mention of resolver.resolve(originalSnippet)) {
+              database.updateAspirantStatus(mention.name, 'stepped_down');
+              onRemove(mention.id);
             }
           }
         }
@@ -272,6 +276,6 @@ export const checkForSteppedDownAspirants = async (
       await new Promise((r) => setTimeout(r, 300));
     }
   } catch (error) {
-    console.error('Check stepped down error:', error);
+    logger.error('Check stepped down error:', error);
   }
 };
@@ -1,6 +1,7 @@
 import { Source, DiscoveredSource, AIProviderConfig } from '../types';
 import { database } from './database';
 import { getProvider } from './aiProvider';
+import { logger } from './logger';
 
 /**
  * Auto-Discovery Service
@@ -50,7 +51,7 @@ const fetchSearchResults = async (query: string): Promise<SearchResult[]> => {
         const data = await res.json();
         return data.results || [];
     } catch (e) {
-        console.error('[AutoDiscovery] Search failed:', e);
+        logger.error('[AutoDiscovery] Search failed:', e);
         return [];
     }
 };
@@ -67,7 +68,9 @@ export const runSourceDiscovery = async (
     currentSources: Source[],
     config: AIProviderConfig
 ): Promise<Source[]> => {
-    const lastRun = localStorage.getItem('last_source_discovery');
+    // Outside the browser (the CLI) every run is an explicit request, so there's no rate limit
+    const hasLocalStorage = typeof localStorage !== 'undefined';
+    const lastRun = hasLocalStorage ? localStorage.getItem('last_source_discovery') : null;
     const now = Date.now();
 
     // Rate limit: only run every 6 hours
@@ -75,8 +78,8 @@ export const runSourceDiscovery = async (
         return [];
     }
 
-    console.log('[AutoDiscovery] Starting source discovery scan...');
-    localStorage.setItem('last_source_discovery', now.toString());
+    logger.info('[AutoDiscovery] Starting source discovery scan...');
+    if (hasLocalStorage) localStorage.setItem('last_source_discovery', now.toString());
 
     const queries = [
         'Kenya 2027 election news',
@@ -141,7 +144,7 @@ export const runSourceDiscovery = async (
             };
 
             // Use AI to classify if possible
-            const provider = getProvider(config);
+            const provider = getProvider(config, 'source-discovery');
             if (provider.isConfigured) {
                 try {
                     const prompt = `Analyze this website based on the snippet:
@@ -162,7 +165,7 @@ Return JSON with:
                     entry.weight = 1.0;
                     entry.name = domain;
                 } catch (e) {
-                    console.warn('Failed to classify source', e);
+                    logger.warn('Failed to classify source', e);
                 }
             }
 
@@ -181,6 +184,6 @@ Return JSON with:
         }
     }
 
-    console.log(`[AutoDiscovery] Scan complete. Found ${Object.keys(candidates).length} candidates, suggesting ${newSuggestions.length}.`);
+    logger.info(`[AutoDiscovery] Scan complete. Found ${Object.keys(candidates).length} candidates, suggesting ${newSuggestions.length}.`);
     return newSuggestions;
 };
@@ -0,0 +1,177 @@
+import { Politician, NewsEvent, Source, HistoryItem, ScoringModelId } from '../types';
+import { eventTimeMs } from './eventTime';
+import { FeedReplay, ReplayResult, getScoringModel } from './scoringEngine';
+import { logger } from './logger';
+
+/**
+ * Backtest Runner
+ * Replays a recorded dataset (the shape `importData` returns) through a scoring model in
+ * timestamp order, paced by a speed multiplier, and diffs the result against the
+ * politicians' recorded history. Pacing only affects wall-clock time: recency weighting is
+ * anchored to the last event in the dataset, so the same inputs always give the same output.
+ */
+
+export interface BacktestDataset {
+  politicians: Politician[];
+  feed: NewsEvent[];
+  sources: Source[];
+}
+
+export interface BacktestConfig {
+  scoringModel: ScoringModelId;
+  /** Simulated milliseconds per real millisecond; 0 replays as fast as possible */
+  speed: number;
+  startScore?: number;
+  includeModelGenerated?: boolean;
+}
+
+export interface BacktestProgress {
+  processed: number;
+  total: number;
+  /** Timestamp of the last applied event (epoch ms) */
+  simulatedTime: number;
+}
+
+export interface HistoryDiffPoint {
+  time: string;
+  recorded: number | null;
+  replayed: number | null;
+  /** replayed − recorded, when both exist for the day */
+  delta: number | null;
+}
+
+export interface PoliticianBacktest {
+  politicianId: string;
+  name: string;
+  recordedFinal: number | null;
+  replayedFinal: number | null;
+  meanAbsDelta: number;
+  maxAbsDelta: number;
+  diff: HistoryDiffPoint[];
+}
+
+export interface BacktestResult {
+  modelId: ScoringModelId;
+  eventsApplied: number;
+  /** Recency reference used for the whole run (epoch ms) */
+  asOf: number;
+  replay: ReplayResult;
+  recorded: Record<string, HistoryItem[]>;
+  politicians: PoliticianBacktest[];
+  aborted: boolean;
+}
+
+export interface BacktestRunOptions {
+  onProgress?: (progress: BacktestProgress) => void;
+  signal?: AbortSignal;
+}
+
+// Long gaps in the feed are compressed to at most this much real time
+const MAX_STEP_DELAY_MS = 1000;
+// At full speed, yield to the UI after this many events
+const UNPACED_BATCH_SIZE = 200;
+
+export const BACKTEST_SPEEDS: { label: string; speed: number }[] = [
+  { label: '1 hour / sec', speed: 60 * 60 },
+  { label: '1 day / sec', speed: 24 * 60 * 60 },
+  { label: '1 week / sec', speed: 7 * 24 * 60 * 60 },
+  { label: 'Instant', speed: 0 },
+];
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Last score per calendar day, so series with several points a day line up. */
+const dailyCloses = (history: HistoryItem[]): Map<string, number> => {
+  const closes = new Map<string, number>();
+  for (const h of history) {
+    if (!h.time) continue;
+    closes.set(h.time.split('T')[0], h.score);
+  }
+  return closes;
+};
+
+export const diffHistories = (recorded: HistoryItem[], replayed: HistoryItem[]): HistoryDiffPoint[] => {
+  const a = dailyCloses(recorded);
+  const b = dailyCloses(replayed);
+  const days = Array.from(new Set([...a.keys(), ...b.keys()])).sort();
+
+  return days.map((time) => {
+    const rec = a.get(time) ?? null;
+    const rep = b.get(time) ?? null;
+    return {
+      time,
+      recorded: rec,
+      replayed: rep,
+      delta: rec !== null && rep !== null ? parseFloat((rep - rec).toFixed(2)) : null,
+    };
+  });
+};
+
+const summarize = (
+  politician: Politician,
+  recorded: HistoryItem[],
+  replayed: HistoryItem[]
+): PoliticianBacktest => {
+  const diff = diffHistories(recorded, replayed);
+  const deltas = diff.filter((d) => d.delta !== null).map((d) => Math.abs(d.delta!));
+
+  return {
+    politicianId: politician.id,
+    name: politician.name,
+    recordedFinal: recorded.length ? recorded[recorded.length - 1].score : null,
+    replayedFinal: replayed.length ? replayed[replayed.length - 1].score : null,
+    meanAbsDelta: deltas.length ? parseFloat((deltas.reduce((s, d) => s + d, 0) / deltas.length).toFixed(2)) : 0,
+    maxAbsDelta: deltas.length ? Math.max(...deltas) : 0,
+    diff,
+  };
+};
+
+export async function runBacktest(
+  dataset: BacktestDataset,
+  config: BacktestConfig,
+  options: BacktestRunOptions = {}
+): Promise<BacktestResult> {
+  const { onProgress, signal } = options;
+  const model = getScoringModel(config.scoringModel);
+  const asOf = dataset.feed.reduce((max, e) => Math.max(max, eventTimeMs(e)), 0) || Date.now();
+  const replay = new FeedReplay(dataset.feed, dataset.politicians, dataset.sources, model, {
+    asOf,
+    startScore: config.startScore,
+    includeModelGenerated: config.includeModelGenerated,
+  });
+  const total = replay.events.length;
+  let lastTime = total ? eventTimeMs(replay.events[0]) : asOf;
+
+  logger.info(`[Backtest] Replaying ${total} events with ${model.name}`);
+
+  while (!replay.done && !signal?.aborted) {
+    const next = replay.peek()!;
+    const nextTime = eventTimeMs(next);
+
+    if (config.speed > 0) {
+      const delay = Math.min((nextTime - lastTime) / config.speed, MAX_STEP_DELAY_MS);
+      if (delay > 0) await sleep(delay);
+    } else if (replay.processed % UNPACED_BATCH_SIZE === 0) {
+      await sleep(0);
+    }
+    if (signal?.aborted) break;
+
+    replay.step();
+    lastTime = nextTime;
+    onProgress?.({ processed: replay.processed, total, simulatedTime: nextTime });
+  }
+
+  const result = replay.result();
+  const recorded: Record<string, HistoryItem[]> = {};
+  dataset.politicians.forEach((p) => (recorded[p.id] = p.history || []));
+
+  return {
+    modelId: model.id,
+    eventsApplied: result.eventsApplied,
+    asOf,
+    replay: result,
+    recorded,
+    politicians: dataset.politicians.map((p) => summarize(p, recorded[p.id], result.histories[p.id] || [])),
+    aborted: !!signal?.aborted,
+  };
+}
@@ -0,0 +1,125 @@
+import { NewsEvent, Politician } from '../types';
+import { eventTimeMs } from './eventTime';
+import { mentionFor } from './eventMentions';
+
+/**
+ * Cadence Planner
+ * Decides how often each politician's news is fetched. News velocity is the impact-weighted
+ * count of events mentioning them in the last day; busy candidates (a scandal, a rally week)
+ * are polled more often than the roster average and quiet ones less, and a global hourly
+ * budget caps the total.
+ */
+
+export interface CadenceEntry {
+  politicianId: string;
+  /** Impact-weighted mentions in the last day, spikes counted twice */
+  velocity: number;
+  /** Planned time between fetches */
+  intervalMs: number;
+}
+
+export const DEFAULT_FETCH_BUDGET_PER_HOUR = 120;
+
+const HOUR_MS = 60 * 60 * 1000;
+const RECENT_WINDOW_MS = 24 * HOUR_MS;
+const BASELINE_DAYS = 7;
+/** How far back `newsVelocity` looks; callers need pass only events this recent. */
+export const VELOCITY_WINDOW_MS = BASELINE_DAYS * RECENT_WINDOW_MS;
+// Keeps one stray event from making a quiet roster look busy
+const VELOCITY_PRIOR = 1;
+const MIN_FACTOR = 0.25;
+const MAX_FACTOR = 4;
+
+/**
+ * Impact-weighted mentions of a politician in the day before `now`. The part above their own
+ * 7-day daily average counts twice, so a sudden burst stands out from steady coverage.
+ */
+export const newsVelocity = (feed: NewsEvent[], politicianId: string, now = Date.now()): number => {
+  let recent = 0;
+  let baseline = 0;
+  for (const event of feed) {
+    const mention = mentionFor(event, politicianId);
+    if (!mention) continue;
+    const age = now - eventTimeMs(event);
+    if (age < 0 || age > VELOCITY_WINDOW_MS) continue;
+    baseline += mention.impact;
+    if (age <= RECENT_WINDOW_MS) recent += mention.impact;
+  }
+  return recent + Math.max(0, recent - baseline / BASELINE_DAYS);
+};
+
+class CadencePlanner {
+  private budgetPerHour = DEFAULT_FETCH_BUDGET_PER_HOUR;
+  private polls: number[] = [];
+  private lastPolled = new Map<string, number>();
+
+  /** Fetches allowed per hour across the app; 0 means no limit. */
+  setBudget(perHour: number | undefined): void {
+    this.budgetPerHour = Math.max(0, perHour || 0);
+  }
+
+  /**
+   * Each politician's interval: `baseIntervalMs` divided by their velocity relative to the
+   * roster average (clamped to 4x either way), then stretched evenly if the plan would
+   * exceed the hourly budget.
+   */
+  plan(politicians: Politician[], feed: NewsEvent[], baseIntervalMs: number, now = Date.now()): CadenceEntry[] {
+    if (politicians.length === 0) return [];
+    const velocities = politicians.map((p) => newsVelocity(feed, p.id, now));
+    const mean = velocities.reduce((sum, v) => sum + v, 0) / velocities.length;
+
+    const entries = politicians.map((p, i) => {
+      const factor = Math.min(MAX_FACTOR, Math.max(MIN_FACTOR, (velocities[i] + VELOCITY_PRIOR) / (mean + VELOCITY_PRIOR)));
+      return { politicianId: p.id, velocity: parseFloat(velocities[i].toFixed(2)), intervalMs: baseIntervalMs / factor };
+    });
+
+    const pollsPerHour = entries.reduce((sum, e) => sum + HOUR_MS / e.intervalMs, 0);
+    const stretch = this.budgetPerHour > 0 && pollsPerHour > this.budgetPerHour ? pollsPerHour / this.budgetPerHour : 1;
+    return entries.map((e) => ({ ...e, intervalMs: Math.round(e.intervalMs * stretch) }));
+  }
+
+  /** The planned interval for one politician, or `baseIntervalMs` if they aren't on the roster. */
+  intervalFor(politicianId: string, politicians: Politician[], feed: NewsEvent[], baseIntervalMs: number): number {
+    return this.plan(politicians, feed, baseIntervalMs).find((e) => e.politicianId === politicianId)?.intervalMs ?? baseIntervalMs;
+  }
+
+  /**
+   * The politician most overdue relative to their interval, or null when nobody is due or
+   * the hourly budget is spent. Politicians never fetched this session are due at once,
+   * busiest first.
+   */
+  next(politicians: Politician[], feed: NewsEvent[], baseIntervalMs: number, now = Date.now()): Politician | null {
+    if (!this.allows(now)) return null;
+    let best: { politician: Politician; overdue: number; velocity: number } | null = null;
+    for (const entry of this.plan(politicians, feed, baseIntervalMs, now)) {
+      const last = this.lastPolled.get(entry.politicianId);
+      const overdue = last === undefined ? Infinity : (now - last) / entry.intervalMs;
+      if (overdue < 1) continue;
+      if (best && (overdue < best.overdue || (overdue === best.overdue && entry.velocity <= best.velocity))) continue;
+      best = { politician: politicians.find((p) => p.id === entry.politicianId)!, overdue, velocity: entry.velocity };
+    }
+    return best?.politician || null;
+  }
+
+  /** Whether one more fetch fits this hour's budget. */
+  allows(now = Date.now()): boolean {
+    return this.budgetPerHour === 0 || this.pollsLastHour(now) < this.budgetPerHour;
+  }
+
+  /** Mark a fetch made before a reload, without counting it against this hour's budget. */
+  restore(politicianId: string, at: number): void {
+    if (at > (this.lastPolled.get(politicianId) ?? 0)) this.lastPolled.set(politicianId, at);
+  }
+
+  recordPoll(politicianId: string, now = Date.now()): void {
+    this.lastPolled.set(politicianId, now);
+    this.polls.push(now);
+  }
+
+  pollsLastHour(now = Date.now()): number {
+    this.polls = this.polls.filter((t) => now - t < HOUR_MS);
+    return this.polls.length;
+  }
+}
+
+export const cadencePlanner = new CadencePlanner();
@@ -1,7 +1,10 @@
 import { Politician, ProfileChange, AIProviderConfig } from '../types';
 import { database } from './database';
-import { getProvider, parseJSON } from './aiProvider';
+import { getProvider } from './aiProvider';
+import { PROFILE_UPDATE_OUTPUT, requestStructured } from './structuredOutput';
+import { renderPrompt, politicianVars } from './promptTemplates';
 import { findPoliticianImage } from './imageFinder';
+import { logger } from './logger';
 
 /**
  * Dynamic Profile Updater
@@ -22,33 +25,17 @@ export const updateCandidateProfile = async (
         return null;
     }
 
-    const provider = getProvider(config);
+    const provider = getProvider(config, 'profile-update');
     if (!provider.isConfigured) return null;
 
     try {
-        const prompt = `
-      Analyze the current political status of "${politician.name}" in Kenya (2027 election context).
-      Current Data:
-      - Party: ${politician.party}
-      - Role: ${politician.role}
-      - Slogan: ${politician.slogan || 'None'}
-      - Coalition: ${politician.coalition || 'None'}
+        const prompt = renderPrompt('profile-update', {
+            ...politicianVars(politician),
+            slogan: politician.slogan || 'None',
+            coalition: politician.coalition || 'None',
+        });
 
-      Has any of this changed recently? 
-      Return a JSON object with strictly these fields (and only if changed, otherwise use current value):
-      {
-        "party": "Current political party name",
-        "coalition": "Current coalition name (e.g. Kenya Kwanza, Azimio)",
-        "role": "Current official role or title (e.g. President, Opposition Leader)",
-        "slogan": "Current campaign slogan or motto",
-        "bio": "A 1-sentence updated bio summary"
-      }
-    `;
-
-        const response = await provider.chat(prompt);
-        if (!response) return null;
-
-        const data = parseJSON(response);
+        const data = await requestStructured((p) => provider.chat(p), prompt, PROFILE_UPDATE_OUTPUT);
         if (!data) return null;
 
         const updates: Partial<Politician> = {};
@@ -97,7 +84,7 @@ export const updateCandidateProfile = async (
         return { lastProfileUpdate: timestamp };
 
     } catch (e) {
-        console.error(`[ProfileUpdater] Failed to update ${politician.name}`, e);
+        logger.error(`[ProfileUpdater] Failed to update ${politician.name}`, e);
         return null;
     }
 };
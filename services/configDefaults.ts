@@ -0,0 +1,65 @@
+import { AIProviderConfig, GeminiTask, SimulationConfig } from '../types';
+
+/**
+ * Config Defaults
+ * The settings a fresh install starts with. Saved configs are merged over these wherever
+ * they're loaded, so a new setting only needs a default here, not a schema migration.
+ * Imports nothing from services, so any module can use it at load time.
+ */
+
+export const DEFAULT_GEMINI_MODELS: Record<GeminiTask, string> = {
+  event: 'gemini-2.5-flash',
+  analysis: 'gemini-2.5-flash',
+  history: 'gemini-2.5-flash',
+  image: 'gemini-2.5-flash',
+  sources: 'gemini-2.5-flash',
+  chat: 'gemini-2.5-flash',
+};
+
+export function getDefaultAIProviderConfig(): AIProviderConfig {
+  return {
+    provider: 'gemini',
+    ollamaUrl: 'http://localhost:11434',
+    ollamaModel: 'llama3',
+    huggingfaceApiKey: '',
+    openrouterApiKey: '',
+    fallbackProviders: [],
+    // GEMINI_API_KEY as documented; API_KEY is the older name, still accepted
+    geminiApiKey: (typeof process !== 'undefined' && (process.env?.GEMINI_API_KEY || process.env?.API_KEY)) || '',
+    geminiModels: { ...DEFAULT_GEMINI_MODELS },
+    openaiBaseUrl: (typeof process !== 'undefined' && process.env?.OPENAI_BASE_URL) || 'http://localhost:8080/v1',
+    openaiModel: (typeof process !== 'undefined' && process.env?.OPENAI_MODEL) || '',
+    openaiApiKey: (typeof process !== 'undefined' && process.env?.OPENAI_API_KEY) || '',
+    openaiHeaders: {},
+    openaiJsonMode: true,
+  };
+}
+
+export const DEFAULT_CONFIG: SimulationConfig = {
+  scanInterval: 15000,
+  isPaused: false,
+  useAI: true,
+  autoRefreshCandidates: true,
+  historyWindowDays: 60,
+  aiProviderConfig: getDefaultAIProviderConfig(),
+  scoringModel: 'linear',
+  aiBudget: { dailyRequests: 0, dailyCostUsd: 0 },
+  scoreModelGenerated: false,
+  promptOverrides: {},
+  fetchBudgetPerHour: 120,
+  backgroundSync: false,
+};
+
+/** Fill whatever a saved config lacks, including nested provider settings. */
+export const withConfigDefaults = (saved: Partial<SimulationConfig> = {}): SimulationConfig => {
+  const aiDefaults = getDefaultAIProviderConfig();
+  return {
+    ...DEFAULT_CONFIG,
+    ...saved,
+    aiProviderConfig: {
+      ...aiDefaults,
+      ...saved.aiProviderConfig,
+      geminiModels: { ...DEFAULT_GEMINI_MODELS, ...saved.aiProviderConfig?.geminiModels },
+    },
+  };
+};
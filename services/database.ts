@@ -1,8 +1,20 @@
-import { Politician, Source, NewsEvent, HistoryItem, SimulationConfig, AIProviderConfig, CandidateContext, DiscoveredSource } from '../types';
-import { getDefaultAIProviderConfig } from './aiProvider';
+import { Politician, Source, NewsEvent, HistoryItem, SimulationConfig, AIProviderConfig, CandidateContext, DiscoveredSource, RollupPeriod, ScoreRollup, IngestionStats, AIUsageRecord, AICacheEntry, FetchJob } from '../types';
+import { runMigrations, detectSchemaVersion, CURRENT_SCHEMA_VERSION, DataSnapshot } from './migrations';
+import { DEFAULT_CONFIG, withConfigDefaults, getDefaultAIProviderConfig } from './configDefaults';
+import { eventMentions, mentionsPolitician } from './eventMentions';
+import { eventTimeMs } from './eventTime';
+import { ScorePoint, ScoreCollections, ROLLUP_PERIODS, toScorePoint, applyPointToRollup, rollupId, bucketFor } from './historyRollups';
+import { logger } from './logger';
 
 const DB_NAME = 'polimetric_db';
-const DB_VERSION = 2;
+const DB_VERSION = 8;
+
+// Workers share the page's IndexedDB but not its localStorage, so only a page seeds or
+// rewrites the stores; a worker that found them empty would clear them for defaults
+const OWNS_STORES = typeof window !== 'undefined';
+
+// Most recent feed events kept in memory with IndexedDB; older ones are read through the indexes
+const FEED_CACHE_LIMIT = 500;
 
 /**
  * Object store names
@@ -17,10 +29,126 @@ const STORES = {
   FETCH_SCHEDULE: 'fetch_schedule',
   CANDIDATE_CONTEXTS: 'candidate_contexts',
   DISCOVERED_SOURCES: 'discovered_sources',
+  SCORE_HISTORY: 'score_history',
+  SCORE_ROLLUPS: 'score_rollups',
+  AI_USAGE: 'ai_usage',
+  AI_CACHE: 'ai_cache',
+  FETCH_JOBS: 'fetch_jobs',
   META: 'meta',
 } as const;
 
+type StoreName = (typeof STORES)[keyof typeof STORES];
+
+interface RecordStoreSpec {
+  keyPath: string;
+  indexes?: { name: string; keyPath: string | string[]; multiEntry?: boolean }[];
+}
+
+/**
+ * Stores that hold one record per entity. Everything else (config, fetch schedule, meta)
+ * is a small key-value store written as a single value.
+ */
+const RECORD_STORES: Partial<Record<StoreName, RecordStoreSpec>> = {
+  [STORES.POLITICIANS]: { keyPath: 'id' },
+  [STORES.SOURCES]: { keyPath: 'id' },
+  [STORES.FEED]: {
+    keyPath: 'id',
+    indexes: [
+      { name: 'politicianId', keyPath: 'politicianId' },
+      { name: 'timestamp', keyPath: 'timestampMs' },
+      { name: 'sourceName', keyPath: 'sourceName' },
+      { name: 'mention_timestamp', keyPath: 'mentionKeys', multiEntry: true },
+    ],
+  },
+  [STORES.POTENTIAL_SOURCES]: { keyPath: 'id' },
+  [STORES.ASPIRANT_DISCOVERY]: { keyPath: 'name' },
+  [STORES.CANDIDATE_CONTEXTS]: { keyPath: 'politicianId' },
+  [STORES.DISCOVERED_SOURCES]: { keyPath: 'domain' },
+  [STORES.SCORE_HISTORY]: {
+    keyPath: 'id',
+    indexes: [{ name: 'politicianId_time', keyPath: ['politicianId', 'timeMs'] }],
+  },
+  [STORES.SCORE_ROLLUPS]: {
+    keyPath: 'id',
+    indexes: [{ name: 'politicianId_period_bucket', keyPath: ['politicianId', 'period', 'bucket'] }],
+  },
+  [STORES.AI_USAGE]: {
+    keyPath: 'id',
+    indexes: [{ name: 'date', keyPath: 'date' }],
+  },
+  [STORES.AI_CACHE]: {
+    keyPath: 'key',
+    indexes: [{ name: 'expiresAt', keyPath: 'expiresAt' }],
+  },
+  [STORES.FETCH_JOBS]: { keyPath: 'id' },
+};
+
+/**
+ * Feed records carry a numeric copy of the timestamp, and a [politicianId, timestamp] key for
+ * every politician the event mentions, so the indexes can do range queries.
+ */
+type FeedRecord = NewsEvent & { timestampMs: number; mentionKeys: [string, number][] };
+
+const toFeedRecord = (event: NewsEvent): FeedRecord => {
+  const timestampMs = eventTimeMs(event);
+  return {
+    ...event,
+    timestampMs,
+    mentionKeys: eventMentions(event).map((m): [string, number] => [m.politicianId, timestampMs]),
+  };
+};
+
+const fromFeedRecord = (record: FeedRecord): NewsEvent => {
+  const event: Partial<FeedRecord> = { ...record };
+  delete event.timestampMs;
+  delete event.mentionKeys;
+  return event as NewsEvent;
+};
+
+/** Insert or replace events in a newest-first feed, in place. New events usually go first. */
+const upsertNewestFirst = (feed: NewsEvent[], events: NewsEvent[]): void => {
+  for (const event of events) {
+    const at = feed.findIndex((e) => e.id <= event.id);
+    if (at === -1) feed.push(event);
+    else if (feed[at].id === event.id) feed[at] = event;
+    else feed.splice(at, 0, event);
+  }
+};
+
+const createRecordStore = (db: IDBDatabase, storeName: string, spec: RecordStoreSpec): IDBObjectStore => {
+  const store = db.createObjectStore(storeName, { keyPath: spec.keyPath });
+  for (const index of spec.indexes || []) {
+    store.createIndex(index.name, index.keyPath, { multiEntry: index.multiEntry });
+  }
+  return store;
+};
+
+/**
+ * Bring an existing store's indexes in line with its spec. Feed records are rewritten when an
+ * index is added, since new indexes read fields that older records were stored without.
+ */
+const upgradeIndexes = (store: IDBObjectStore, spec: RecordStoreSpec): void => {
+  const wanted = spec.indexes || [];
+  for (const name of Array.from(store.indexNames)) {
+    if (!wanted.some((index) => index.name === name)) store.deleteIndex(name);
+  }
+  const added = wanted.filter((index) => !store.indexNames.contains(index.name));
+  for (const index of added) {
+    store.createIndex(index.name, index.keyPath, { multiEntry: index.multiEntry });
+  }
+  if (added.length === 0 || store.name !== STORES.FEED) return;
+
+  const cursorReq = store.openCursor();
+  cursorReq.onsuccess = () => {
+    const cursor = cursorReq.result;
+    if (!cursor) return;
+    cursor.update(toFeedRecord(fromFeedRecord(cursor.value)));
+    cursor.continue();
+  };
+};
+
 export interface DatabaseSchema {
+  schemaVersion: number;
   politicians: Politician[];
   sources: Source[];
   feed: NewsEvent[];
@@ -34,6 +162,21 @@ export interface DatabaseSchema {
   discoveredSources: DiscoveredSource[];
 }
 
+/**
+ * Where the whole database is saved as one JSON document when there is no IndexedDB,
+ * e.g. a file for the Node CLI. Reads and writes are synchronous.
+ */
+export interface SnapshotStore {
+  load(): string | null;
+  save(json: string): void;
+}
+
+/** A snapshot also carries the collections that otherwise only live in their own stores. */
+interface DatabaseSnapshot extends DatabaseSchema, ScoreCollections {
+  aiUsage: AIUsageRecord[];
+  fetchJobs: FetchJob[];
+}
+
 export interface AspirantDiscovery {
   name: string;
   party: string;
@@ -51,9 +194,11 @@ export interface FetchSchedule {
   fetchCount: number;
   hourlyFetchEnabled: boolean;
   fetchIntervalMinutes: number;
+  /** Counts from the most recent fetch */
+  lastCycleStats?: IngestionStats;
 }
 
-const DEFAULT_FETCH_SCHEDULE: FetchSchedule = {
+export const DEFAULT_FETCH_SCHEDULE: FetchSchedule = {
   lastFetchTime: '',
   nextFetchTime: '',
   fetchCount: 0,
@@ -61,16 +206,8 @@ const DEFAULT_FETCH_SCHEDULE: FetchSchedule = {
   fetchIntervalMinutes: 60,
 };
 
-const DEFAULT_CONFIG: SimulationConfig = {
-  scanInterval: 15000,
-  isPaused: false,
-  useAI: true,
-  autoRefreshCandidates: true,
-  historyWindowDays: 60,
-  aiProviderConfig: getDefaultAIProviderConfig(),
-};
-
 const getDefaultDB = (): DatabaseSchema => ({
+  schemaVersion: CURRENT_SCHEMA_VERSION,
   politicians: [],
   sources: [],
   feed: [],
@@ -84,14 +221,32 @@ const getDefaultDB = (): DatabaseSchema => ({
   discoveredSources: [],
 });
 
+/** Split migrated data into the cached schema and the score collections kept in their own stores. */
+const fromMigrated = ({ scoreHistory = [], scoreRollups = [], ...schema }: DataSnapshot): ScoreCollections & { db: DatabaseSchema } => ({
+  db: { ...getDefaultDB(), ...schema } as DatabaseSchema,
+  scoreHistory,
+  scoreRollups,
+});
+
 /**
  * IndexedDB-backed persistent database with in-memory cache for synchronous React reads.
- * Writes are async to IndexedDB, reads are always from the in-memory cache.
+ * Entity stores hold one record per politician / event / source, so mutations only write
+ * the records that changed. Reads are served from the in-memory cache, except the feed:
+ * only its most recent events are cached, and everything else goes through the IndexedDB
+ * indexes. Outside the browser the cache is the database, saved whole through a
+ * `SnapshotStore`.
  */
 class Database {
   private db: DatabaseSchema;
   private idb: IDBDatabase | null = null;
   private idbReady: Promise<void>;
+  private rollups = new Map<string, ScoreRollup>();
+  private aiUsage = new Map<string, AIUsageRecord>();
+  private fetchJobs = new Map<string, FetchJob>();
+  // Only used without IndexedDB, standing in for the score_history store
+  private scorePoints = new Map<string, ScorePoint>();
+  private snapshotStore: SnapshotStore | null = null;
+  private snapshotTimer: ReturnType<typeof setTimeout> | null = null;
 
   constructor() {
     this.db = this.loadFromLocalStorage();
@@ -103,66 +258,120 @@ class Database {
   private initIndexedDB(): Promise<void> {
     return new Promise<void>((resolve) => {
       if (typeof indexedDB === 'undefined') {
-        console.warn('[DB] IndexedDB not available, using localStorage fallback');
+        // Without localStorage either (Node), the caller attaches a snapshot store
+        if (typeof localStorage !== 'undefined') logger.warn('[DB] IndexedDB not available, using localStorage fallback');
         resolve();
         return;
       }
 
       const request = indexedDB.open(DB_NAME, DB_VERSION);
 
-      request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-        // Create all object stores if they don't exist
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        const tx = request.transaction;
         for (const storeName of Object.values(STORES)) {
+          const spec = RECORD_STORES[storeName];
           if (!db.objectStoreNames.contains(storeName)) {
-            db.createObjectStore(storeName);
+            if (spec) createRecordStore(db, storeName, spec);
+            else db.createObjectStore(storeName);
+            continue;
           }
+          if (!spec || !tx) continue;
+          // v2 kept each entity store as a single 'data' array — split it into records
+          if (tx.objectStore(storeName).keyPath === null) this.convertBlobStore(db, tx, storeName, spec);
+          else upgradeIndexes(tx.objectStore(storeName), spec);
         }
-        console.log('[DB] IndexedDB schema created/upgraded');
+        logger.info('[DB] IndexedDB schema created/upgraded');
       };
 
-      request.onsuccess = async (event) => {
-        this.idb = (event.target as IDBOpenDBRequest).result;
-        console.log('[DB] IndexedDB connected');
+      request.onsuccess = async () => {
+        this.idb = request.result;
+        logger.info('[DB] IndexedDB connected');
 
         // Try to load from IndexedDB first; if empty, migrate from localStorage
         const hasData = await this.loadFromIDB();
-        if (!hasData) {
-          console.log('[DB] No IndexedDB data found — migrating from localStorage...');
+        if (!hasData && OWNS_STORES) {
+          logger.info('[DB] No IndexedDB data found — migrating from localStorage...');
           await this.migrateFromLocalStorage();
         }
+        const usage = await this.idbGetAll<AIUsageRecord>(STORES.AI_USAGE);
+        this.aiUsage = new Map(usage.map((r) => [r.id, r]));
+        const jobs = await this.idbGetAll<FetchJob>(STORES.FETCH_JOBS);
+        this.fetchJobs = new Map(jobs.map((j) => [j.id, j]));
+        this.pruneAICache();
         resolve();
       };
 
       request.onerror = (event) => {
-        console.error('[DB] IndexedDB failed to open:', event);
+        logger.error('[DB] IndexedDB failed to open:', event);
         resolve(); // fallback to localStorage
       };
     });
   }
 
+  private convertBlobStore(
+    db: IDBDatabase,
+    tx: IDBTransaction,
+    storeName: StoreName,
+    spec: RecordStoreSpec
+  ): void {
+    const req = tx.objectStore(storeName).get('data');
+    req.onsuccess = () => {
+      const legacy: any[] = Array.isArray(req.result) ? req.result : [];
+      db.deleteObjectStore(storeName);
+      const store = createRecordStore(db, storeName, spec);
+      for (const item of legacy) {
+        if (item?.[spec.keyPath] === undefined) continue;
+        store.put(storeName === STORES.FEED ? toFeedRecord(item) : item);
+      }
+      logger.info(`[DB] Converted ${storeName}: ${legacy.length} records`);
+    };
+  }
+
   private async loadFromIDB(): Promise<boolean> {
     if (!this.idb) return false;
 
     try {
-      const politicians = await this.idbGet(STORES.POLITICIANS, 'data');
-      if (!politicians || (Array.isArray(politicians) && politicians.length === 0)) return false;
-
-      this.db.politicians = politicians || [];
-      this.db.sources = (await this.idbGet(STORES.SOURCES, 'data')) || [];
-      this.db.feed = (await this.idbGet(STORES.FEED, 'data')) || [];
-      this.db.config = { ...DEFAULT_CONFIG, ...(await this.idbGet(STORES.CONFIG, 'data') || {}) };
-      this.db.potentialSources = (await this.idbGet(STORES.POTENTIAL_SOURCES, 'data')) || [];
-      this.db.aspirantDiscovery = (await this.idbGet(STORES.ASPIRANT_DISCOVERY, 'data')) || [];
+      const politicians = await this.idbGetAll<Politician>(STORES.POLITICIANS);
+      if (politicians.length === 0) return false;
+
+      const storedVersion = (await this.idbGet(STORES.META, 'schemaVersion')) ?? 0;
+      // A migration may rewrite every event, so it reads them all; otherwise only the recent ones
+      const migrating = storedVersion < CURRENT_SCHEMA_VERSION;
+
+      this.db.politicians = politicians;
+      this.db.sources = await this.idbGetAll<Source>(STORES.SOURCES);
+      this.db.feed = migrating ? await this.readAllFeed() : await this.readFeedPage(Infinity, FEED_CACHE_LIMIT);
+      this.db.config = withConfigDefaults((await this.idbGet(STORES.CONFIG, 'data')) || {});
+      this.db.potentialSources = await this.idbGetAll<Source>(STORES.POTENTIAL_SOURCES);
+      this.db.aspirantDiscovery = await this.idbGetAll<AspirantDiscovery>(STORES.ASPIRANT_DISCOVERY);
       this.db.fetchSchedule = { ...DEFAULT_FETCH_SCHEDULE, ...(await this.idbGet(STORES.FETCH_SCHEDULE, 'data') || {}) };
-      this.db.candidateContexts = (await this.idbGet(STORES.CANDIDATE_CONTEXTS, 'data')) || [];
-      this.db.discoveredSources = (await this.idbGet(STORES.DISCOVERED_SOURCES, 'data')) || [];
+      this.db.candidateContexts = await this.idbGetAll<CandidateContext>(STORES.CANDIDATE_CONTEXTS);
+      this.db.discoveredSources = await this.idbGetAll<DiscoveredSource>(STORES.DISCOVERED_SOURCES);
       this.db.lastSync = (await this.idbGet(STORES.META, 'lastSync')) || new Date().toISOString();
 
-      console.log(`[DB] Loaded from IndexedDB: ${this.db.politicians.length} politicians, ${this.db.feed.length} feed items`);
+      const rollups = await this.idbGetAll<ScoreRollup>(STORES.SCORE_ROLLUPS);
+      this.rollups = new Map(rollups.map((r) => [r.id, r]));
+
+      logger.info(`[DB] Loaded from IndexedDB: ${this.db.politicians.length} politicians, ${this.db.feed.length} feed items`);
+
+      const { data, applied } = runMigrations(this.db, storedVersion);
+      if (applied.length > 0) {
+        // The entities are rewritten; points rebuilt from politician history join the score
+        // stores, where points already stored are skipped and the rest fold into the rollups
+        const { db, scoreHistory } = fromMigrated(data);
+        this.db = db;
+        if (OWNS_STORES) {
+          await this.saveAllToIDB();
+          await this.writeScorePoints(scoreHistory);
+          this.saveLocalBackup();
+          logger.info(`[DB] Migrated IndexedDB data from schema v${storedVersion} to v${this.db.schemaVersion}`);
+        }
+      }
+      this.db.feed = this.db.feed.slice(0, FEED_CACHE_LIMIT);
       return true;
     } catch (e) {
-      console.error('[DB] Failed to load from IndexedDB:', e);
+      logger.error('[DB] Failed to load from IndexedDB:', e);
       return false;
     }
   }
@@ -170,32 +379,49 @@ class Database {
   private async migrateFromLocalStorage(): Promise<void> {
     // The constructor already loaded from localStorage into this.db
     await this.saveAllToIDB();
-    console.log('[DB] Migration from localStorage complete');
+    logger.info('[DB] Migration from localStorage complete');
   }
 
-  private async saveAllToIDB(): Promise<void> {
-    if (!this.idb) return;
-    try {
-      await Promise.all([
-        this.idbPut(STORES.POLITICIANS, 'data', this.db.politicians),
-        this.idbPut(STORES.SOURCES, 'data', this.db.sources),
-        this.idbPut(STORES.FEED, 'data', this.db.feed),
-        this.idbPut(STORES.CONFIG, 'data', this.db.config),
-        this.idbPut(STORES.POTENTIAL_SOURCES, 'data', this.db.potentialSources),
-        this.idbPut(STORES.ASPIRANT_DISCOVERY, 'data', this.db.aspirantDiscovery),
-        this.idbPut(STORES.FETCH_SCHEDULE, 'data', this.db.fetchSchedule),
-        this.idbPut(STORES.CANDIDATE_CONTEXTS, 'data', this.db.candidateContexts),
-        this.idbPut(STORES.DISCOVERED_SOURCES, 'data', this.db.discoveredSources),
-        this.idbPut(STORES.META, 'lastSync', this.db.lastSync),
-      ]);
-    } catch (e) {
-      console.error('[DB] saveAllToIDB failed:', e);
-    }
+  /**
+   * Full rewrite of every store. Only used for migration, import and reset, when the cache
+   * holds the whole feed rather than its recent window.
+   */
+  private saveAllToIDB(): Promise<void> {
+    return new Promise((resolve) => {
+      if (!this.idb) { resolve(); return; }
+      try {
+        const tx = this.idb.transaction(Object.values(STORES), 'readwrite');
+        const replace = (storeName: StoreName, records: any[]) => {
+          const store = tx.objectStore(storeName);
+          store.clear();
+          records.forEach((r) => store.put(r));
+        };
+        replace(STORES.POLITICIANS, this.db.politicians);
+        replace(STORES.SOURCES, this.db.sources);
+        replace(STORES.FEED, this.db.feed.map(toFeedRecord));
+        replace(STORES.POTENTIAL_SOURCES, this.db.potentialSources);
+        replace(STORES.ASPIRANT_DISCOVERY, this.db.aspirantDiscovery);
+        replace(STORES.CANDIDATE_CONTEXTS, this.db.candidateContexts);
+        replace(STORES.DISCOVERED_SOURCES, this.db.discoveredSources);
+        tx.objectStore(STORES.CONFIG).put(this.db.config, 'data');
+        tx.objectStore(STORES.FETCH_SCHEDULE).put(this.db.fetchSchedule, 'data');
+        tx.objectStore(STORES.META).put(this.db.lastSync, 'lastSync');
+        tx.objectStore(STORES.META).put(this.db.schemaVersion, 'schemaVersion');
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => {
+          logger.error('[DB] saveAllToIDB failed:', tx.error);
+          resolve();
+        };
+      } catch (e) {
+        logger.error('[DB] saveAllToIDB failed:', e);
+        resolve();
+      }
+    });
   }
 
   // ─── Low-level IDB helpers ───
 
-  private idbGet(storeName: string, key: string): Promise<any> {
+  private idbGet(storeName: string, key: IDBValidKey): Promise<any> {
     return new Promise((resolve, reject) => {
       if (!this.idb) { resolve(null); return; }
       try {
@@ -210,9 +436,24 @@ class Database {
     });
   }
 
+  private idbGetAll<T>(storeName: string, indexName?: string, range?: IDBKeyRange): Promise<T[]> {
+    return new Promise((resolve, reject) => {
+      if (!this.idb) { resolve([]); return; }
+      try {
+        const tx = this.idb.transaction(storeName, 'readonly');
+        const store = tx.objectStore(storeName);
+        const req = indexName ? store.index(indexName).getAll(range) : store.getAll(range);
+        req.onsuccess = () => resolve(req.result || []);
+        req.onerror = () => reject(req.error);
+      } catch (e) {
+        resolve([]);
+      }
+    });
+  }
+
   private idbPut(storeName: string, key: string, value: any): Promise<void> {
     return new Promise((resolve, reject) => {
-      if (!this.idb) { resolve(); return; }
+      if (!this.idb) { this.scheduleSnapshot(); resolve(); return; }
       try {
         const tx = this.idb.transaction(storeName, 'readwrite');
         const store = tx.objectStore(storeName);
@@ -220,32 +461,85 @@ class Database {
         tx.oncomplete = () => resolve();
         tx.onerror = () => reject(tx.error);
       } catch (e) {
-        console.error('[DB] idbPut error:', e);
+        logger.error('[DB] idbPut error:', e);
+        resolve();
+      }
+    });
+  }
+
+  /** Put and delete records of a single entity store in one transaction. */
+  private idbWriteRecords(storeName: StoreName, puts: any[], deletes: IDBValidKey[] = []): Promise<void> {
+    return new Promise((resolve) => {
+      if (!this.idb) { this.scheduleSnapshot(); resolve(); return; }
+      if (puts.length === 0 && deletes.length === 0) { resolve(); return; }
+      try {
+        const tx = this.idb.transaction(storeName, 'readwrite');
+        const store = tx.objectStore(storeName);
+        deletes.forEach((key) => store.delete(key));
+        puts.forEach((record) => store.put(record));
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => {
+          logger.error(`[DB] Write to ${storeName} failed:`, tx.error);
+          resolve();
+        };
+      } catch (e) {
+        logger.error('[DB] idbWriteRecords error:', e);
         resolve();
       }
     });
   }
 
+  /**
+   * Persist the difference between two versions of an entity list. Callers replace changed
+   * items with new objects (React-style), so reference inequality marks a record as dirty.
+   */
+  private syncRecords<T>(
+    storeName: StoreName,
+    prev: T[],
+    next: T[],
+    keyOf: (item: T) => IDBValidKey,
+    toRecord: (item: T) => any = (item) => item
+  ): void {
+    const prevByKey = new Map(prev.map((item) => [keyOf(item), item]));
+    const nextKeys = new Set<IDBValidKey>();
+    const puts: any[] = [];
+    for (const item of next) {
+      const key = keyOf(item);
+      nextKeys.add(key);
+      if (prevByKey.get(key) !== item) puts.push(toRecord(item));
+    }
+    const deletes = [...prevByKey.keys()].filter((key) => !nextKeys.has(key));
+    this.idbWriteRecords(storeName, puts, deletes);
+  }
+
   // ─── LocalStorage fallback (legacy) ───
 
   private loadFromLocalStorage(): DatabaseSchema {
+    // Workers have no localStorage; they read IndexedDB only
+    if (typeof localStorage === 'undefined') return getDefaultDB();
     try {
-      const data = localStorage.getItem('polimetric_db');
-      if (data) {
-        return { ...getDefaultDB(), ...JSON.parse(data) };
+      const stored = localStorage.getItem('polimetric_db');
+      if (stored) {
+        const parsed = JSON.parse(stored);
+        const { data } = runMigrations(parsed, detectSchemaVersion(parsed));
+        return fromMigrated(data).db;
       }
     } catch (e) {
-      console.error('Failed to load database from localStorage:', e);
+      logger.error('Failed to load database from localStorage:', e);
     }
     return getDefaultDB();
   }
 
-  private save(): void {
-    // Async write to IndexedDB
-    this.saveAllToIDB();
-    // Also write to localStorage as backup (best-effort, may fail for large data)
+  private saveLocalBackup(): void {
+    if (this.snapshotStore) {
+      this.scheduleSnapshot();
+      return;
+    }
+    // Write to localStorage as backup (best-effort, may fail for large data)
+    if (typeof localStorage === 'undefined') return;
     try {
       const slim = {
+        schemaVersion: this.db.schemaVersion,
         politicians: this.db.politicians,
         sources: this.db.sources,
         feed: this.db.feed.slice(0, 50),
@@ -255,8 +549,59 @@ class Database {
       localStorage.setItem('polimetric_db', JSON.stringify(slim));
     } catch (e) {
       // localStorage quota exceeded — IndexedDB will handle persistence
-      console.warn('[DB] localStorage backup failed (likely quota), IndexedDB has the data');
+      logger.warn('[DB] localStorage backup failed (likely quota), IndexedDB has the data');
+    }
+  }
+
+  // ─── Snapshot store (no IndexedDB) ───
+
+  /**
+   * Persist to `store` instead of localStorage, loading whatever it already holds. Only
+   * meant for environments without IndexedDB; the whole database is rewritten on change.
+   */
+  async useSnapshotStore(store: SnapshotStore): Promise<void> {
+    await this.idbReady;
+    if (this.idb) {
+      logger.warn('[DB] IndexedDB is available; ignoring the snapshot store');
+      return;
+    }
+    this.snapshotStore = store;
+    const stored = store.load();
+    if (!stored) {
+      this.scheduleSnapshot();
+      return;
     }
+    const { aiUsage = [], fetchJobs = [], ...schema } = JSON.parse(stored) as Partial<DatabaseSnapshot>;
+    const { data, applied } = runMigrations(schema, detectSchemaVersion(schema));
+    const { db, scoreHistory, scoreRollups } = fromMigrated(data);
+    this.db = db;
+    this.scorePoints = new Map(scoreHistory.map((p) => [p.id, p]));
+    this.rollups = new Map(scoreRollups.map((r) => [r.id, r]));
+    this.aiUsage = new Map(aiUsage.map((r) => [r.id, r]));
+    this.fetchJobs = new Map(fetchJobs.map((j) => [j.id, j]));
+    if (applied.length > 0) this.scheduleSnapshot();
+    logger.info(`[DB] Loaded snapshot: ${this.db.politicians.length} politicians, ${this.db.feed.length} feed items`);
+  }
+
+  // Writes in the same turn share one save
+  private scheduleSnapshot(): void {
+    if (!this.snapshotStore || this.snapshotTimer) return;
+    this.snapshotTimer = setTimeout(() => this.flush(), 0);
+  }
+
+  /** Save pending changes to the snapshot store now. */
+  flush(): void {
+    if (this.snapshotTimer) clearTimeout(this.snapshotTimer);
+    this.snapshotTimer = null;
+    if (!this.snapshotStore) return;
+    const snapshot: DatabaseSnapshot = {
+      ...this.db,
+      scoreHistory: [...this.scorePoints.values()],
+      scoreRollups: [...this.rollups.values()],
+      aiUsage: [...this.aiUsage.values()],
+      fetchJobs: [...this.fetchJobs.values()],
+    };
+    this.snapshotStore.save(JSON.stringify(snapshot));
   }
 
   // ─── Public API ───
@@ -271,8 +616,11 @@ class Database {
   }
 
   setPoliticians(politicians: Politician[]): void {
+    const prev = this.db.politicians;
     this.db.politicians = politicians;
-    this.save();
+    this.syncRecords(STORES.POLITICIANS, prev, politicians, (p) => p.id);
+    this.recordNewHistoryPoints(prev, politicians);
+    this.saveLocalBackup();
   }
 
   addPolitician(politician: Politician): void {
@@ -280,19 +628,25 @@ class Database {
       (p) => p.id === politician.id || p.name === politician.name
     );
     if (!exists) {
-      this.db.politicians.push(politician);
-      this.save();
+      this.db.politicians = [...this.db.politicians, politician];
+      this.idbWriteRecords(STORES.POLITICIANS, [politician]);
+      this.saveLocalBackup();
     }
   }
 
   removePolitician(id: string): void {
     this.db.politicians = this.db.politicians.filter((p) => p.id !== id);
-    this.save();
+    this.idbWriteRecords(STORES.POLITICIANS, [], [id]);
+    this.saveLocalBackup();
   }
 
   updatePolitician(id: string, updates: Partial<Politician>): void {
-    this.db.politicians = this.db.politicians.map((p) => (p.id === id ? { ...p, ...updates } : p));
-    this.save();
+    const current = this.db.politicians.find((p) => p.id === id);
+    if (!current) return;
+    const updated = { ...current, ...updates };
+    this.db.politicians = this.db.politicians.map((p) => (p.id === id ? updated : p));
+    this.idbWriteRecords(STORES.POLITICIANS, [updated]);
+    this.saveLocalBackup();
   }
 
   getSources(): Source[] {
@@ -300,22 +654,35 @@ class Database {
   }
 
   setSources(sources: Source[]): void {
+    const prev = this.db.sources;
     this.db.sources = sources;
-    this.save();
+    this.syncRecords(STORES.SOURCES, prev, sources, (s) => s.id);
+    this.saveLocalBackup();
   }
 
+  /**
+   * The most recent feed events, newest first: up to FEED_CACHE_LIMIT with IndexedDB, all
+   * of them without. Use `getFeedSince` and `getFeedPage` to reach further back.
+   */
   getFeed(): NewsEvent[] {
     return this.db.feed;
   }
 
-  setFeed(feed: NewsEvent[]): void {
-    this.db.feed = feed;
-    this.save();
+  /**
+   * Add or update feed events. The feed is the full retained history and callers only ever
+   * hold part of it, so nothing here deletes a stored event. Resolves once they're stored.
+   */
+  putFeedEvents(events: NewsEvent[]): Promise<void> {
+    if (events.length === 0) return Promise.resolve();
+    upsertNewestFirst(this.db.feed, events);
+    if (this.idb && this.db.feed.length > FEED_CACHE_LIMIT) this.db.feed.length = FEED_CACHE_LIMIT;
+    const written = this.idbWriteRecords(STORES.FEED, events.map(toFeedRecord));
+    this.saveLocalBackup();
+    return written;
   }
 
   addFeedEvent(event: NewsEvent): void {
-    this.db.feed = [event, ...this.db.feed].slice(0, 200);
-    this.save();
+    this.putFeedEvents([event]);
   }
 
   getConfig(): SimulationConfig {
@@ -324,7 +691,8 @@ class Database {
 
   setConfig(config: SimulationConfig): void {
     this.db.config = config;
-    this.save();
+    this.idbPut(STORES.CONFIG, 'data', config);
+    this.saveLocalBackup();
   }
 
   getPotentialSources(): Source[] {
@@ -332,8 +700,9 @@ class Database {
   }
 
   setPotentialSources(sources: Source[]): void {
+    const prev = this.db.potentialSources;
     this.db.potentialSources = sources;
-    this.save();
+    this.syncRecords(STORES.POTENTIAL_SOURCES, prev, sources, (s) => s.id);
   }
 
   getAspirantDiscovery(): AspirantDiscovery[] {
@@ -341,14 +710,15 @@ class Database {
   }
 
   addAspirantDiscovery(aspirant: AspirantDiscovery): void {
-    const existing = this.db.aspirantDiscovery.find((a) => a.name === aspirant.name);
-    if (existing) {
-      existing.lastSeen = aspirant.lastSeen;
-      existing.status = aspirant.status;
+    let record = this.db.aspirantDiscovery.find((a) => a.name === aspirant.name);
+    if (record) {
+      record.lastSeen = aspirant.lastSeen;
+      record.status = aspirant.status;
     } else {
+      record = aspirant;
       this.db.aspirantDiscovery.push(aspirant);
     }
-    this.save();
+    this.idbWriteRecords(STORES.ASPIRANT_DISCOVERY, [record]);
   }
 
   updateAspirantStatus(name: string, status: AspirantDiscovery['status']): void {
@@ -356,13 +726,13 @@ class Database {
     if (aspirant) {
       aspirant.status = status;
       aspirant.lastSeen = new Date().toISOString();
+      this.idbWriteRecords(STORES.ASPIRANT_DISCOVERY, [aspirant]);
     }
-    this.save();
   }
 
   removeAspirantDiscovery(name: string): void {
     this.db.aspirantDiscovery = this.db.aspirantDiscovery.filter((a) => a.name !== name);
-    this.save();
+    this.idbWriteRecords(STORES.ASPIRANT_DISCOVERY, [], [name]);
   }
 
   getFetchSchedule(): FetchSchedule {
@@ -371,7 +741,7 @@ class Database {
 
   updateFetchSchedule(schedule: Partial<FetchSchedule>): void {
     this.db.fetchSchedule = { ...this.db.fetchSchedule, ...schedule };
-    this.save();
+    this.idbPut(STORES.FETCH_SCHEDULE, 'data', this.db.fetchSchedule);
   }
 
   getLastSync(): string {
@@ -380,7 +750,8 @@ class Database {
 
   setLastSync(time: string): void {
     this.db.lastSync = time;
-    this.save();
+    this.idbPut(STORES.META, 'lastSync', time);
+    this.saveLocalBackup();
   }
 
   // ─── Candidate Contexts ───
@@ -400,7 +771,7 @@ class Database {
     } else {
       this.db.candidateContexts.push(context);
     }
-    this.save();
+    this.idbWriteRecords(STORES.CANDIDATE_CONTEXTS, [context]);
   }
 
   // ─── Discovered Sources ───
@@ -410,21 +781,22 @@ class Database {
   }
 
   addDiscoveredSource(source: DiscoveredSource): void {
-    const existing = this.db.discoveredSources.find((s) => s.domain === source.domain);
-    if (existing) {
-      existing.lastSeen = source.lastSeen;
-      existing.seenCount++;
+    let record = this.db.discoveredSources.find((s) => s.domain === source.domain);
+    if (record) {
+      record.lastSeen = source.lastSeen;
+      record.seenCount++;
     } else {
+      record = source;
       this.db.discoveredSources.push(source);
     }
-    this.save();
+    this.idbWriteRecords(STORES.DISCOVERED_SOURCES, [record]);
   }
 
   markDiscoveredSourceAccepted(domain: string): void {
     const source = this.db.discoveredSources.find((s) => s.domain === domain);
     if (source) {
       source.accepted = true;
-      this.save();
+      this.idbWriteRecords(STORES.DISCOVERED_SOURCES, [source]);
     }
   }
 
@@ -432,10 +804,239 @@ class Database {
     const source = this.db.discoveredSources.find((s) => s.domain === domain);
     if (source) {
       source.rejected = true;
-      this.save();
+      this.idbWriteRecords(STORES.DISCOVERED_SOURCES, [source]);
     }
   }
 
+  // ─── Score History & Rollups ───
+
+  /**
+   * Politician records only carry a recent working window of history. Any point that
+   * appears in a politician's history (live update or backfill) is also appended to the
+   * score_history store, which keeps everything.
+   */
+  private recordNewHistoryPoints(prev: Politician[], next: Politician[]): void {
+    const prevById = new Map(prev.map((p) => [p.id, p]));
+    const points: ScorePoint[] = [];
+    for (const politician of next) {
+      const before = prevById.get(politician.id);
+      if (before === politician) continue;
+      const known = new Set(before?.history || []);
+      for (const item of politician.history) {
+        if (known.has(item)) continue;
+        const point = toScorePoint(politician.id, item);
+        if (point) points.push(point);
+      }
+    }
+    if (points.length > 0) this.appendScorePoints(points);
+  }
+
+  private applyPointToRollups(point: ScorePoint): ScoreRollup[] {
+    return ROLLUP_PERIODS.map((period) => {
+      const id = rollupId(point.politicianId, period, bucketFor(point.timeMs, period));
+      const updated = applyPointToRollup(this.rollups.get(id), point, period);
+      this.rollups.set(id, updated);
+      return updated;
+    });
+  }
+
+  /** Store score points and fold them into the daily/weekly rollups. Already-stored points are skipped. */
+  async appendScorePoints(points: ScorePoint[]): Promise<void> {
+    await this.idbReady;
+    return this.writeScorePoints(points);
+  }
+
+  private async writeScorePoints(points: ScorePoint[]): Promise<void> {
+    const unique = [...new Map(points.map((p) => [p.id, p])).values()];
+
+    if (!this.idb) {
+      for (const point of unique) {
+        if (this.scorePoints.has(point.id)) continue;
+        this.scorePoints.set(point.id, point);
+        this.applyPointToRollups(point);
+      }
+      this.scheduleSnapshot();
+      return;
+    }
+
+    return new Promise((resolve) => {
+      try {
+        const tx = this.idb!.transaction([STORES.SCORE_HISTORY, STORES.SCORE_ROLLUPS], 'readwrite');
+        const pointStore = tx.objectStore(STORES.SCORE_HISTORY);
+        const rollupStore = tx.objectStore(STORES.SCORE_ROLLUPS);
+        for (const point of unique) {
+          const req = pointStore.getKey(point.id);
+          req.onsuccess = () => {
+            if (req.result !== undefined) return;
+            pointStore.put(point);
+            this.applyPointToRollups(point).forEach((r) => rollupStore.put(r));
+          };
+        }
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => {
+          logger.error('[DB] appendScorePoints failed:', tx.error);
+          resolve();
+        };
+      } catch (e) {
+        logger.error('[DB] appendScorePoints error:', e);
+        resolve();
+      }
+    });
+  }
+
+  /** Every stored score point for a politician between `since` and `until`, oldest first. */
+  async getScoreHistory(politicianId: string, since?: Date, until?: Date): Promise<HistoryItem[]> {
+    await this.idbReady;
+    const fromMs = since ? since.getTime() : -Infinity;
+    const toMs = until ? until.getTime() : Infinity;
+    const points = this.idb
+      ? await this.idbGetAll<ScorePoint>(
+          STORES.SCORE_HISTORY,
+          'politicianId_time',
+          IDBKeyRange.bound([politicianId, fromMs], [politicianId, toMs])
+        )
+      : [...this.scorePoints.values()].filter(
+          (p) => p.politicianId === politicianId && p.timeMs >= fromMs && p.timeMs <= toMs
+        );
+    return points
+      .sort((a, b) => a.timeMs - b.timeMs || a.recordedAt - b.recordedAt)
+      .map(({ time, score, reason, sourceUrl, sentiment, eventId }) => ({ time, score, reason, sourceUrl, sentiment, eventId }));
+  }
+
+  /** Daily or weekly rollups for a politician, oldest first. Served from memory. */
+  getRollups(politicianId: string, period: RollupPeriod, since?: Date): ScoreRollup[] {
+    const sinceBucket = since ? bucketFor(since.getTime(), period) : '';
+    return [...this.rollups.values()]
+      .filter((r) => r.politicianId === politicianId && r.period === period && r.bucket >= sinceBucket)
+      .sort((a, b) => a.bucket.localeCompare(b.bucket));
+  }
+
+  /** Every stored score point and rollup, for exports. */
+  async getScoreCollections(): Promise<ScoreCollections> {
+    await this.idbReady;
+    return {
+      scoreHistory: this.idb ? await this.idbGetAll<ScorePoint>(STORES.SCORE_HISTORY) : [...this.scorePoints.values()],
+      scoreRollups: [...this.rollups.values()],
+    };
+  }
+
+  /** Replace all score history and rollups, e.g. with an import's. */
+  async replaceScoreCollections({ scoreHistory, scoreRollups }: ScoreCollections): Promise<void> {
+    await this.idbReady;
+    this.rollups = new Map(scoreRollups.map((r) => [r.id, r]));
+    if (!this.idb) {
+      this.scorePoints = new Map(scoreHistory.map((p) => [p.id, p]));
+      this.scheduleSnapshot();
+      return;
+    }
+
+    return new Promise((resolve) => {
+      try {
+        const tx = this.idb!.transaction([STORES.SCORE_HISTORY, STORES.SCORE_ROLLUPS], 'readwrite');
+        const pointStore = tx.objectStore(STORES.SCORE_HISTORY);
+        const rollupStore = tx.objectStore(STORES.SCORE_ROLLUPS);
+        pointStore.clear();
+        rollupStore.clear();
+        scoreHistory.forEach((p) => pointStore.put(p));
+        scoreRollups.forEach((r) => rollupStore.put(r));
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => {
+          logger.error('[DB] replaceScoreCollections failed:', tx.error);
+          resolve();
+        };
+      } catch (e) {
+        logger.error('[DB] replaceScoreCollections error:', e);
+        resolve();
+      }
+    });
+  }
+
+  // ─── AI Usage ───
+
+  /** Add one request's usage to its day/provider/feature total. */
+  async recordAIUsage(entry: AIUsageRecord): Promise<void> {
+    // Stored totals are loaded before idbReady resolves; adding earlier would overwrite them
+    await this.idbReady;
+    this.idbWriteRecords(STORES.AI_USAGE, [this.addAIUsage(entry)]);
+  }
+
+  /** Count usage another context (the page or the ingestion worker) has already stored. */
+  async mergeAIUsage(entry: AIUsageRecord): Promise<void> {
+    await this.idbReady;
+    this.addAIUsage(entry);
+  }
+
+  private addAIUsage(entry: AIUsageRecord): AIUsageRecord {
+    const current = this.aiUsage.get(entry.id);
+    const updated: AIUsageRecord = current
+      ? {
+          ...current,
+          requests: current.requests + entry.requests,
+          failures: current.failures + entry.failures,
+          inputTokens: current.inputTokens + entry.inputTokens,
+          outputTokens: current.outputTokens + entry.outputTokens,
+          costUsd: current.costUsd + entry.costUsd,
+        }
+      : entry;
+    this.aiUsage.set(entry.id, updated);
+    return updated;
+  }
+
+  /** Usage totals dated on or after `sinceDate` (YYYY-MM-DD), oldest first. Served from memory. */
+  getAIUsage(sinceDate = ''): AIUsageRecord[] {
+    return [...this.aiUsage.values()]
+      .filter((r) => r.date >= sinceDate)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  // ─── AI Response Cache ───
+
+  /** The cached response for a key, or null when missing or expired. */
+  async getAICacheEntry(key: string, now = Date.now()): Promise<AICacheEntry | null> {
+    await this.idbReady;
+    const entry: AICacheEntry | null = (await this.idbGet(STORES.AI_CACHE, key)) || null;
+    return entry && entry.expiresAt > now ? entry : null;
+  }
+
+  putAICacheEntry(entry: AICacheEntry): Promise<void> {
+    return this.idbWriteRecords(STORES.AI_CACHE, [entry]);
+  }
+
+  /** Delete expired entries; returns how many were removed. */
+  async pruneAICache(now = Date.now()): Promise<number> {
+    if (!this.idb) return 0;
+    const expired = await this.idbGetAll<AICacheEntry>(STORES.AI_CACHE, 'expiresAt', IDBKeyRange.upperBound(now));
+    await this.idbWriteRecords(STORES.AI_CACHE, [], expired.map((e) => e.key));
+    return expired.length;
+  }
+
+  async clearAICache(): Promise<void> {
+    await this.idbReady;
+    if (!this.idb) return;
+    try {
+      this.idb.transaction(STORES.AI_CACHE, 'readwrite').objectStore(STORES.AI_CACHE).clear();
+    } catch (e) {
+      logger.error('[DB] clearAICache error:', e);
+    }
+  }
+
+  // ─── Fetch Job Queue ───
+
+  /** The scheduler's jobs, soonest due first. Served from memory. */
+  getFetchJobs(): FetchJob[] {
+    return [...this.fetchJobs.values()].sort((a, b) => a.nextRunAt - b.nextRunAt);
+  }
+
+  putFetchJobs(jobs: FetchJob[]): void {
+    jobs.forEach((j) => this.fetchJobs.set(j.id, j));
+    this.idbWriteRecords(STORES.FETCH_JOBS, jobs);
+  }
+
+  removeFetchJobs(ids: string[]): void {
+    ids.forEach((id) => this.fetchJobs.delete(id));
+    this.idbWriteRecords(STORES.FETCH_JOBS, [], ids);
+  }
+
   // ─── Query Helpers ───
 
   filterByDays<T extends { time?: string; timestamp?: string }>(items: T[], days: number): T[] {
@@ -456,19 +1057,105 @@ class Database {
     return this.filterByDays(politician.history, 60);
   }
 
-  getFeedLast24Hours(): NewsEvent[] {
+  /**
+   * Feed events at or after `since`, newest first, optionally only those mentioning one
+   * politician. Uses the timestamp index, or the mention index for one politician; falls back
+   * to scanning the cache without IndexedDB.
+   */
+  async getFeedSince(since: Date, politicianId?: string): Promise<NewsEvent[]> {
+    await this.idbReady;
+    const sinceMs = since.getTime();
+
+    if (!this.idb) {
+      return this.db.feed.filter(
+        (e) => eventTimeMs(e) >= sinceMs && (!politicianId || mentionsPolitician(e, politicianId))
+      );
+    }
+
+    const records = politicianId
+      ? await this.idbGetAll<FeedRecord>(
+          STORES.FEED,
+          'mention_timestamp',
+          IDBKeyRange.bound([politicianId, sinceMs], [politicianId, Infinity])
+        )
+      : await this.idbGetAll<FeedRecord>(STORES.FEED, 'timestamp', IDBKeyRange.lowerBound(sinceMs));
+    return records.map(fromFeedRecord).reverse();
+  }
+
+  /** Feed events from the last `days` days, newest first. */
+  getFeedByDays(days: number, politicianId?: string): Promise<NewsEvent[]> {
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - days);
+    return this.getFeedSince(cutoff, politicianId);
+  }
+
+  getFeedLast24Hours(): Promise<NewsEvent[]> {
     const cutoff = new Date();
     cutoff.setHours(cutoff.getHours() - 24);
+    return this.getFeedSince(cutoff);
+  }
+
+  /**
+   * Up to `limit` feed events older than event `beforeId`, newest first. For paging back
+   * through history that isn't held in the app's state.
+   */
+  async getFeedPage(beforeId: number, limit: number): Promise<NewsEvent[]> {
+    await this.idbReady;
+    if (!this.idb) return this.db.feed.filter((e) => e.id < beforeId).slice(0, limit);
+    return this.readFeedPage(beforeId, limit);
+  }
 
-    return this.db.feed.filter((event) => {
-      const eventDate = new Date(event.timestamp);
-      return eventDate >= cutoff;
+  /** Every stored feed event, newest first. For exports; everything else reads a range. */
+  async getAllFeed(): Promise<NewsEvent[]> {
+    await this.idbReady;
+    return this.idb ? this.readAllFeed() : this.db.feed;
+  }
+
+  private async readAllFeed(): Promise<NewsEvent[]> {
+    // Records come back in key (id = insertion time) order; the feed is newest-first
+    return (await this.idbGetAll<FeedRecord>(STORES.FEED)).map(fromFeedRecord).reverse();
+  }
+
+  private readFeedPage(beforeId: number, limit: number): Promise<NewsEvent[]> {
+    return new Promise((resolve) => {
+      const page: NewsEvent[] = [];
+      try {
+        const tx = this.idb!.transaction(STORES.FEED, 'readonly');
+        const req = tx.objectStore(STORES.FEED).openCursor(IDBKeyRange.upperBound(beforeId, true), 'prev');
+        req.onsuccess = () => {
+          const cursor = req.result;
+          if (!cursor || page.length >= limit) return;
+          page.push(fromFeedRecord(cursor.value));
+          cursor.continue();
+        };
+        tx.oncomplete = () => resolve(page);
+        tx.onerror = () => {
+          logger.error('[DB] getFeedPage failed:', tx.error);
+          resolve(page);
+        };
+      } catch (e) {
+        logger.error('[DB] getFeedPage error:', e);
+        resolve(page);
+      }
     });
   }
 
+  /** All feed events from one source name, newest first. */
+  async getFeedBySource(sourceName: string): Promise<NewsEvent[]> {
+    await this.idbReady;
+    if (!this.idb) return this.db.feed.filter((e) => e.sourceName === sourceName);
+    const records = await this.idbGetAll<FeedRecord>(STORES.FEED, 'sourceName', IDBKeyRange.only(sourceName));
+    return records.sort((a, b) => b.timestampMs - a.timestampMs).map(fromFeedRecord);
+  }
+
   clearAllData(): void {
-    localStorage.removeItem('polimetric_db');
+    if (typeof localStorage !== 'undefined') localStorage.removeItem('polimetric_db');
     this.db = getDefaultDB();
+    this.rollups.clear();
+    this.aiUsage.clear();
+    this.fetchJobs.clear();
+    this.scorePoints.clear();
+    this.scheduleSnapshot();
     // Clear IndexedDB stores
     if (this.idb) {
       for (const storeName of Object.values(STORES)) {
@@ -480,18 +1167,24 @@ class Database {
     }
   }
 
-  exportData(): string {
-    return JSON.stringify(this.db, null, 2);
+  async exportData(): Promise<string> {
+    const feed = await this.getAllFeed();
+    return JSON.stringify({ ...this.db, feed, ...(await this.getScoreCollections()) }, null, 2);
   }
 
-  importData(jsonString: string): boolean {
+  async importData(jsonString: string): Promise<boolean> {
     try {
-      const data = JSON.parse(jsonString);
-      this.db = { ...getDefaultDB(), ...data };
-      this.save();
+      const parsed = JSON.parse(jsonString);
+      const { data } = runMigrations(parsed, detectSchemaVersion(parsed));
+      const { db, ...scores } = fromMigrated(data);
+      this.db = db;
+      await this.saveAllToIDB();
+      if (this.idb) this.db.feed = this.db.feed.slice(0, FEED_CACHE_LIMIT);
+      await this.replaceScoreCollections(scores);
+      this.saveLocalBackup();
       return true;
     } catch (e) {
-      console.error('Import failed:', e);
+      logger.error('Import failed:', e);
       return false;
     }
   }
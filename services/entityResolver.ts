@@ -0,0 +1,248 @@
+import { ALIAS_REGISTRY } from '../constants';
+
+/**
+ * Entity Resolver
+ * Attributes article text to politicians using their full name, the aliases stored on the
+ * Politician, the built-in ALIAS_REGISTRY (nicknames, Swahili spellings) and their surname.
+ * Matching is token-based: apostrophes and accents are ignored ("Matiang'i" = "Matiangi"),
+ * long tokens tolerate one typo, and short one-word aliases such as "Baba" only count when
+ * capitalised in article text, so ordinary words don't attribute an article. Nicknames that
+ * others share ("Gideon", "Iron Lady") are left out of the registry; a surname is safer.
+ */
+
+export interface ResolvableEntity {
+  id: string;
+  name: string;
+  aliases?: string[];
+}
+
+export interface EntityMention {
+  id: string;
+  name: string;
+  /** Number of alias occurrences in the text */
+  count: number;
+  /** Token position of the first occurrence */
+  firstIndex: number;
+  matched: string[];
+}
+
+interface AliasPattern {
+  entityId: string;
+  alias: string;
+  tokens: string[];
+  caseSensitive: boolean;
+  /** For surname patterns, derived rather than listed: the entity's other name tokens, lowercased */
+  givenNames?: string[];
+}
+
+// Alias tokens at least this long also match with one typo ("Musyoka" ~ "Musyokka")
+const FUZZY_MIN_LENGTH = 6;
+const SHORT_ALIAS_MAX_LENGTH = 4;
+
+// Capitalised words that may precede a bare surname without naming someone else
+const TITLES = new Set([
+  'president',
+  'deputy',
+  'former',
+  'vice',
+  'mr',
+  'mrs',
+  'ms',
+  'dr',
+  'prof',
+  'professor',
+  'senator',
+  'governor',
+  'hon',
+  'mp',
+  'cs',
+  'leader',
+  'chief',
+  'justice',
+  'speaker',
+  'general',
+  'the',
+  'as',
+  'and',
+]);
+
+const stripAccents = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+/** Original-case tokens, with apostrophes removed and any other punctuation as a separator. */
+const rawTokens = (text: string): string[] =>
+  stripAccents(text)
+    .replace(/['’`]/g, '')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+
+export const normalizeName = (name: string): string => rawTokens(name).join(' ').toLowerCase();
+
+const withinOneEdit = (a: string, b: string): boolean => {
+  if (Math.abs(a.length - b.length) > 1) return false;
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    if (++edits > 1) return false;
+    if (a.length > b.length) i++;
+    else if (b.length > a.length) j++;
+    else {
+      i++;
+      j++;
+    }
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1;
+};
+
+const tokenMatches = (text: string, alias: string): boolean =>
+  text === alias || (alias.length >= FUZZY_MIN_LENGTH && withinOneEdit(text, alias));
+
+const registryAliases = (name: string): string[] => {
+  const key = normalizeName(name);
+  const entry = Object.entries(ALIAS_REGISTRY).find(
+    ([canonical]) => normalizeName(canonical) === key
+  );
+  return entry ? entry[1] : [];
+};
+
+const surnameOf = (name: string): string | null => {
+  const tokens = rawTokens(name);
+  const last = tokens[tokens.length - 1];
+  return tokens.length > 1 && last.length > SHORT_ALIAS_MAX_LENGTH ? last : null;
+};
+
+/** Every explicit name an entity is known by: full name, own aliases and registry aliases. */
+export const aliasesFor = (entity: ResolvableEntity): string[] => {
+  const seen = new Set<string>();
+  return [entity.name, ...(entity.aliases || []), ...registryAliases(entity.name)].filter(
+    (alias) => {
+      const key = normalizeName(alias);
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    }
+  );
+};
+
+export class EntityResolver {
+  private patterns: AliasPattern[] = [];
+  private entities: Map<string, ResolvableEntity>;
+
+  constructor(entities: ResolvableEntity[]) {
+    this.entities = new Map(entities.map((e) => [e.id, e]));
+
+    for (const entity of entities) {
+      for (const alias of aliasesFor(entity)) this.addPattern(entity.id, alias);
+    }
+
+    // Surnames are implicit, so only use the ones that point at a single entity
+    const surnames = new Map<string, string[]>();
+    for (const entity of entities) {
+      const surname = surnameOf(entity.name);
+      if (!surname) continue;
+      const key = surname.toLowerCase();
+      surnames.set(key, [...(surnames.get(key) || []), entity.id]);
+    }
+    for (const [surname, ids] of surnames) {
+      if (ids.length !== 1) continue;
+      const explicit = this.patterns.some(
+        (p) => p.entityId === ids[0] && p.tokens.join(' ') === surname
+      );
+      if (!explicit) this.addPattern(ids[0], surname, true);
+    }
+  }
+
+  private addPattern(entityId: string, alias: string, implicit = false): void {
+    const original = rawTokens(alias);
+    if (original.length === 0) return;
+    const caseSensitive = original.length === 1 && original[0].length <= SHORT_ALIAS_MAX_LENGTH;
+    const entityName = this.entities.get(entityId)!.name;
+    this.patterns.push({
+      entityId,
+      alias,
+      tokens: caseSensitive ? original : original.map((t) => t.toLowerCase()),
+      caseSensitive,
+      givenNames: implicit
+        ? rawTokens(entityName)
+            .slice(0, -1)
+            .map((t) => t.toLowerCase())
+        : undefined,
+    });
+  }
+
+  /** Entities mentioned in the text, most-mentioned first (ties: earliest first). */
+  resolve(text: string): EntityMention[] {
+    return this.match(text, this.patterns);
+  }
+
+  /** `asName`: the text is a bare person name, typed or extracted, rather than running text. */
+  private match(text: string, patterns: AliasPattern[], asName = false): EntityMention[] {
+    const original = rawTokens(text);
+    const lower = original.map((t) => t.toLowerCase());
+    const found = new Map<string, EntityMention>();
+    // A token can only belong to one alias; longer aliases claim first ("Raila Odinga" over "Raila")
+    const claimed = new Set<number>();
+
+    const ordered = [...patterns].sort((a, b) => b.tokens.length - a.tokens.length);
+    for (const pattern of ordered) {
+      const n = pattern.tokens.length;
+
+      for (let i = 0; i + n <= original.length; i++) {
+        let hit = true;
+        for (let k = 0; k < n && hit; k++) {
+          if (claimed.has(i + k)) hit = false;
+          else if (!pattern.caseSensitive) hit = tokenMatches(lower[i + k], pattern.tokens[k]);
+          else if (asName) hit = lower[i + k] === pattern.tokens[k].toLowerCase();
+          else hit = original[i + k] === pattern.tokens[k];
+        }
+        if (!hit) continue;
+        if (pattern.givenNames) {
+          // "Wycliffe Oparanya" is not "Francis Oparanya": a surname preceded by another given name.
+          // In running text only a capitalised word can be one; in a bare name every word is
+          if (i > 0 && (asName || /^[A-Z]/.test(original[i - 1]))) {
+            const before = lower[i - 1];
+            if (!TITLES.has(before) && !pattern.givenNames.includes(before)) continue;
+          }
+          // A bare name ends with its surname: "Kuria Kimani" is not "Moses Kuria"
+          if (asName && i + n < original.length) continue;
+        }
+
+        for (let k = 0; k < n; k++) claimed.add(i + k);
+        const entity = this.entities.get(pattern.entityId)!;
+        const mention = found.get(entity.id) || {
+          id: entity.id,
+          name: entity.name,
+          count: 0,
+          firstIndex: i,
+          matched: [],
+        };
+        mention.count++;
+        mention.firstIndex = Math.min(mention.firstIndex, i);
+        if (!mention.matched.includes(pattern.alias)) mention.matched.push(pattern.alias);
+        found.set(entity.id, mention);
+      }
+    }
+
+    return [...found.values()].sort((a, b) => b.count - a.count || a.firstIndex - b.firstIndex);
+  }
+
+  mentions(text: string, entityId: string): boolean {
+    return this.resolve(text).some((m) => m.id === entityId);
+  }
+
+  /**
+   * The entity a bare person name refers to (e.g. a discovered aspirant vs. tracked
+   * politicians, or a name typed on the command line). Case is ignored, even for short
+   * aliases ("ruto"), and a surname counts unless another given name precedes it:
+   * "Wycliffe Oparanya" is not "Francis Oparanya".
+   */
+  resolveName(name: string): ResolvableEntity | null {
+    const [best] = this.match(name, this.patterns, true);
+    return best ? this.entities.get(best.id)! : null;
+  }
+}
@@ -0,0 +1,42 @@
+import { NewsEvent, EventMention } from '../types';
+
+/**
+ * Event Mentions
+ * A news event can concern several politicians, each with its own sentiment and impact
+ * (a defection is good news for one side and bad for the other). Events stored before
+ * mentions existed, or built without them, are treated as a single mention of `politicianId`.
+ */
+
+// Most politicians analyzed and scored for one article
+export const MAX_MENTIONS_PER_EVENT = 3;
+
+export const eventMentions = (event: NewsEvent): EventMention[] =>
+  event.mentions?.length
+    ? event.mentions
+    : [
+        {
+          politicianId: event.politicianId,
+          sentiment: event.sentiment,
+          impact: event.impact,
+          stance: event.stance,
+        },
+      ];
+
+export const mentionFor = (event: NewsEvent, politicianId: string): EventMention | undefined =>
+  eventMentions(event).find((m) => m.politicianId === politicianId);
+
+export const mentionsPolitician = (event: NewsEvent, politicianId: string): boolean =>
+  mentionFor(event, politicianId) !== undefined;
+
+/** The event as seen by one mentioned politician, for code that scores one target at a time. */
+export const forMention = (event: NewsEvent, mention: EventMention): NewsEvent => ({
+  ...event,
+  politicianId: mention.politicianId,
+  sentiment: mention.sentiment,
+  impact: mention.impact,
+  stance: mention.stance,
+});
+
+/** Split an event into one single-politician view per mention. */
+export const perMentionEvents = (event: NewsEvent): NewsEvent[] =>
+  eventMentions(event).map((m) => forMention(event, m));
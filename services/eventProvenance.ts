@@ -0,0 +1,38 @@
+import { NewsEvent, EventProvenance } from '../types';
+
+/**
+ * Event Provenance
+ * Where a news event came from: an AI web search with citations, a fetched article, or the
+ * model's own knowledge with nothing to verify it against. Model-generated events stay in
+ * the feed but don't move scores unless the user opts in.
+ */
+
+export const PROVENANCE_LABELS: Record<EventProvenance, string> = {
+  'search-grounded': 'Search-grounded',
+  'article-derived': 'From article',
+  'model-generated': 'AI-generated, unverified',
+};
+
+// Stand-in domains models produce when they have no real article to cite
+const PLACEHOLDER_HOSTS = ['example.com', 'relevant-news-site.com'];
+
+/** True for a missing URL or a placeholder link that points at no article. */
+export const isPlaceholderUrl = (url: string | undefined): boolean => {
+  if (!url) return true;
+  try {
+    const { hostname, pathname } = new URL(url);
+    if (PLACEHOLDER_HOSTS.some((host) => hostname === host || hostname.endsWith(`.${host}`))) return true;
+    // An aggregator's front page rather than an article
+    return hostname === 'news.google.com' && pathname.replace(/\/+$/, '') === '';
+  } catch {
+    return true;
+  }
+};
+
+/** The event's provenance; events saved before it was recorded are judged by their link. */
+export const eventProvenance = (event: Pick<NewsEvent, 'provenance' | 'url'>): EventProvenance =>
+  event.provenance ?? (isPlaceholderUrl(event.url) ? 'model-generated' : 'article-derived');
+
+/** Whether an event should move scores. */
+export const isScoreable = (event: NewsEvent, scoreModelGenerated = false): boolean =>
+  scoreModelGenerated || eventProvenance(event) !== 'model-generated';
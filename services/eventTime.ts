@@ -0,0 +1,12 @@
+import { NewsEvent } from '../types';
+
+/**
+ * Event Time
+ * Event timestamps come from many places (toLocaleString, ISO strings, publisher dates).
+ * Fall back to the id, which is the Date.now() at which the event was recorded.
+ */
+export const eventTimeMs = (event: NewsEvent): number => {
+  const parsed = new Date(event.timestamp).getTime();
+  if (!isNaN(parsed)) return parsed;
+  return typeof event.id === 'number' && event.id > 0 ? event.id : 0;
+};
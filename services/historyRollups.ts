@@ -0,0 +1,124 @@
+import { HistoryItem, RollupPeriod, ScoreRollup } from '../types';
+
+/**
+ * Score History Rollups
+ * Every score point is kept in the `score_history` store; these helpers maintain the
+ * per-day and per-week open/high/low/close summaries used for long chart windows.
+ */
+
+export const ROLLUP_PERIODS: RollupPeriod[] = ['day', 'week'];
+
+/**
+ * One stored score point. The id makes re-recording the same point idempotent; points from
+ * feed events are keyed by event, so two events on one day never share a point.
+ */
+export interface ScorePoint extends HistoryItem {
+  id: string;
+  politicianId: string;
+  timeMs: number;
+  recordedAt: number;
+}
+
+/** Every score point and rollup, as exports carry them. */
+export interface ScoreCollections {
+  scoreHistory: ScorePoint[];
+  scoreRollups: ScoreRollup[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const toScorePoint = (politicianId: string, item: HistoryItem): ScorePoint | null => {
+  const timeMs = Date.parse(item.time);
+  if (!item.time || isNaN(timeMs)) return null;
+  return {
+    ...item,
+    id:
+      item.eventId !== undefined
+        ? `${politicianId}|event-${item.eventId}`
+        : `${politicianId}|${item.time}|${item.reason || ''}|${item.score}`,
+    politicianId,
+    timeMs,
+    recordedAt: Date.now(),
+  };
+};
+
+export const bucketFor = (timeMs: number, period: RollupPeriod): string => {
+  if (period === 'week') {
+    const date = new Date(timeMs);
+    const sinceMonday = (date.getUTCDay() + 6) % 7;
+    return new Date(timeMs - sinceMonday * DAY_MS).toISOString().split('T')[0];
+  }
+  return new Date(timeMs).toISOString().split('T')[0];
+};
+
+export const rollupId = (politicianId: string, period: RollupPeriod, bucket: string): string =>
+  `${politicianId}|${period}|${bucket}`;
+
+/**
+ * Fold one point into its bucket. Points can arrive out of order (history backfills),
+ * so open/close are decided by point time, with arrival order breaking ties.
+ */
+export const applyPointToRollup = (
+  rollup: ScoreRollup | undefined,
+  point: ScorePoint,
+  period: RollupPeriod
+): ScoreRollup => {
+  const sentimentKey = point.sentiment || 'neutral';
+
+  if (!rollup) {
+    const bucket = bucketFor(point.timeMs, period);
+    return {
+      id: rollupId(point.politicianId, period, bucket),
+      politicianId: point.politicianId,
+      period,
+      bucket,
+      open: point.score,
+      high: point.score,
+      low: point.score,
+      close: point.score,
+      eventCount: 1,
+      sentiment: { positive: 0, negative: 0, neutral: 0, [sentimentKey]: 1 },
+      openAt: point.timeMs,
+      closeAt: point.timeMs,
+    };
+  }
+
+  const next: ScoreRollup = {
+    ...rollup,
+    high: Math.max(rollup.high, point.score),
+    low: Math.min(rollup.low, point.score),
+    eventCount: rollup.eventCount + 1,
+    sentiment: { ...rollup.sentiment, [sentimentKey]: rollup.sentiment[sentimentKey] + 1 },
+  };
+  if (point.timeMs < rollup.openAt) {
+    next.open = point.score;
+    next.openAt = point.timeMs;
+  }
+  if (point.timeMs >= rollup.closeAt) {
+    next.close = point.score;
+    next.closeAt = point.timeMs;
+  }
+  return next;
+};
+
+/** Rollups for a set of points, built from scratch. */
+export const buildRollups = (points: ScorePoint[]): ScoreRollup[] => {
+  const rollups = new Map<string, ScoreRollup>();
+  for (const point of points) {
+    for (const period of ROLLUP_PERIODS) {
+      const id = rollupId(point.politicianId, period, bucketFor(point.timeMs, period));
+      rollups.set(id, applyPointToRollup(rollups.get(id), point, period));
+    }
+  }
+  return [...rollups.values()];
+};
+
+/** Represent rollups as history items (closing score per bucket) for charting and metrics. */
+export const rollupsToHistory = (rollups: ScoreRollup[]): HistoryItem[] =>
+  [...rollups]
+    .sort((a, b) => a.bucket.localeCompare(b.bucket))
+    .map((r) => ({
+      time: r.bucket,
+      score: r.close,
+      reason: `${r.eventCount} event${r.eventCount === 1 ? '' : 's'} (high ${r.high}, low ${r.low})`,
+    }));
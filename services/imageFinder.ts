@@ -1,5 +1,6 @@
 
 import { Politician } from '../types';
+import { logger } from './logger';
 
 /**
  * Finds a high-quality image for a politician using public Wikipedia APIs.
@@ -24,7 +25,7 @@ export const findPoliticianImage = async (name: string): Promise<string | null>
 
         return null;
     } catch (e) {
-        console.warn(`[ImageFinder] Failed to find image for ${name}:`, e);
+        logger.warn(`[ImageFinder] Failed to find image for ${name}:`, e);
         return null;
     }
 };
@@ -0,0 +1,185 @@
+import { NewsEvent } from '../types';
+import { ingestionOrchestrator, IngestionSettings, IngestionUpdate } from './ingestionOrchestrator';
+import {
+  applyRelay,
+  IngestionCommand,
+  IngestionMessage,
+  IngestionOptions,
+  IngestionSnapshot,
+  PERIODIC_SYNC_TAG,
+  relayUsageAndHealth,
+} from './ingestionProtocol';
+import { DEFAULT_FETCH_SCHEDULE } from './database';
+import serviceWorkerUrl from './ingestionServiceWorker.ts?worker&url';
+import { logger } from './logger';
+
+/**
+ * Ingestion Client
+ * The page's handle on ingestion. The orchestrator runs in a dedicated worker so fetching,
+ * analysis and IndexedDB writes don't stall the dashboard; this mirrors its surface over
+ * the message protocol and keeps the latest queue snapshot for synchronous reads. Where
+ * workers aren't available it drives the orchestrator on this thread instead.
+ */
+
+// Browsers clamp this to their own minimum; Chromium allows about one sync per twelve hours
+const PERIODIC_SYNC_MIN_INTERVAL_MS = 60 * 60 * 1000;
+
+// Periodic Background Sync isn't in the DOM lib yet; just what this file uses
+interface PeriodicSyncManager {
+  register(tag: string, options: { minInterval: number }): Promise<void>;
+  unregister(tag: string): Promise<void>;
+}
+interface PeriodicSyncRegistration extends ServiceWorkerRegistration {
+  periodicSync?: PeriodicSyncManager;
+}
+
+const EMPTY_SNAPSHOT: IngestionSnapshot = { jobs: [], schedule: DEFAULT_FETCH_SCHEDULE, running: false, pollsLastHour: 0 };
+
+const createWorker = (): Worker | null => {
+  if (typeof Worker === 'undefined') return null;
+  try {
+    return new Worker(new URL('./ingestionWorker.ts', import.meta.url), { type: 'module' });
+  } catch (e) {
+    logger.warn('[Ingestion] Worker unavailable, ingesting on the main thread:', e);
+    return null;
+  }
+};
+
+class IngestionClient {
+  private worker: Worker | null = null;
+  private started = false;
+  private snapshotCache: IngestionSnapshot = EMPTY_SNAPSHOT;
+  private listeners = new Set<(update: IngestionUpdate) => void>();
+  private nextRequestId = 0;
+  private pendingRefreshes = new Map<number, (events: NewsEvent[]) => void>();
+
+  /** Create the worker on first use, so importing this module has no side effects. */
+  private connect(): void {
+    if (this.started) return;
+    this.started = true;
+    this.worker = createWorker();
+    if (!this.worker) {
+      ingestionOrchestrator.subscribe((update) => this.notify(update));
+      return;
+    }
+    this.worker.onmessage = (e: MessageEvent<IngestionMessage>) => this.handleMessage(e.data);
+    this.worker.onerror = (e) => logger.error('[Ingestion] Worker error:', e.message);
+    relayUsageAndHealth((relay) => this.worker?.postMessage(relay));
+  }
+
+  private handleMessage(message: IngestionMessage): void {
+    switch (message.type) {
+      case 'usage':
+      case 'health':
+        applyRelay(message);
+        break;
+      case 'event':
+        this.notify({ type: 'event', event: message.event });
+        break;
+      case 'snapshot':
+        this.snapshotCache = message.snapshot;
+        this.notify({ type: 'queue' });
+        break;
+      case 'refreshed':
+        this.pendingRefreshes.get(message.requestId)?.(message.events);
+        this.pendingRefreshes.delete(message.requestId);
+        break;
+    }
+  }
+
+  private send(command: IngestionCommand): void {
+    this.connect();
+    this.worker?.postMessage(command);
+  }
+
+  private notify(update: IngestionUpdate): void {
+    this.listeners.forEach((listener) => listener(update));
+  }
+
+  /**
+   * Settings for the orchestrator. On this thread, the budgets and prompt overrides in
+   * `options` are already applied by the app; a worker has its own copies to update.
+   */
+  configure(settings: IngestionSettings, options: IngestionOptions): void {
+    this.connect();
+    if (this.worker) this.send({ type: 'configure', settings, options });
+    else ingestionOrchestrator.configure(settings);
+  }
+
+  start(): void {
+    this.connect();
+    if (this.worker) this.send({ type: 'start' });
+    else ingestionOrchestrator.start();
+  }
+
+  stop(): void {
+    if (this.worker) this.send({ type: 'stop' });
+    else ingestionOrchestrator.stop();
+  }
+
+  /** Fetch one politician now; resolves with the new events, which subscribers also receive. */
+  refresh(politicianId: string): Promise<NewsEvent[]> {
+    this.connect();
+    if (!this.worker) return ingestionOrchestrator.refresh(politicianId);
+    const requestId = ++this.nextRequestId;
+    return new Promise((resolve) => {
+      this.pendingRefreshes.set(requestId, resolve);
+      this.send({ type: 'refresh', requestId, politicianId });
+    });
+  }
+
+  retryJob(jobId: string): void {
+    if (this.worker) this.send({ type: 'retry', jobId });
+    else ingestionOrchestrator.retryJob(jobId);
+  }
+
+  snapshot(): IngestionSnapshot {
+    return this.worker ? this.snapshotCache : ingestionOrchestrator.snapshot();
+  }
+
+  /** Called with every new event and every queue change; returns an unsubscribe function. */
+  subscribe(listener: (update: IngestionUpdate) => void): () => void {
+    this.connect();
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Register or remove the service worker that keeps fetching while no tab is open.
+   * Returns false when the browser can't do periodic background sync (it needs an
+   * installed app in a Chromium browser) or refuses permission.
+   */
+  async setBackgroundSync(enabled: boolean): Promise<boolean> {
+    if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return false;
+    try {
+      const existing: PeriodicSyncRegistration | undefined =
+        await navigator.serviceWorker.getRegistration(serviceWorkerUrl);
+      if (!enabled) {
+        await existing?.periodicSync?.unregister(PERIODIC_SYNC_TAG);
+        await existing?.unregister();
+        return true;
+      }
+
+      const registration: PeriodicSyncRegistration =
+        existing ||
+        (await navigator.serviceWorker.register(serviceWorkerUrl, {
+          type: import.meta.env.DEV ? 'module' : 'classic',
+        }));
+      const { periodicSync } = registration;
+      if (!periodicSync) return false;
+      const permission = await navigator.permissions
+        .query({ name: 'periodic-background-sync' as PermissionName })
+        .catch(() => null);
+      if (permission && permission.state !== 'granted') return false;
+      await periodicSync.register(PERIODIC_SYNC_TAG, { minInterval: PERIODIC_SYNC_MIN_INTERVAL_MS });
+      return true;
+    } catch (e) {
+      logger.warn('[Ingestion] Background sync unavailable:', e);
+      return false;
+    }
+  }
+}
+
+export const ingestionClient = new IngestionClient();
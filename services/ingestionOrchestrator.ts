@@ -0,0 +1,301 @@
+import { Politician, NewsEvent, Source, AIProviderConfig, FetchJob } from '../types';
+import { database, FetchSchedule } from './database';
+import { getProvider } from './aiProvider';
+import { fetchRealNewsEvents, buildNewsEvent, DEDUP_WINDOW_MS } from './realTimeNewsFetcher';
+import { cadencePlanner, VELOCITY_WINDOW_MS } from './cadencePlanner';
+import type { IngestionSnapshot } from './ingestionProtocol';
+import { logger } from './logger';
+
+/**
+ * Ingestion Orchestrator
+ * The one place news gets fetched. Each politician's fetch is a job in a queue persisted
+ * through the database, with its own status, attempt count, next-run time and last error.
+ * Every scan interval the orchestrator runs at most one job: new or interrupted jobs first,
+ * then failed jobs whose backoff has passed, then whoever the cadence planner says is most
+ * overdue. New events are stored and announced through `subscribe`; the UI only observes.
+ */
+
+export interface IngestionSettings {
+  politicians: Politician[];
+  sources: Source[];
+  aiProviderConfig: AIProviderConfig;
+  /** Time between fetches, ms */
+  scanInterval: number;
+}
+
+export type IngestionUpdate =
+  | { type: 'event'; event: NewsEvent }
+  /** A job, the schedule or the running state changed */
+  | { type: 'queue' };
+
+const RETRY_BASE_MS = 2 * 60 * 1000;
+const MAX_BACKOFF_MS = 6 * 60 * 60 * 1000;
+
+/** Wait before retrying a job that has failed `attempts` times in a row. */
+export const backoffDelay = (attempts: number): number =>
+  Math.min(MAX_BACKOFF_MS, RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1));
+
+class IngestionOrchestrator {
+  private settings: IngestionSettings | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private timerInterval = 0;
+  private isRunning = false;
+  private restored = false;
+  // Jobs run one at a time; a manual refresh waits for the job in flight
+  private inFlight: Promise<unknown> = Promise.resolve();
+  private busy = false;
+  private listeners = new Set<(update: IngestionUpdate) => void>();
+
+  /** Called whenever the roster, sources, provider settings or scan interval change. */
+  configure(settings: IngestionSettings): void {
+    this.settings = settings;
+    if (this.restored) this.syncJobs();
+    if (this.isRunning && settings.scanInterval !== this.timerInterval) this.startTimer();
+  }
+
+  start(): void {
+    if (this.isRunning) return;
+    this.isRunning = true;
+    logger.info('[Ingestion] Started');
+    this.startTimer();
+    this.notify({ type: 'queue' });
+  }
+
+  /** The job in flight finishes; the rest stay queued for the next start. */
+  stop(): void {
+    if (!this.isRunning) return;
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.isRunning = false;
+    logger.info('[Ingestion] Stopped');
+    this.notify({ type: 'queue' });
+  }
+
+  running(): boolean {
+    return this.isRunning;
+  }
+
+  /** Called with every new event and every queue change; returns an unsubscribe function. */
+  subscribe(listener: (update: IngestionUpdate) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(update: IngestionUpdate): void {
+    this.listeners.forEach((listener) => listener(update));
+  }
+
+  private startTimer(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timerInterval = this.settings?.scanInterval || 15000;
+    this.timer = setInterval(() => this.tick(), this.timerInterval);
+  }
+
+  // ─── Queue ───
+
+  getJobs(): FetchJob[] {
+    return database.getFetchJobs();
+  }
+
+  getSchedule(): FetchSchedule {
+    return database.getFetchSchedule();
+  }
+
+  snapshot(): IngestionSnapshot {
+    return {
+      jobs: this.getJobs(),
+      schedule: this.getSchedule(),
+      running: this.isRunning,
+      pollsLastHour: cadencePlanner.pollsLastHour(),
+    };
+  }
+
+  private saveJob(job: FetchJob): FetchJob {
+    database.putFetchJobs([job]);
+    this.notify({ type: 'queue' });
+    return job;
+  }
+
+  /**
+   * Jobs are loaded with the rest of the database. A job left running was cut off by a
+   * reload and goes back in the queue; the planner learns when everyone was last fetched.
+   */
+  private async restore(): Promise<void> {
+    await database.waitForReady();
+    if (this.restored) return;
+    this.restored = true;
+    const jobs = database.getFetchJobs();
+    const interrupted = jobs
+      .filter((j) => j.status === 'running')
+      .map((j) => ({ ...j, status: 'pending' as const, nextRunAt: Date.now() }));
+    if (interrupted.length > 0) database.putFetchJobs(interrupted);
+    jobs.forEach((j) => j.lastRunAt && cadencePlanner.restore(j.politicianId, j.lastRunAt));
+    this.syncJobs();
+  }
+
+  /** One job per tracked politician: add jobs for new ones, drop the jobs of removed ones. */
+  private syncJobs(): void {
+    const politicians = this.settings?.politicians || [];
+    const jobs = new Map(database.getFetchJobs().map((j) => [j.id, j]));
+    const tracked = new Set(politicians.map((p) => p.id));
+    const stale = [...jobs.keys()].filter((id) => !tracked.has(id));
+    const added: FetchJob[] = politicians
+      .filter((p) => !jobs.has(p.id))
+      .map((p) => ({
+        id: p.id,
+        politicianId: p.id,
+        politicianName: p.name,
+        status: 'pending',
+        attempts: 0,
+        nextRunAt: Date.now(),
+      }));
+    if (stale.length > 0) database.removeFetchJobs(stale);
+    if (added.length > 0) database.putFetchJobs(added);
+    if (stale.length > 0 || added.length > 0) this.notify({ type: 'queue' });
+  }
+
+  /** Put a failed job back at the front of the queue, ignoring its backoff. */
+  retryJob(id: string): void {
+    const job = database.getFetchJobs().find((j) => j.id === id);
+    if (!job || job.status === 'running') return;
+    this.saveJob({ ...job, status: 'pending', nextRunAt: Date.now() });
+  }
+
+  /** The job this tick should run, or null when nothing is due or the fetch budget is spent. */
+  private async nextJob(now: number): Promise<FetchJob | null> {
+    if (!cadencePlanner.allows(now)) return null;
+    const jobs = database.getFetchJobs();
+    const waiting = jobs.find((j) => j.status === 'pending');
+    if (waiting) return waiting;
+    const retry = jobs.find((j) => j.status === 'failed' && j.nextRunAt <= now);
+    if (retry) return retry;
+
+    const { politicians = [], scanInterval = 15000 } = this.settings || {};
+    const backingOff = new Set(jobs.filter((j) => j.status === 'failed').map((j) => j.politicianId));
+    // Each candidate's turn comes round as often as their news velocity warrants; on
+    // average everyone gets one turn per roster-size scans
+    const target = cadencePlanner.next(
+      politicians.filter((p) => !backingOff.has(p.id)),
+      await database.getFeedSince(new Date(now - VELOCITY_WINDOW_MS)),
+      scanInterval * politicians.length
+    );
+    return target ? jobs.find((j) => j.politicianId === target.id) || null : null;
+  }
+
+  private async tick(): Promise<void> {
+    if (this.busy || !this.settings) return;
+    await this.restore();
+    const job = await this.nextJob(Date.now());
+    if (!job) return;
+    await this.enqueue(() => this.runJob(job.id, 'live-feed'));
+  }
+
+  /**
+   * Run up to `maxJobs` due jobs back to back, without the timer; for the service worker's
+   * periodic sync. Returns how many ran.
+   */
+  async runDue(maxJobs: number): Promise<number> {
+    await this.restore();
+    let ran = 0;
+    for (; ran < maxJobs; ran++) {
+      const job = await this.nextJob(Date.now());
+      if (!job) break;
+      await this.enqueue(() => this.runJob(job.id, 'live-feed'));
+    }
+    return ran;
+  }
+
+  private enqueue<T>(work: () => Promise<T>): Promise<T> {
+    const result = this.inFlight.then(async () => {
+      this.busy = true;
+      try {
+        return await work();
+      } finally {
+        this.busy = false;
+      }
+    });
+    this.inFlight = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Fetch one politician now, whatever the plan says, after any job in flight. The fetch
+   * budget doesn't apply, but the fetch counts against it. Returns the new events.
+   */
+  async refresh(politicianId: string): Promise<NewsEvent[]> {
+    await this.restore();
+    return this.enqueue(() => this.runJob(politicianId, 'candidate-refresh'));
+  }
+
+  private async runJob(id: string, feature: 'live-feed' | 'candidate-refresh'): Promise<NewsEvent[]> {
+    const settings = this.settings;
+    const queued = database.getFetchJobs().find((j) => j.id === id);
+    const politician = settings?.politicians.find((p) => p.id === id);
+    if (!settings || !queued || !politician) return [];
+
+    const startedAt = Date.now();
+    cadencePlanner.recordPoll(politician.id, startedAt);
+    const job = this.saveJob({ ...queued, politicianName: politician.name, status: 'running', lastRunAt: startedAt });
+    const provider = getProvider(settings.aiProviderConfig, feature);
+
+    try {
+      const batch = await fetchRealNewsEvents(
+        politician,
+        settings.sources,
+        provider,
+        await database.getFeedSince(new Date(startedAt - DEDUP_WINDOW_MS), politician.id),
+        settings.politicians
+      );
+
+      const events = batch.events
+        .filter((data) => data.headline)
+        .map((data) =>
+          buildNewsEvent(politician.id, data, `${settings.aiProviderConfig.provider}-live`, provider.name)
+        );
+      for (const event of events) {
+        database.addFeedEvent(event);
+        this.notify({ type: 'event', event });
+      }
+      if (events.length > 0) logger.info(`[Ingestion] ${events.length} new event(s) for ${politician.name}`);
+
+      const schedule = database.getFetchSchedule();
+      database.updateFetchSchedule({
+        lastFetchTime: new Date(startedAt).toISOString(),
+        fetchCount: schedule.fetchCount + 1,
+        lastCycleStats: batch.stats,
+      });
+      this.saveJob({
+        ...job,
+        status: 'succeeded',
+        attempts: 0,
+        lastError: undefined,
+        lastEventCount: events.length,
+        nextRunAt:
+          startedAt +
+          cadencePlanner.intervalFor(
+            politician.id,
+            settings.politicians,
+            await database.getFeedSince(new Date(startedAt - VELOCITY_WINDOW_MS)),
+            settings.scanInterval * settings.politicians.length
+          ),
+      });
+      return events;
+    } catch (error: unknown) {
+      logger.error(`[Ingestion] Fetch failed for ${politician.name}:`, error);
+      const attempts = job.attempts + 1;
+      this.saveJob({
+        ...job,
+        status: 'failed',
+        attempts,
+        lastError: error instanceof Error ? error.message : String(error),
+        nextRunAt: Date.now() + backoffDelay(attempts),
+      });
+      return [];
+    }
+  }
+}
+
+export const ingestionOrchestrator = new IngestionOrchestrator();
+export default ingestionOrchestrator;
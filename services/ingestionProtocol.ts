@@ -0,0 +1,67 @@
+import { AIBudget, AIUsageRecord, FetchJob, NewsEvent, PromptOverrides } from '../types';
+import { FetchSchedule } from './database';
+import { IngestionSettings } from './ingestionOrchestrator';
+import { usageMeter } from './usageMeter';
+import { HealthEvent, providerHealth } from './providerChain';
+
+/**
+ * Ingestion Worker Protocol
+ * Messages between the UI thread and the worker that runs the ingestion orchestrator.
+ * Settings the worker's own module singletons need (budgets, prompt overrides) travel with
+ * every `configure`, since the worker doesn't share them with the page. AI usage and
+ * provider outcomes go both ways, so budgets and provider health cover both contexts.
+ */
+
+export interface IngestionOptions {
+  aiBudget: AIBudget;
+  promptOverrides: PromptOverrides;
+  fetchBudgetPerHour: number;
+}
+
+/** Everything the fetch queue view shows */
+export interface IngestionSnapshot {
+  jobs: FetchJob[];
+  schedule: FetchSchedule;
+  running: boolean;
+  pollsLastHour: number;
+}
+
+/** Either direction: what one context's meter and health tracker recorded */
+export type IngestionRelay =
+  | { type: 'usage'; entry: AIUsageRecord }
+  | { type: 'health'; event: HealthEvent };
+
+/** UI → worker */
+export type IngestionCommand =
+  | IngestionRelay
+  | { type: 'configure'; settings: IngestionSettings; options: IngestionOptions }
+  | { type: 'start' }
+  | { type: 'stop' }
+  | { type: 'refresh'; requestId: number; politicianId: string }
+  | { type: 'retry'; jobId: string };
+
+/** Worker → UI */
+export type IngestionMessage =
+  | IngestionRelay
+  | { type: 'event'; event: NewsEvent }
+  | { type: 'snapshot'; snapshot: IngestionSnapshot }
+  | { type: 'refreshed'; requestId: number; events: NewsEvent[] };
+
+/** Tag of the periodic background sync the service worker mode registers */
+export const PERIODIC_SYNC_TAG = 'polimetric-ingest';
+
+/** Pass this context's AI usage and provider outcomes to `post`; returns an unsubscribe function. */
+export const relayUsageAndHealth = (post: (relay: IngestionRelay) => void): (() => void) => {
+  const offUsage = usageMeter.onRecorded((entry) => post({ type: 'usage', entry }));
+  const offHealth = providerHealth.onRecorded((event) => post({ type: 'health', event }));
+  return () => {
+    offUsage();
+    offHealth();
+  };
+};
+
+/** Apply what the other context relayed. */
+export const applyRelay = (relay: IngestionRelay): void => {
+  if (relay.type === 'usage') usageMeter.applyRelayed(relay.entry);
+  else providerHealth.applyRelayed(relay.event);
+};
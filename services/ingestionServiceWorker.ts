@@ -0,0 +1,67 @@
+import { database } from './database';
+import { ingestionOrchestrator } from './ingestionOrchestrator';
+import { PERIODIC_SYNC_TAG } from './ingestionProtocol';
+import { usageMeter } from './usageMeter';
+import { promptRegistry } from './promptTemplates';
+import { cadencePlanner } from './cadencePlanner';
+import { logger } from './logger';
+
+/**
+ * Ingestion Service Worker
+ * Optional background mode. On each periodic background sync the browser grants, it loads
+ * the roster and settings from IndexedDB and runs a few due fetch jobs, so the feed keeps
+ * filling while no tab is open. An open tab's own worker already does this, so the sync
+ * stands down while one exists; the next tab to open loads the new events from the database.
+ */
+
+// Jobs per sync; browsers give a sync event limited time
+const JOBS_PER_SYNC = 5;
+
+// The DOM lib has no service worker types; just what this file uses
+interface SyncEvent extends Event {
+  tag: string;
+  waitUntil(work: Promise<unknown>): void;
+}
+interface ServiceWorkerScope {
+  addEventListener(type: 'periodicsync', listener: (event: SyncEvent) => void): void;
+  addEventListener(type: 'install' | 'activate', listener: (event: SyncEvent) => void): void;
+  skipWaiting(): Promise<void>;
+  clients: {
+    matchAll(options: { type: 'window'; includeUncontrolled: boolean }): Promise<unknown[]>;
+    claim(): Promise<void>;
+  };
+}
+
+const sw = self as unknown as ServiceWorkerScope;
+
+const syncOnce = async (): Promise<void> => {
+  // Registered from the assets directory, so no tab is in scope; count uncontrolled ones too
+  if ((await sw.clients.matchAll({ type: 'window', includeUncontrolled: true })).length > 0) return;
+
+  await database.waitForReady();
+  const config = database.getConfig();
+  usageMeter.setBudget(config.aiBudget);
+  promptRegistry.setOverrides(config.promptOverrides);
+  cadencePlanner.setBudget(config.fetchBudgetPerHour);
+  ingestionOrchestrator.configure({
+    politicians: database.getPoliticians(),
+    sources: database.getSources(),
+    aiProviderConfig: config.aiProviderConfig,
+    scanInterval: config.scanInterval,
+  });
+
+  const ran = await ingestionOrchestrator.runDue(JOBS_PER_SYNC);
+  logger.info(`[IngestionSW] Periodic sync ran ${ran} job(s)`);
+};
+
+sw.addEventListener('install', () => {
+  sw.skipWaiting();
+});
+
+sw.addEventListener('activate', (event) => {
+  event.waitUntil(sw.clients.claim());
+});
+
+sw.addEventListener('periodicsync', (event) => {
+  if (event.tag === PERIODIC_SYNC_TAG) event.waitUntil(syncOnce());
+});
@@ -0,0 +1,51 @@
+import { ingestionOrchestrator } from './ingestionOrchestrator';
+import { applyRelay, IngestionCommand, IngestionMessage, relayUsageAndHealth } from './ingestionProtocol';
+import { usageMeter } from './usageMeter';
+import { promptRegistry } from './promptTemplates';
+import { cadencePlanner } from './cadencePlanner';
+
+/**
+ * Ingestion Worker
+ * Dedicated worker entry point. Runs the orchestrator, and with it the fetchers, AI calls
+ * and IndexedDB writes, off the UI thread; the page talks to it through `ingestionClient`.
+ */
+
+const post = (message: IngestionMessage) => self.postMessage(message);
+
+ingestionOrchestrator.subscribe((update) => {
+  if (update.type === 'event') post({ type: 'event', event: update.event });
+  else post({ type: 'snapshot', snapshot: ingestionOrchestrator.snapshot() });
+});
+
+relayUsageAndHealth(post);
+
+self.onmessage = async (e: MessageEvent<IngestionCommand>) => {
+  const command = e.data;
+  switch (command.type) {
+    case 'usage':
+    case 'health':
+      applyRelay(command);
+      break;
+    case 'configure':
+      usageMeter.setBudget(command.options.aiBudget);
+      promptRegistry.setOverrides(command.options.promptOverrides);
+      cadencePlanner.setBudget(command.options.fetchBudgetPerHour);
+      ingestionOrchestrator.configure(command.settings);
+      post({ type: 'snapshot', snapshot: ingestionOrchestrator.snapshot() });
+      break;
+    case 'start':
+      ingestionOrchestrator.start();
+      break;
+    case 'stop':
+      ingestionOrchestrator.stop();
+      break;
+    case 'retry':
+      ingestionOrchestrator.retryJob(command.jobId);
+      break;
+    case 'refresh': {
+      const events = await ingestionOrchestrator.refresh(command.politicianId);
+      post({ type: 'refreshed', requestId: command.requestId, events });
+      break;
+    }
+  }
+};
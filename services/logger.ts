@@ -0,0 +1,51 @@
+/**
+ * Service Logger
+ * Services log through here rather than straight to the console, so a host can redirect or
+ * quieten their logging without touching the console itself. The app keeps the console; the
+ * CLI sends everything to stderr and shows only errors with `--quiet`.
+ */
+
+export type LogLevel = 'info' | 'warn' | 'error';
+
+export type LogSink = (level: LogLevel, args: unknown[]) => void;
+
+const LEVEL_RANK: Record<LogLevel, number> = { info: 0, warn: 1, error: 2 };
+
+const consoleSink: LogSink = (level, args) => {
+  if (level === 'error') console.error(...args);
+  else if (level === 'warn') console.warn(...args);
+  else console.log(...args);
+};
+
+class Logger {
+  private sink: LogSink = consoleSink;
+  private minLevel: LogLevel = 'info';
+
+  /** Where log lines go; the console by default. */
+  setSink(sink: LogSink): void {
+    this.sink = sink;
+  }
+
+  /** Drop anything less severe than `level`. */
+  setLevel(level: LogLevel): void {
+    this.minLevel = level;
+  }
+
+  info(...args: unknown[]): void {
+    this.write('info', args);
+  }
+
+  warn(...args: unknown[]): void {
+    this.write('warn', args);
+  }
+
+  error(...args: unknown[]): void {
+    this.write('error', args);
+  }
+
+  private write(level: LogLevel, args: unknown[]): void {
+    if (LEVEL_RANK[level] >= LEVEL_RANK[this.minLevel]) this.sink(level, args);
+  }
+}
+
+export const logger = new Logger();
@@ -0,0 +1,156 @@
+import { SentimentType } from '../types';
+import { withConfigDefaults } from './configDefaults';
+import { eventProvenance } from './eventProvenance';
+import { buildRollups, toScorePoint, ScorePoint } from './historyRollups';
+import { logger } from './logger';
+
+/**
+ * Schema Migrations
+ * Each migration upgrades a whole data snapshot (the shape produced by exportData) from
+ * `version - 1` to `version`. The same registry runs over data loaded from IndexedDB, the
+ * legacy `polimetric_db` localStorage blob and imported exports. Snapshots carry score
+ * history and rollups alongside the entities; the database keeps those in their own stores.
+ *
+ * To change the shape of Politician or NewsEvent, append a migration here — never edit one
+ * that has already shipped. New config settings don't need one: every run fills the config
+ * from `withConfigDefaults`, whatever version the data came from.
+ */
+
+export type DataSnapshot = Record<string, any>;
+
+export interface Migration {
+  version: number;
+  description: string;
+  migrate: (data: DataSnapshot) => DataSnapshot;
+}
+
+export interface MigrationResult {
+  data: DataSnapshot;
+  fromVersion: number;
+  toVersion: number;
+  applied: number[];
+}
+
+const SENTIMENTS: SentimentType[] = ['positive', 'negative', 'neutral'];
+
+const toNumber = (value: unknown, fallback: number): number => {
+  const n = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(n) ? n : fallback;
+};
+
+const asArray = (value: unknown): any[] => (Array.isArray(value) ? value : []);
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Normalize politicians and feed events written before records were validated',
+    migrate: (data) => ({
+      ...data,
+      politicians: asArray(data.politicians)
+        .filter((p) => p && p.id !== undefined)
+        .map((p) => ({
+          ...p,
+          id: String(p.id),
+          score: toNumber(p.score, 100),
+          trend: toNumber(p.trend, 0),
+          history: asArray(p.history).filter((h) => h && typeof h === 'object'),
+        })),
+      feed: asArray(data.feed)
+        .filter((e) => e && e.id !== undefined && e.politicianId !== undefined)
+        .map((e) => ({
+          ...e,
+          id: toNumber(e.id, Date.now()),
+          politicianId: String(e.politicianId),
+          sourceName: e.sourceName || 'Unknown',
+          sentiment: SENTIMENTS.includes(e.sentiment) ? e.sentiment : 'neutral',
+          impact: Math.abs(toNumber(e.impact, 0.5)),
+        })),
+    }),
+  },
+  {
+    version: 2,
+    description: 'Give every feed event a mentions list, starting from its single politician',
+    migrate: (data) => ({
+      ...data,
+      feed: asArray(data.feed).map((e) =>
+        Array.isArray(e.mentions) && e.mentions.length
+          ? e
+          : {
+              ...e,
+              mentions: [
+                {
+                  politicianId: e.politicianId,
+                  sentiment: e.sentiment,
+                  impact: e.impact,
+                  ...(e.stance ? { stance: e.stance } : {}),
+                },
+              ],
+            }
+      ),
+    }),
+  },
+  {
+    version: 3,
+    description: 'Tag feed events with their provenance',
+    migrate: (data) => ({
+      ...data,
+      feed: asArray(data.feed).map((e) => (e.provenance ? e : { ...e, provenance: eventProvenance(e) })),
+    }),
+  },
+  {
+    version: 4,
+    description: 'Carry score history and rollups, rebuilding them from politician history when missing',
+    migrate: (data) => {
+      if (Array.isArray(data.scoreHistory)) {
+        const scoreHistory = data.scoreHistory.filter((p) => p && p.id && p.politicianId && Number.isFinite(p.timeMs));
+        return {
+          ...data,
+          scoreHistory,
+          scoreRollups: Array.isArray(data.scoreRollups) ? data.scoreRollups : buildRollups(scoreHistory),
+        };
+      }
+      const points = asArray(data.politicians)
+        .flatMap((p) => asArray(p.history).map((item) => toScorePoint(p.id, item)))
+        .filter((p): p is ScorePoint => p !== null);
+      // A politician's history can repeat an item; its point is only stored once
+      const scoreHistory = [...new Map(points.map((p) => [p.id, p])).values()];
+      return { ...data, scoreHistory, scoreRollups: buildRollups(scoreHistory) };
+    },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/** Data written before versioning has no `schemaVersion` and is treated as version 0. */
+export const detectSchemaVersion = (data: DataSnapshot): number =>
+  typeof data?.schemaVersion === 'number' ? data.schemaVersion : 0;
+
+/**
+ * Apply every migration newer than `fromVersion`, in order. Data from a newer build is
+ * returned untouched rather than downgraded.
+ */
+export const runMigrations = (data: DataSnapshot, fromVersion = detectSchemaVersion(data)): MigrationResult => {
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    logger.warn(`[Migrations] Data is schema v${fromVersion}, newer than supported v${CURRENT_SCHEMA_VERSION}`);
+    return { data, fromVersion, toVersion: fromVersion, applied: [] };
+  }
+
+  let current = data;
+  const applied: number[] = [];
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= fromVersion) continue;
+    current = migration.migrate(current);
+    applied.push(migration.version);
+    logger.info(`[Migrations] Applied v${migration.version}: ${migration.description}`);
+  }
+
+  if (current.config) current = { ...current, config: withConfigDefaults(current.config) };
+
+  return {
+    data: { ...current, schemaVersion: CURRENT_SCHEMA_VERSION },
+    fromVersion,
+    toVersion: CURRENT_SCHEMA_VERSION,
+    applied,
+  };
+};
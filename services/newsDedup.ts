@@ -0,0 +1,50 @@
+import { NewsEvent } from '../types';
+
+/**
+ * News Deduplication
+ * The same article reaches us from several channels (outlet feeds, search APIs, syndication),
+ * often with tracking parameters or slightly different punctuation. An item is a duplicate
+ * if its normalized URL or normalized headline has been seen before.
+ */
+
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|ref|src|cmp|ocid)$/i;
+
+export const normalizeHeadline = (headline: string): string =>
+  headline.toLowerCase().replace(/[^a-z0-9\s]/g, '').replace(/\s+/g, ' ').trim();
+
+/** Scheme, `www.`, fragment, tracking params and trailing slashes don't make a new article. */
+export const normalizeUrl = (url: string): string => {
+  try {
+    const parsed = new URL(url.trim());
+    const params = [...parsed.searchParams.entries()]
+      .filter(([key]) => !TRACKING_PARAMS.test(key))
+      .sort(([a], [b]) => a.localeCompare(b));
+    const query = params.length ? '?' + new URLSearchParams(params).toString() : '';
+    const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+    return `${host}${parsed.pathname.replace(/\/+$/, '')}${query}`;
+  } catch {
+    return url.trim().toLowerCase();
+  }
+};
+
+/** Set of URLs and headlines already covered, grown as new items are accepted. */
+export class FeedIndex {
+  private urls = new Set<string>();
+  private headlines = new Set<string>();
+
+  constructor(events: Pick<NewsEvent, 'headline' | 'url'>[] = []) {
+    events.forEach((e) => this.add(e.headline, e.url));
+  }
+
+  has(headline: string, url?: string): boolean {
+    if (url && this.urls.has(normalizeUrl(url))) return true;
+    const key = normalizeHeadline(headline);
+    return key !== '' && this.headlines.has(key);
+  }
+
+  add(headline: string, url?: string): void {
+    if (url) this.urls.add(normalizeUrl(url));
+    const key = normalizeHeadline(headline);
+    if (key) this.headlines.add(key);
+  }
+}
@@ -0,0 +1,134 @@
+import { Politician, PromptEvalCase, SentimentType } from '../types';
+import { INITIAL_POLITICIANS, PROMPT_EVAL_GOLD_SET } from '../constants';
+import { AIProvider, parseJSON } from './aiProvider';
+import { articleAnalysisVars, coerceArticleAnalysis, SENTIMENTS } from './articleAnalysis';
+import { PromptTemplate, fillTemplate } from './promptTemplates';
+import { logger } from './logger';
+
+/**
+ * Prompt Evaluation
+ * Offline A/B harness for the `article-analysis` prompt: runs two template versions over the
+ * same hand-labelled articles through one provider and scores each against the gold
+ * sentiment. Both variants see every case in the same order, so the comparison is paired and
+ * the disagreements show exactly where the versions differ.
+ */
+
+export interface PromptCaseResult {
+  caseId: string;
+  title: string;
+  expected: SentimentType;
+  /** null when the provider gave no usable answer */
+  predicted: SentimentType | null;
+  correct: boolean;
+}
+
+export interface PromptVariantResult {
+  label: string;
+  version: number;
+  accuracy: number;
+  answered: number;
+  /** confusion[expected][predicted]; unanswered cases are counted under 'none' */
+  confusion: Record<SentimentType, Record<SentimentType | 'none', number>>;
+  cases: PromptCaseResult[];
+}
+
+export interface PromptComparison {
+  a: PromptVariantResult;
+  b: PromptVariantResult;
+  /** Cases the variants labelled differently */
+  disagreements: string[];
+  /** Of the disagreements, how many each variant got right */
+  aWins: number;
+  bWins: number;
+  aborted: boolean;
+}
+
+export interface PromptEvalOptions {
+  cases?: PromptEvalCase[];
+  politicians?: Politician[];
+  onProgress?: (done: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+const emptyConfusion = (): PromptVariantResult['confusion'] => {
+  const row = () => ({ positive: 0, negative: 0, neutral: 0, none: 0 });
+  return { positive: row(), negative: row(), neutral: row() };
+};
+
+const summarize = (label: string, template: PromptTemplate, cases: PromptCaseResult[]): PromptVariantResult => {
+  const confusion = emptyConfusion();
+  cases.forEach((c) => confusion[c.expected][c.predicted || 'none']++);
+  const correct = cases.filter((c) => c.correct).length;
+  return {
+    label,
+    version: template.version,
+    accuracy: cases.length ? correct / cases.length : 0,
+    answered: cases.filter((c) => c.predicted).length,
+    confusion,
+    cases,
+  };
+};
+
+/** The sentiment `provider` gives for one case under `template`. */
+const classify = async (
+  provider: AIProvider,
+  template: PromptTemplate,
+  politician: Politician,
+  testCase: PromptEvalCase
+): Promise<SentimentType | null> => {
+  const text = await provider.chat(fillTemplate(template.template, articleAnalysisVars(politician, testCase.item)));
+  if (!text) return null;
+  const data = parseJSON(text);
+  // coerceArticleAnalysis defaults unknown labels to neutral, which would hide bad output
+  if (!SENTIMENTS.includes(String(data?.sentiment).toLowerCase().trim() as SentimentType)) return null;
+  return coerceArticleAnalysis(data)?.sentiment ?? null;
+};
+
+/**
+ * Label every gold case with both templates and compare them. Cases whose politician isn't
+ * in `politicians` are skipped.
+ */
+export async function comparePromptVersions(
+  provider: AIProvider,
+  a: PromptTemplate,
+  b: PromptTemplate,
+  options: PromptEvalOptions = {}
+): Promise<PromptComparison> {
+  const { cases = PROMPT_EVAL_GOLD_SET, politicians = INITIAL_POLITICIANS, onProgress, signal } = options;
+  const byId = new Map(politicians.map((p) => [p.id, p]));
+  const runnable = cases.filter((c) => byId.has(c.politicianId));
+  const results: { a: PromptCaseResult[]; b: PromptCaseResult[] } = { a: [], b: [] };
+
+  logger.info(`[PromptEval] ${runnable.length} cases: v${a.version} vs v${b.version} on ${provider.name}`);
+
+  for (let i = 0; i < runnable.length && !signal?.aborted; i++) {
+    const testCase = runnable[i];
+    const politician = byId.get(testCase.politicianId)!;
+    for (const [key, template] of [['a', a], ['b', b]] as const) {
+      const predicted = await classify(provider, template, politician, testCase);
+      results[key].push({
+        caseId: testCase.id,
+        title: testCase.item.title,
+        expected: testCase.sentiment,
+        predicted,
+        correct: predicted === testCase.sentiment,
+      });
+    }
+    onProgress?.(i + 1, runnable.length);
+  }
+
+  const disagreements = results.a
+    .filter((r, i) => r.predicted !== results.b[i].predicted)
+    .map((r) => r.caseId);
+  const winsFor = (own: PromptCaseResult[]) =>
+    own.filter((r) => r.correct && disagreements.includes(r.caseId)).length;
+
+  return {
+    a: summarize('A', a, results.a),
+    b: summarize('B', b, results.b),
+    disagreements,
+    aWins: winsFor(results.a),
+    bWins: winsFor(results.b),
+    aborted: !!signal?.aborted,
+  };
+}
@@ -0,0 +1,357 @@
+import { Politician, PromptId, PromptOverrides } from '../types';
+import { hashPrompt } from './responseCache';
+
+/**
+ * Prompt Templates
+ * Every prompt the app sends, in one versioned library shared by all providers. Templates are
+ * plain text with `{{variable}}` placeholders. A prompt is never edited in place: a change is
+ * a new version, which becomes the default and can be compared against the old one with the
+ * evaluation harness. Settings can pin any prompt to an older version or replace it with
+ * custom text. Search-capable backends (Gemini) use the `-search` variants; the others
+ * answer from what the model knows and use `-recall`.
+ */
+
+export interface PromptTemplate {
+  id: PromptId;
+  /** 0 for custom text from settings */
+  version: number;
+  description: string;
+  template: string;
+}
+
+export type PromptVars = Record<string, string | number>;
+
+const template = (id: PromptId, version: number, description: string, text: string): PromptTemplate => ({
+  id,
+  version,
+  description,
+  template: text.trim(),
+});
+
+export const PROMPT_LIBRARY: PromptTemplate[] = [
+  template(
+    'event-search',
+    1,
+    'Find one real news event from the last 72 hours with web search',
+    `
+Search for the very latest news (last 24-72 hours only) regarding "{{name}}" who is a Kenyan politician from {{party}}.
+{{background}}
+Focus on the 2027 Kenyan presidential election context.
+Ignore any news older than 72 hours.
+Find a specific, real recent event.
+
+Return a JSON object with:
+1. 'headline': A short summary of the event.
+2. 'sourceName': The name of the publisher.
+3. 'sentiment': 'positive', 'negative', or 'neutral' for the politician.
+4. 'impact': A score 0.1 to 3.0 based on significance.
+5. 'publishedDate': The exact date and time of publication.
+6. 'sourceUrl': The direct link to the article.
+`
+  ),
+
+  template(
+    'event-recall',
+    1,
+    'Recall the latest development the model knows of, without inventing one',
+    `
+Analyze the current political landscape in Kenya for the 2027 presidential election.
+
+Politician: "{{name}}" from party {{party}}, role: {{role}}.
+{{background}}
+
+Report the most recent real political development involving this politician that you know of.
+Do not invent events, outlets, dates or links. Leave "sourceUrl" empty unless you know the exact article URL.
+
+Respond with ONLY this JSON structure:
+{
+  "sourceName": "the outlet that reported it, if known",
+  "headline": "a concise headline summarizing the development",
+  "sentiment": "positive" or "negative" or "neutral",
+  "impact": a number between 0.1 and 3.0,
+  "publishedDate": "YYYY-MM-DD, if known",
+  "sourceUrl": ""
+}
+`
+  ),
+
+  template(
+    'article-analysis',
+    1,
+    "Classify a fetched article's effect on one politician",
+    `
+Classify how this news article affects Kenyan politician "{{name}}" ({{party}}, {{role}}) ahead of the 2027 election.
+Judge only from the text below. If the article barely concerns {{name}}, use "neutral" and a low impact.
+
+Outlet: {{outlet}}
+Title: {{title}}
+Text: {{text}}
+
+Respond with ONLY this JSON:
+{
+  "sentiment": {{sentiments}},
+  "impact": number from {{minImpact}} to {{maxImpact}},
+  "stance": {{stances}},
+  "topic": {{topics}},
+  "rationale": "one sentence"
+}
+`
+  ),
+
+  template(
+    'article-analysis',
+    2,
+    'Politician-centred classification with guidance on rivals, denials and Swahili/Sheng',
+    `
+You are rating one news article for its effect on Kenyan politician "{{name}}" ({{party}}, {{role}}) ahead of the 2027 election.
+
+Rate the article from {{name}}'s point of view, not by the general mood of the story:
+- Bad news about a rival, or a rival's attack that backfires, is not negative for {{name}}.
+- A denial, acquittal or dropped charge is usually positive; an allegation is negative even if unproven.
+- Quotes may be in Swahili or Sheng; judge their meaning, not their tone.
+- If {{name}} is only mentioned in passing, answer "neutral" with an impact near {{minImpact}}.
+
+Outlet: {{outlet}}
+Title: {{title}}
+Text: {{text}}
+
+Respond with ONLY this JSON:
+{
+  "sentiment": {{sentiments}},
+  "impact": number from {{minImpact}} to {{maxImpact}},
+  "stance": {{stances}},
+  "topic": {{topics}},
+  "rationale": "one sentence naming what in the article decided the sentiment"
+}
+`
+  ),
+
+  template(
+    'history-search',
+    1,
+    'Research dated, sourced events over the history window with web search',
+    `
+Research the political performance of "{{name}}" in Kenya over the last {{days}} DAYS (from {{cutoff}} to today).
+Identify 8-12 distinct key events that affected their popularity.
+
+STRICT REQUIREMENTS:
+1. Only include events that happened AFTER {{cutoff}}.
+2. Do NOT include any event older than {{days}} days.
+3. Provide the EXACT DATE (YYYY-MM-DD) for each event.
+4. Provide a VALID SOURCE URL for each event.
+5. Determine sentiment: 'positive', 'negative', or 'neutral' for each event.
+
+Return a JSON object with a "history" array of events with:
+- 'date': exact date (YYYY-MM-DD)
+- 'headline': very short summary
+- 'sentiment': 'positive', 'negative', or 'neutral'
+- 'impact': score impact (-5.0 to +5.0)
+- 'sourceUrl': link to the source
+`
+  ),
+
+  template(
+    'history-recall',
+    1,
+    'List key events over the history window from what the model knows',
+    `
+List 8-12 key political events involving Kenyan politician "{{name}}" ({{party}}) from the last {{days}} days (after {{cutoff}}).
+
+Respond with ONLY this JSON structure:
+{
+  "history": [
+    {
+      "date": "YYYY-MM-DD",
+      "headline": "short event summary",
+      "sentiment": "positive" or "negative" or "neutral",
+      "impact": number from -5.0 to +5.0,
+      "sourceUrl": "https://relevant-news-site.com/article"
+    }
+  ]
+}
+
+Be realistic and use real Kenyan news outlet URLs where possible.
+`
+  ),
+
+  template(
+    'history-recall',
+    2,
+    'List key events the model knows of, leaving out links it cannot vouch for',
+    `
+List up to 12 key political events involving Kenyan politician "{{name}}" ({{party}}) from the last {{days}} days (after {{cutoff}}).
+Only include events you know happened. Do not invent events, dates or links.
+Omit "sourceUrl" unless you know the exact article URL; never guess or construct one.
+
+Respond with ONLY this JSON structure:
+{
+  "history": [
+    {
+      "date": "YYYY-MM-DD",
+      "headline": "short event summary",
+      "sentiment": "positive" or "negative" or "neutral",
+      "impact": number from -5.0 to +5.0
+    }
+  ]
+}
+`
+  ),
+
+  template(
+    'image-search',
+    1,
+    'Find a public portrait URL with web search',
+    `
+Find a public profile image URL for Kenyan politician "{{name}}".
+Prefer official portraits or high quality news images.
+Return the URL in JSON format as "imageUrl".
+`
+  ),
+
+  template(
+    'source-suggestions',
+    1,
+    'Suggest news sources that are not tracked yet',
+    `
+Suggest 3 new, unique, and realistic political news sources relevant to Kenyan politics and the 2027 Elections.
+They should NOT be in this list: {{existingSources}}.
+
+Respond with ONLY this JSON:
+{
+  "sources": [
+    { "name": "Source Name", "type": "news", "weight": 2.0 }
+  ]
+}
+
+Types can be: "news", "social", "blog", or "tv". Weight is a credibility score from 1.0 (low) to 3.0 (high).
+`
+  ),
+
+  template(
+    'profile-update',
+    1,
+    "Check a politician's party, coalition, role and slogan for changes",
+    `
+Analyze the current political status of "{{name}}" in Kenya (2027 election context).
+Current Data:
+- Party: {{party}}
+- Role: {{role}}
+- Slogan: {{slogan}}
+- Coalition: {{coalition}}
+
+Has any of this changed recently?
+Return a JSON object with strictly these fields (and only if changed, otherwise use current value):
+{
+  "party": "Current political party name",
+  "coalition": "Current coalition name (e.g. Kenya Kwanza, Azimio)",
+  "role": "Current official role or title (e.g. President, Opposition Leader)",
+  "slogan": "Current campaign slogan or motto",
+  "bio": "A 1-sentence updated bio summary"
+}
+`
+  ),
+
+  template(
+    'candidate-context',
+    1,
+    'Write the strategic profile shown in the candidate context view',
+    `
+You are a senior political analyst covering the 2027 Kenyan General Election.
+Write a detailed strategic profile for "{{name}}" ({{party}}).
+
+Data Points:
+- Role: {{role}}
+- Coalition: {{coalition}}
+- Current Popularity Score: {{score}}
+- Trend: {{trend}} ({{trendStrength}} strength)
+- Momentum: {{momentum}}
+- Recent News Headlines:
+{{headlines}}
+
+Generate a JSON object with this exact structure:
+{
+  "narrative": "A rich 200-word narrative paragraph analyzing their current political standing, recent moves, and public perception. Use journalist tone.",
+  "summary": "A concise 2-sentence executive summary of their status.",
+  "keyEvents": ["List of 3-5 specific key political events from their recent history"],
+  "strengths": ["List 3 key political strengths"],
+  "weaknesses": ["List 3 key political weaknesses"],
+  "controversies": ["List recent controversies or challenges"],
+  "allies": ["List key political allies or coalition partners"],
+  "rivals": ["List key political opponents"],
+  "prediction": "A 1-sentence prediction for their next week"
+}
+`
+  ),
+];
+
+/** Fill a template's `{{variable}}` placeholders; unknown variables render empty. */
+export const fillTemplate = (text: string, vars: PromptVars): string =>
+  text.replace(/\{\{(\w+)\}\}/g, (_, key: string) => (vars[key] === undefined ? '' : String(vars[key])));
+
+export const PROMPT_IDS: PromptId[] = Array.from(new Set(PROMPT_LIBRARY.map((t) => t.id)));
+
+/** Every library version of a prompt, oldest first. */
+export const promptVersions = (id: PromptId): PromptTemplate[] =>
+  PROMPT_LIBRARY.filter((t) => t.id === id).sort((a, b) => a.version - b.version);
+
+export const latestPrompt = (id: PromptId): PromptTemplate => {
+  const versions = promptVersions(id);
+  return versions[versions.length - 1];
+};
+
+/** The template in effect: custom text, then a pinned version, then the latest. */
+export const resolvePrompt = (id: PromptId, overrides: PromptOverrides): PromptTemplate => {
+  const override = overrides[id];
+  const latest = latestPrompt(id);
+  if (override?.template?.trim()) {
+    return { ...latest, version: 0, description: 'Custom', template: override.template.trim() };
+  }
+  if (override?.version !== undefined) {
+    return promptVersions(id).find((t) => t.version === override.version) || latest;
+  }
+  return latest;
+};
+
+/** The overrides from settings, applied to every prompt the providers render. */
+class PromptRegistry {
+  private overrides: PromptOverrides = {};
+  private revisionHash = '';
+
+  setOverrides(overrides: PromptOverrides | undefined): void {
+    this.overrides = overrides || {};
+    this.revisionHash = '';
+  }
+
+  resolve(id: PromptId): PromptTemplate {
+    return resolvePrompt(id, this.overrides);
+  }
+
+  render(id: PromptId, vars: PromptVars): string {
+    return fillTemplate(this.resolve(id).template, vars);
+  }
+
+  /** Changes whenever any prompt in effect changes; part of every response cache key. */
+  revision(): string {
+    if (!this.revisionHash) this.revisionHash = hashPrompt(PROMPT_IDS.map((id) => this.resolve(id)));
+    return this.revisionHash;
+  }
+}
+
+export const promptRegistry = new PromptRegistry();
+
+export const renderPrompt = (id: PromptId, vars: PromptVars): string => promptRegistry.render(id, vars);
+
+/** The politician variables most templates use. */
+export const politicianVars = (politician: Pick<Politician, 'name' | 'party' | 'role' | 'bio'>): PromptVars => ({
+  name: politician.name,
+  party: politician.party,
+  role: politician.role,
+  background: politician.bio ? `Background: ${politician.bio}` : '',
+});
+
+/** `days` ago as YYYY-MM-DD, with the Date for filtering results. */
+export const historyCutoff = (days: number): { date: Date; cutoff: string } => {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return { date, cutoff: date.toISOString().split('T')[0] };
+};
@@ -0,0 +1,493 @@
+import {
+  Politician,
+  Source,
+  NewsEvent,
+  HistoryItem,
+  ProviderType,
+  RawNewsItem,
+  ArticleAnalysis,
+  AIFeature,
+} from '../types';
+import { AIProvider, ChatStreamOptions, isAbortError } from './aiProvider';
+import { usageMeter, TokenUsage } from './usageMeter';
+import { responseCache, responseCacheKey, cacheTtl } from './responseCache';
+import { promptRegistry } from './promptTemplates';
+import { logger } from './logger';
+
+/**
+ * Provider Fallback Chain
+ * Routes each AI request through an ordered list of providers. A provider that throws or
+ * returns nothing counts as a failure; after a few in a row its circuit opens and it is
+ * skipped until a cooldown passes, then a single trial request decides whether it closes
+ * again. Providers over the daily AI budget are skipped too. Health and a log of who served
+ * each request are kept for the settings panel; every attempt is metered. Answers are cached
+ * per provider and model, and a fresh cached answer is served before any network call.
+ * The page and the ingestion worker relay their outcomes to each other, so a provider that
+ * fails in one context is skipped in the other.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export type ProviderStatus = 'healthy' | 'degraded' | 'down' | 'unknown';
+
+export interface ProviderHealth {
+  provider: ProviderType;
+  name: string;
+  state: CircuitState;
+  status: ProviderStatus;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  /** Share of successes among the last HEALTH_WINDOW requests, null before any */
+  successRate: number | null;
+  avgLatencyMs: number | null;
+  lastError?: string;
+  lastSuccessAt?: number;
+  lastFailureAt?: number;
+  /** When an open circuit allows its next trial request (epoch ms) */
+  retryAt?: number;
+}
+
+export type AttemptOutcome =
+  | 'served'
+  | 'cached'
+  | 'failed'
+  | 'circuit-open'
+  | 'over-budget'
+  | 'unconfigured'
+  | 'unsupported';
+
+export interface ProviderRequestRecord {
+  at: number;
+  feature: AIFeature;
+  operation: string;
+  /** Provider that answered, or null if the whole chain failed */
+  servedBy: ProviderType | null;
+  attempts: { provider: ProviderType; outcome: AttemptOutcome }[];
+  latencyMs: number;
+}
+
+/** An outcome or logged request, as relayed between the page and the ingestion worker */
+export type HealthEvent =
+  | { type: 'success'; provider: ProviderType; latencyMs: number; at: number }
+  | { type: 'failure'; provider: ProviderType; error: string; latencyMs: number; at: number }
+  | { type: 'request'; entry: ProviderRequestRecord };
+
+// Consecutive failures that open a circuit
+const FAILURE_THRESHOLD = 3;
+const BASE_COOLDOWN_MS = 60 * 1000;
+const MAX_COOLDOWN_MS = 15 * 60 * 1000;
+// Recent outcomes used for success rate and latency
+const HEALTH_WINDOW = 20;
+const MAX_REQUEST_LOG = 25;
+
+class CircuitBreaker {
+  state: CircuitState = 'closed';
+  consecutiveFailures = 0;
+  retryAt = 0;
+  private cooldownMs = BASE_COOLDOWN_MS;
+  private trialInFlight = false;
+
+  canRequest(now: number): boolean {
+    if (this.state === 'open' && now >= this.retryAt) {
+      this.state = 'half-open';
+      this.trialInFlight = false;
+    }
+    if (this.state === 'closed') return true;
+    if (this.state === 'half-open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.cooldownMs = BASE_COOLDOWN_MS;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(now: number): void {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+    if (this.state === 'half-open') {
+      // The trial failed: back off longer each time
+      this.cooldownMs = Math.min(this.cooldownMs * 2, MAX_COOLDOWN_MS);
+      this.open(now);
+    } else if (this.consecutiveFailures >= FAILURE_THRESHOLD) {
+      this.open(now);
+    }
+  }
+
+  private open(now: number): void {
+    this.state = 'open';
+    this.retryAt = now + this.cooldownMs;
+  }
+}
+
+interface ProviderRecord {
+  name: string;
+  breaker: CircuitBreaker;
+  successes: number;
+  failures: number;
+  outcomes: { ok: boolean; latencyMs: number }[];
+  lastError?: string;
+  lastSuccessAt?: number;
+  lastFailureAt?: number;
+}
+
+/** Circuit breakers, health and the request log for every provider type. */
+class ProviderHealthTracker {
+  private records = new Map<ProviderType, ProviderRecord>();
+  private requests: ProviderRequestRecord[] = [];
+  private listeners = new Set<() => void>();
+  private relays = new Set<(event: HealthEvent) => void>();
+
+  register(provider: ProviderType, name: string): void {
+    const record = this.records.get(provider);
+    if (record) record.name = name;
+    else this.records.set(provider, this.emptyRecord(name));
+  }
+
+  /** Forget everything, e.g. after settings change and old failures no longer apply. */
+  reset(): void {
+    this.records.forEach((record) => Object.assign(record, this.emptyRecord(record.name)));
+    this.notify();
+  }
+
+  canRequest(provider: ProviderType, now = Date.now()): boolean {
+    return this.get(provider).breaker.canRequest(now);
+  }
+
+  recordSuccess(provider: ProviderType, latencyMs: number, now = Date.now()): void {
+    this.emit({ type: 'success', provider, latencyMs, at: now });
+  }
+
+  recordFailure(provider: ProviderType, error: string, latencyMs: number, now = Date.now()): void {
+    this.emit({ type: 'failure', provider, error, latencyMs, at: now });
+  }
+
+  logRequest(entry: ProviderRequestRecord): void {
+    this.emit({ type: 'request', entry });
+  }
+
+  /** Apply an outcome from another context, so its breakers and log match this one's. */
+  applyRelayed(event: HealthEvent): void {
+    this.apply(event);
+  }
+
+  /** Called with each outcome recorded in this context, to pass on; returns an unsubscribe function. */
+  onRecorded(relay: (event: HealthEvent) => void): () => void {
+    this.relays.add(relay);
+    return () => {
+      this.relays.delete(relay);
+    };
+  }
+
+  getHealth(provider: ProviderType, now = Date.now()): ProviderHealth {
+    const record = this.get(provider);
+    const { breaker, outcomes } = record;
+    const state: CircuitState =
+      breaker.state === 'open' && now >= breaker.retryAt ? 'half-open' : breaker.state;
+    const successRate = outcomes.length
+      ? outcomes.filter((o) => o.ok).length / outcomes.length
+      : null;
+    const served = outcomes.filter((o) => o.ok);
+
+    let status: ProviderStatus = 'unknown';
+    if (state === 'open') status = 'down';
+    else if (successRate !== null)
+      status = successRate >= 0.8 && breaker.consecutiveFailures === 0 ? 'healthy' : 'degraded';
+
+    return {
+      provider,
+      name: record.name,
+      state,
+      status,
+      successes: record.successes,
+      failures: record.failures,
+      consecutiveFailures: breaker.consecutiveFailures,
+      successRate,
+      avgLatencyMs: served.length
+        ? Math.round(served.reduce((sum, o) => sum + o.latencyMs, 0) / served.length)
+        : null,
+      lastError: record.lastError,
+      lastSuccessAt: record.lastSuccessAt,
+      lastFailureAt: record.lastFailureAt,
+      retryAt: state === 'open' ? breaker.retryAt : undefined,
+    };
+  }
+
+  getRecentRequests(): ProviderRequestRecord[] {
+    return this.requests;
+  }
+
+  /** Called after every request; returns an unsubscribe function. */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private get(provider: ProviderType): ProviderRecord {
+    let record = this.records.get(provider);
+    if (!record) {
+      record = this.emptyRecord(provider);
+      this.records.set(provider, record);
+    }
+    return record;
+  }
+
+  private emptyRecord(name: string): ProviderRecord {
+    return { name, breaker: new CircuitBreaker(), successes: 0, failures: 0, outcomes: [] };
+  }
+
+  private emit(event: HealthEvent): void {
+    this.apply(event);
+    this.relays.forEach((relay) => relay(event));
+  }
+
+  private apply(event: HealthEvent): void {
+    if (event.type === 'request') {
+      this.requests = [event.entry, ...this.requests].slice(0, MAX_REQUEST_LOG);
+      this.notify();
+      return;
+    }
+    const record = this.get(event.provider);
+    if (event.type === 'success') {
+      record.breaker.recordSuccess();
+      record.successes++;
+      record.lastSuccessAt = event.at;
+      this.pushOutcome(record, true, event.latencyMs);
+      return;
+    }
+    const wasOpen = record.breaker.state === 'open';
+    record.breaker.recordFailure(event.at);
+    record.failures++;
+    record.lastError = event.error;
+    record.lastFailureAt = event.at;
+    if (!wasOpen && record.breaker.state === 'open') {
+      logger.warn(`[ProviderChain] ${record.name} circuit opened after: ${event.error}`);
+    }
+    this.pushOutcome(record, false, event.latencyMs);
+  }
+
+  private pushOutcome(record: ProviderRecord, ok: boolean, latencyMs: number): void {
+    record.outcomes = [...record.outcomes, { ok, latencyMs }].slice(-HEALTH_WINDOW);
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const providerHealth = new ProviderHealthTracker();
+
+const usageOf = (provider: AIProvider): TokenUsage =>
+  provider.takeUsage?.() ?? { inputTokens: 0, outputTokens: 0 };
+
+// The parts of a politician every provider's prompts are built from
+const politicianPrompt = (p: Politician) => [p.name, p.party, p.role, p.bio || ''];
+const sourcesPrompt = (sources: Source[]) => sources.map((s) => [s.name, s.type]);
+
+export interface ChainEntry {
+  type: ProviderType;
+  provider: AIProvider;
+}
+
+/**
+ * An AIProvider that tries each configured provider in order until one returns a result.
+ * With a single entry it behaves like that provider, plus health tracking and metering.
+ * Usage is attributed to `feature`.
+ */
+export class FallbackProvider implements AIProvider {
+  readonly name: string;
+
+  constructor(
+    private readonly chain: ChainEntry[],
+    readonly feature: AIFeature = 'general'
+  ) {
+    chain.forEach(({ type, provider }) => providerHealth.register(type, provider.name));
+    this.name = chain.map(({ provider }) => provider.name).join(' → ');
+  }
+
+  /** The same chain, metered under another feature. */
+  forFeature(feature: AIFeature): FallbackProvider {
+    return feature === this.feature ? this : new FallbackProvider(this.chain, feature);
+  }
+
+  get isConfigured(): boolean {
+    return this.chain.some(({ provider }) => provider.isConfigured);
+  }
+
+  /** Provider types in the order they are tried. */
+  get types(): ProviderType[] {
+    return this.chain.map(({ type }) => type);
+  }
+
+  fetchEvent(politician: Politician, sources: Source[]): Promise<Partial<NewsEvent> | null> {
+    return this.route('fetchEvent', [politicianPrompt(politician), sourcesPrompt(sources)], (p) =>
+      p.fetchEvent(politician, sources)
+    );
+  }
+
+  analyzeArticle(politician: Politician, item: RawNewsItem): Promise<ArticleAnalysis | null> {
+    return this.route(
+      'analyzeArticle',
+      [politicianPrompt(politician), item.title, item.snippet, item.url],
+      (p) => p.analyzeArticle(politician, item)
+    );
+  }
+
+  fetchHistory(politician: Politician, days: number): Promise<HistoryItem[] | null> {
+    return this.route('fetchHistory', [politicianPrompt(politician), days], (p) =>
+      p.fetchHistory(politician, days)
+    );
+  }
+
+  fetchImage(name: string): Promise<string | null> {
+    return this.route('fetchImage', name, (p) => p.fetchImage(name));
+  }
+
+  fetchSuggestedSources(existingSources: Source[]): Promise<Partial<Source>[] | null> {
+    return this.route('fetchSuggestedSources', sourcesPrompt(existingSources), (p) =>
+      p.fetchSuggestedSources(existingSources)
+    );
+  }
+
+  chat(prompt: string): Promise<string | null> {
+    return this.route('chat', prompt, (p) => p.chat(prompt));
+  }
+
+  /**
+   * Streams from providers that support it; others (and cached answers) report the whole
+   * reply at once. A provider that fails mid-stream hands over to the next, which reports
+   * its reply from the start. Cancelling rejects with an AbortError and skips the rest.
+   */
+  async chatStream(prompt: string, options: ChatStreamOptions): Promise<string | null> {
+    const result = await this.route('chat', prompt, async (p) => {
+      if (p.chatStream) return p.chatStream(prompt, options);
+      const text = await p.chat(prompt);
+      if (text) options.onText(text);
+      return text;
+    });
+    if (result) options.onText(result);
+    return result;
+  }
+
+  /** A fresh cached answer from any configured provider in the chain, in chain order. */
+  private async cached<T>(
+    operation: string,
+    prompt: unknown
+  ): Promise<{ type: ProviderType; value: T } | null> {
+    const configured = this.chain.filter(({ provider }) => provider.isConfigured);
+    const hit = await responseCache.lookup<T>(
+      configured.map(({ type, provider }) =>
+        responseCacheKey(type, provider.model || provider.name, operation, prompt)
+      )
+    );
+    return hit ? { type: configured[hit.index].type, value: hit.value } : null;
+  }
+
+  /**
+   * `inputs` is everything the providers build the prompt from; with the templates in
+   * effect, the provider and the model it addresses the cached answer.
+   */
+  private async route<T>(
+    operation: string,
+    inputs: unknown,
+    call: (provider: AIProvider) => Promise<T | null>
+  ): Promise<T | null> {
+    // A new template version or settings override must not be answered from the cache
+    const prompt = [inputs, promptRegistry.revision()];
+    const started = Date.now();
+    const attempts: ProviderRequestRecord['attempts'] = [];
+    let result: T | null = null;
+    let servedBy: ProviderType | null = null;
+
+    const ttlMs = cacheTtl(this.feature, operation);
+    const hit = ttlMs > 0 ? await this.cached<T>(operation, prompt) : null;
+    if (hit) {
+      providerHealth.logRequest({
+        at: started,
+        feature: this.feature,
+        operation,
+        servedBy: hit.type,
+        attempts: [{ provider: hit.type, outcome: 'cached' }],
+        latencyMs: Date.now() - started,
+      });
+      return hit.value;
+    }
+
+    for (const { type, provider } of this.chain) {
+      if (provider.supports && !provider.supports(operation)) {
+        attempts.push({ provider: type, outcome: 'unsupported' });
+        continue;
+      }
+      if (!provider.isConfigured) {
+        attempts.push({ provider: type, outcome: 'unconfigured' });
+        continue;
+      }
+      if (!usageMeter.allows(type)) {
+        attempts.push({ provider: type, outcome: 'over-budget' });
+        continue;
+      }
+      if (!providerHealth.canRequest(type)) {
+        attempts.push({ provider: type, outcome: 'circuit-open' });
+        continue;
+      }
+
+      const attemptStart = Date.now();
+      try {
+        result = await call(provider);
+        if (result !== null && result !== undefined) {
+          providerHealth.recordSuccess(type, Date.now() - attemptStart);
+          usageMeter.record(type, this.feature, true, usageOf(provider));
+          if (ttlMs > 0) {
+            const model = provider.model || provider.name;
+            responseCache.set(responseCacheKey(type, model, operation, prompt), result, {
+              provider: type,
+              model,
+              operation,
+              feature: this.feature,
+              ttlMs,
+            });
+          }
+          attempts.push({ provider: type, outcome: 'served' });
+          servedBy = type;
+          break;
+        }
+        providerHealth.recordFailure(type, 'Empty response', Date.now() - attemptStart);
+      } catch (error: unknown) {
+        // Cancelled by the caller: not the provider's fault, and nobody wants the answer
+        if (isAbortError(error)) {
+          usageMeter.record(type, this.feature, false, usageOf(provider));
+          throw error;
+        }
+        providerHealth.recordFailure(
+          type,
+          error instanceof Error ? error.message : String(error),
+          Date.now() - attemptStart
+        );
+      }
+      usageMeter.record(type, this.feature, false, usageOf(provider));
+      attempts.push({ provider: type, outcome: 'failed' });
+      result = null;
+    }
+
+    if (!servedBy && attempts.some((a) => a.outcome === 'failed')) {
+      logger.warn(`[ProviderChain] ${operation}: every provider failed`);
+    }
+    providerHealth.logRequest({
+      at: started,
+      feature: this.feature,
+      operation,
+      servedBy,
+      attempts,
+      latencyMs: Date.now() - started,
+    });
+    return result;
+  }
+}
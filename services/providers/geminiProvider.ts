@@ -1,39 +1,10 @@
 import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { Politician, Source, NewsEvent, SentimentType, HistoryItem } from "../../types";
+import { Politician, Source, NewsEvent, HistoryItem, RawNewsItem, ArticleAnalysis, GeminiTask } from "../../types";
 import { AIProvider, withRetry, parseJSON } from "../aiProvider";
-
-const eventSchema: Schema = {
-    type: Type.OBJECT,
-    properties: {
-        sourceName: { type: Type.STRING, description: "The specific name of the news outlet or platform found in search." },
-        headline: { type: Type.STRING, description: "A concise headline summarizing the real-world event found." },
-        sentiment: { type: Type.STRING, enum: ["positive", "negative", "neutral"] },
-        impact: { type: Type.NUMBER, description: "A number between 0.1 and 3.0 indicating political impact magnitude." },
-        publishedDate: { type: Type.STRING, description: "The specific date and time the news was posted." },
-        sourceUrl: { type: Type.STRING, description: "The direct URL to the news article or social post. REQUIRED." }
-    },
-    required: ["sourceName", "headline", "sentiment", "impact", "sourceUrl"],
-};
-
-const historicalSchema: Schema = {
-    type: Type.OBJECT,
-    properties: {
-        history: {
-            type: Type.ARRAY,
-            items: {
-                type: Type.OBJECT,
-                properties: {
-                    date: { type: Type.STRING, description: "Exact date of the event in YYYY-MM-DD format." },
-                    headline: { type: Type.STRING, description: "Event summary" },
-                    sentiment: { type: Type.STRING, enum: ["positive", "negative", "neutral"] },
-                    impact: { type: Type.NUMBER, description: "Impact on popularity (-5.0 to +5.0)" },
-                    sourceUrl: { type: Type.STRING, description: "The direct URL to the source verifying this specific event. REQUIRED." }
-                },
-                required: ["date", "headline", "sentiment", "impact", "sourceUrl"]
-            }
-        }
-    }
-};
+import { buildArticleAnalysisPrompt } from "../articleAnalysis";
+import { TokenUsage, UsageCounter } from "../usageMeter";
+import { ARTICLE_ANALYSIS_OUTPUT, EVENT_OUTPUT, HISTORY_OUTPUT, SOURCE_SUGGESTIONS_OUTPUT, OutputSchema, requestStructured, toHistoryItems } from "../structuredOutput";
+import { renderPrompt, politicianVars, historyCutoff } from "../promptTemplates";
 
 const imageSchema: Schema = {
     type: Type.OBJECT,
@@ -42,76 +13,47 @@ const imageSchema: Schema = {
     }
 };
 
-const sourceDiscoverySchema: Schema = {
-    type: Type.OBJECT,
-    properties: {
-        sources: {
-            type: Type.ARRAY,
-            items: {
-                type: Type.OBJECT,
-                properties: {
-                    name: { type: Type.STRING },
-                    type: { type: Type.STRING, enum: ["news", "social", "blog", "tv"] },
-                    weight: { type: Type.NUMBER },
-                },
-                required: ["name", "type", "weight"]
-            }
-        }
-    }
-};
-
 export class GeminiProvider implements AIProvider {
     readonly name = 'Gemini';
     private apiKey: string;
+    private models: Record<GeminiTask, string>;
+    private usage = new UsageCounter();
 
-    constructor(apiKey: string) {
+    constructor(apiKey: string, models: Record<GeminiTask, string>) {
         this.apiKey = apiKey;
+        this.models = models;
+    }
+
+    /** Every distinct model in use, so cached responses are dropped when any task's model changes */
+    get model(): string {
+        return Array.from(new Set(Object.values(this.models))).join(",");
     }
 
     get isConfigured(): boolean {
         return !!this.apiKey && this.apiKey.length > 0;
     }
 
+    takeUsage(): TokenUsage {
+        return this.usage.take();
+    }
+
+    private trackUsage(response: { usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number } }): void {
+        this.usage.add(response.usageMetadata?.promptTokenCount || 0, response.usageMetadata?.candidatesTokenCount || 0);
+    }
+
     async fetchEvent(politician: Politician, sources: Source[]): Promise<Partial<NewsEvent> | null> {
         if (!this.isConfigured) return null;
 
         return withRetry(async () => {
-            const prompt = `
-        Search for the very latest news (last 24-72 hours only) regarding "${politician.name}" who is a Kenyan politician from ${politician.party}.
-        ${politician.bio ? `Background: ${politician.bio}` : ''}
-        Focus on the 2027 Kenyan presidential election context.
-        Ignore any news older than 72 hours.
-        Find a specific, real recent event.
-        
-        Return a JSON object with:
-        1. 'headline': A short summary of the event.
-        2. 'sourceName': The name of the publisher.
-        3. 'sentiment': 'positive', 'negative', or 'neutral' for the politician.
-        4. 'impact': A score 0.1 to 3.0 based on significance.
-        5. 'publishedDate': The exact date and time of publication.
-        6. 'sourceUrl': The direct link to the article.
-      `;
-
-            const ai = new GoogleGenAI({ apiKey: this.apiKey });
-            const response = await ai.models.generateContent({
-                model: "gemini-2.5-flash",
-                contents: prompt,
-                config: {
-                    tools: [{ googleSearch: {} }],
-                    responseMimeType: "application/json",
-                    responseSchema: eventSchema,
-                },
-            });
+            const prompt = renderPrompt("event-search", politicianVars(politician));
 
-            const text = response.text;
-            if (!text) return null;
-
-            const data = parseJSON(text);
+            let response: any = null;
+            const data = await this.structured("event", prompt, EVENT_OUTPUT, true, (r) => { response = r; });
             if (!data) return null;
 
             let finalUrl = data.sourceUrl;
             if (!finalUrl) {
-                const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
+                const chunks = response?.candidates?.[0]?.groundingMetadata?.groundingChunks;
                 if (chunks) {
                     const webChunk = chunks.find((c: any) => c.web?.uri);
                     if (webChunk) finalUrl = webChunk.web.uri;
@@ -123,81 +65,35 @@ export class GeminiProvider implements AIProvider {
             return {
                 headline: data.headline,
                 sourceName: data.sourceName || "Web Search",
-                sentiment: data.sentiment as SentimentType,
+                sentiment: data.sentiment,
                 impact: data.impact,
                 timestamp: data.publishedDate || new Date().toLocaleString(),
                 url: finalUrl,
+                provenance: 'search-grounded',
             };
         });
     }
 
-    async fetchHistory(politician: Politician, days: number): Promise<HistoryItem[] | null> {
+    async analyzeArticle(politician: Politician, item: RawNewsItem): Promise<ArticleAnalysis | null> {
         if (!this.isConfigured) return null;
 
-        return withRetry(async () => {
-            const cutoffDate = new Date();
-            cutoffDate.setDate(cutoffDate.getDate() - days);
-            const cutoffDateString = cutoffDate.toISOString().split('T')[0];
-
-            const prompt = `
-        Research the political performance of "${politician.name}" in Kenya over the last ${days} DAYS (from ${cutoffDateString} to today).
-        Identify 8-12 distinct key events that affected their popularity.
-        
-        STRICT REQUIREMENTS:
-        1. Only include events that happened AFTER ${cutoffDateString}.
-        2. Do NOT include any event older than ${days} days.
-        3. Provide the EXACT DATE (YYYY-MM-DD) for each event.
-        4. Provide a VALID SOURCE URL for each event.
-        5. Determine sentiment: 'positive', 'negative', or 'neutral' for each event.
-        
-        Return a JSON array of events with:
-        - 'date': exact date (YYYY-MM-DD)
-        - 'headline': very short summary
-        - 'sentiment': 'positive', 'negative', or 'neutral'
-        - 'impact': score impact (-5.0 to +5.0)
-        - 'sourceUrl': link to the source
-      `;
-
-            const ai = new GoogleGenAI({ apiKey: this.apiKey });
-            const response = await ai.models.generateContent({
-                model: "gemini-2.5-flash",
-                contents: prompt,
-                config: {
-                    tools: [{ googleSearch: {} }],
-                    responseMimeType: "application/json",
-                    responseSchema: historicalSchema,
-                },
-            });
-
-            const text = response.text;
-            if (!text) return null;
-            const data = parseJSON(text);
-            if (!data || !data.history) return null;
-
-            let currentScore = 100;
-            const history: HistoryItem[] = [];
+        return withRetry(() =>
+            this.structured("analysis", buildArticleAnalysisPrompt(politician, item), ARTICLE_ANALYSIS_OUTPUT, false)
+        );
+    }
 
-            const validEvents = data.history.filter((e: any) => {
-                const eventDate = new Date(e.date);
-                const hasUrl = e.sourceUrl && e.sourceUrl.startsWith('http');
-                const isRecent = !isNaN(eventDate.getTime()) && eventDate >= cutoffDate;
-                return isRecent && hasUrl;
-            });
+    async fetchHistory(politician: Politician, days: number): Promise<HistoryItem[] | null> {
+        if (!this.isConfigured) return null;
 
-            const sortedEvents = validEvents.sort((a: any, b: any) => new Date(a.date).getTime() - new Date(b.date).getTime());
+        return withRetry(async () => {
+            const { date: cutoffDate, cutoff } = historyCutoff(days);
+            const prompt = renderPrompt("history-search", { ...politicianVars(politician), days, cutoff });
 
-            for (const event of sortedEvents) {
-                currentScore += event.impact;
-                history.push({
-                    time: event.date,
-                    score: parseFloat(currentScore.toFixed(2)),
-                    reason: event.headline,
-                    sourceUrl: event.sourceUrl,
-                    sentiment: event.sentiment as SentimentType,
-                });
-            }
+            const data = await this.structured("history", prompt, HISTORY_OUTPUT, true);
+            if (!data) return null;
 
-            return history;
+            // Search-grounded history must cite a source for every event
+            return toHistoryItems(data.history.filter(e => e.sourceUrl?.startsWith('http')), cutoffDate);
         });
     }
 
@@ -205,15 +101,11 @@ export class GeminiProvider implements AIProvider {
         if (!this.isConfigured) return null;
 
         return withRetry(async () => {
-            const prompt = `
-        Find a public profile image URL for Kenyan politician "${name}". 
-        Prefer official portraits or high quality news images. 
-        Return the URL in JSON format.
-      `;
+            const prompt = renderPrompt("image-search", { name });
 
             const ai = new GoogleGenAI({ apiKey: this.apiKey });
             const response = await ai.models.generateContent({
-                model: "gemini-2.5-flash",
+                model: this.models.image,
                 contents: prompt,
                 config: {
                     tools: [{ googleSearch: {} }],
@@ -222,6 +114,7 @@ export class GeminiProvider implements AIProvider {
                 },
             });
 
+            this.trackUsage(response);
             const text = response.text;
             if (!text) return null;
             const data = parseJSON(text);
@@ -234,28 +127,41 @@ export class GeminiProvider implements AIProvider {
         if (!this.isConfigured) return null;
 
         return withRetry(async () => {
-            const existingNames = existingSources.map(s => s.name).join(", ");
-            const prompt = `
-        Suggest 3 new, unique, and realistic political news sources relevant to Kenyan politics (2027 Elections). 
-        They should NOT be in this list: ${existingNames}.
-        Assign a credibility weight between 1.0 (low) and 3.0 (high).
-      `;
+            const prompt = renderPrompt("source-suggestions", {
+                existingSources: existingSources.map(s => s.name).join(", "),
+            });
 
-            const ai = new GoogleGenAI({ apiKey: this.apiKey });
+            const data = await this.structured("sources", prompt, SOURCE_SUGGESTIONS_OUTPUT, false);
+            return data ? data.sources : null;
+        });
+    }
+
+    /**
+     * A reply to `prompt` constrained to `schema`, re-prompted once if it fails validation.
+     * `onResponse` sees each raw response, e.g. for grounding metadata.
+     */
+    private structured<T>(
+        task: GeminiTask,
+        prompt: string,
+        schema: OutputSchema<T>,
+        search: boolean,
+        onResponse?: (response: any) => void
+    ): Promise<T | null> {
+        const ai = new GoogleGenAI({ apiKey: this.apiKey });
+        return requestStructured(async (contents) => {
             const response = await ai.models.generateContent({
-                model: "gemini-2.5-flash",
-                contents: prompt,
+                model: this.models[task],
+                contents,
                 config: {
+                    ...(search ? { tools: [{ googleSearch: {} }] } : {}),
                     responseMimeType: "application/json",
-                    responseSchema: sourceDiscoverySchema,
+                    responseJsonSchema: schema.jsonSchema,
                 },
             });
-
-            const text = response.text;
-            if (!text) return null;
-            const data = parseJSON(text);
-            return data?.sources || [];
-        });
+            this.trackUsage(response);
+            onResponse?.(response);
+            return response.text || null;
+        }, prompt, schema);
     }
 
     async chat(prompt: string): Promise<string | null> {
@@ -264,10 +170,11 @@ export class GeminiProvider implements AIProvider {
         return withRetry(async () => {
             const ai = new GoogleGenAI({ apiKey: this.apiKey });
             const response = await ai.models.generateContent({
-                model: "gemini-2.5-flash",
+                model: this.models.chat,
                 contents: prompt,
             });
 
+            this.trackUsage(response);
             return response.text || null;
         });
     }
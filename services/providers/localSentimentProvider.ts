@@ -0,0 +1,46 @@
+import { Politician, Source, NewsEvent, HistoryItem, RawNewsItem, ArticleAnalysis } from '../../types';
+import { AIProvider } from '../aiProvider';
+import { analyzeArticleLocally } from '../sentimentEngine';
+import { findPoliticianImage } from '../imageFinder';
+
+const SUPPORTED = ['analyzeArticle', 'fetchImage'];
+
+/**
+ * Local Sentiment Provider — no model at all.
+ * Classifies fetched articles with the offline lexicon engine, so the feed keeps scoring
+ * without an API key or a local LLM. It can't research, recall or write anything, so the
+ * chain skips it for every generative operation.
+ */
+export class LocalSentimentProvider implements AIProvider {
+    readonly name = 'Local lexicon';
+    readonly model = 'lexicon-v1';
+    readonly isConfigured = true;
+
+    supports(operation: string): boolean {
+        return SUPPORTED.includes(operation);
+    }
+
+    async fetchEvent(politician: Politician, sources: Source[]): Promise<Partial<NewsEvent> | null> {
+        return null;
+    }
+
+    async analyzeArticle(politician: Politician, item: RawNewsItem): Promise<ArticleAnalysis | null> {
+        return analyzeArticleLocally(politician, item);
+    }
+
+    async fetchHistory(politician: Politician, days: number): Promise<HistoryItem[] | null> {
+        return null;
+    }
+
+    async fetchImage(name: string): Promise<string | null> {
+        return findPoliticianImage(name);
+    }
+
+    async fetchSuggestedSources(existingSources: Source[]): Promise<Partial<Source>[] | null> {
+        return null;
+    }
+
+    async chat(prompt: string): Promise<string | null> {
+        return null;
+    }
+}
@@ -1,6 +1,19 @@
-import { Politician, Source, NewsEvent, SentimentType, HistoryItem } from '../../types';
-import { AIProvider, withRetry, parseJSON } from '../aiProvider';
+import { Politician, Source, NewsEvent, HistoryItem, RawNewsItem, ArticleAnalysis } from '../../types';
+import { AIProvider, ChatStreamOptions, withRetry, readLines, isAbortError } from '../aiProvider';
+import { buildArticleAnalysisPrompt } from '../articleAnalysis';
 import { findPoliticianImage } from '../imageFinder';
+import { isPlaceholderUrl } from '../eventProvenance';
+import { renderPrompt, politicianVars, historyCutoff } from '../promptTemplates';
+import { TokenUsage, UsageCounter, estimateTokens } from '../usageMeter';
+import {
+    ARTICLE_ANALYSIS_OUTPUT,
+    EVENT_OUTPUT,
+    HISTORY_OUTPUT,
+    SOURCE_SUGGESTIONS_OUTPUT,
+    requestStructured,
+    toHistoryItems,
+} from '../structuredOutput';
+import { logger } from '../logger';
 
 /**
  * Ollama Provider — calls a local or network Ollama instance.
@@ -10,7 +23,8 @@ import { findPoliticianImage } from '../imageFinder';
 export class OllamaProvider implements AIProvider {
     readonly name: string;
     private baseUrl: string;
-    private model: string;
+    readonly model: string;
+    private usage = new UsageCounter();
 
     constructor(baseUrl: string = 'http://localhost:11434', model: string = 'llama3') {
         this.baseUrl = baseUrl.replace(/\/+$/, '');
@@ -22,27 +36,36 @@ export class OllamaProvider implements AIProvider {
         return !!this.baseUrl && !!this.model;
     }
 
-    public async chat(prompt: string): Promise<string | null> {
+    takeUsage(): TokenUsage {
+        return this.usage.take();
+    }
+
+    private requestBody(prompt: string, schema: object | undefined, stream: boolean) {
+        return JSON.stringify({
+            model: this.model,
+            messages: [
+                {
+                    role: 'system',
+                    content: 'You are a political news analyst specializing in Kenyan politics. Always respond with valid JSON only, no markdown, no explanation text.'
+                },
+                { role: 'user', content: prompt }
+            ],
+            format: schema || 'json',
+            stream,
+            options: {
+                temperature: 0.3,
+                num_predict: 2048,
+            }
+        });
+    }
+
+    /** `schema` constrains the reply to a JSON Schema (Ollama structured outputs); otherwise any JSON. */
+    public async chat(prompt: string, schema?: object): Promise<string | null> {
         try {
             const response = await fetch(`${this.baseUrl}/api/chat`, {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    model: this.model,
-                    messages: [
-                        {
-                            role: 'system',
-                            content: 'You are a political news analyst specializing in Kenyan politics. Always respond with valid JSON only, no markdown, no explanation text.'
-                        },
-                        { role: 'user', content: prompt }
-                    ],
-                    format: 'json',
-                    stream: false,
-                    options: {
-                        temperature: 0.3,
-                        num_predict: 2048,
-                    }
-                }),
+                body: this.requestBody(prompt, schema, false),
             });
 
             if (!response.ok) {
@@ -50,10 +73,51 @@ export class OllamaProvider implements AIProvider {
             }
 
             const data = await response.json();
-            return data?.message?.content || null;
+            const content = data?.message?.content;
+            this.usage.add(
+                data?.prompt_eval_count ?? estimateTokens(prompt),
+                data?.eval_count ?? estimateTokens(content)
+            );
+            return content || null;
+        } catch (error) {
+            logger.error('[Ollama] Chat request failed:', error);
+            throw error;
+        }
+    }
+
+    /** `chat` over Ollama's NDJSON stream: a message fragment per line, token counts on the last. */
+    public async chatStream(prompt: string, { onText, signal }: ChatStreamOptions, schema?: object): Promise<string | null> {
+        let text = '';
+        let counts: { prompt_eval_count?: number; eval_count?: number } = {};
+        try {
+            const response = await fetch(`${this.baseUrl}/api/chat`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: this.requestBody(prompt, schema, true),
+                signal,
+            });
+
+            if (!response.ok) {
+                throw new Error(`Ollama HTTP ${response.status}: ${await response.text()}`);
+            }
+
+            for await (const line of readLines(response)) {
+                if (!line.trim()) continue;
+                const chunk = JSON.parse(line);
+                if (chunk.error) throw new Error(`Ollama: ${chunk.error}`);
+                if (chunk.message?.content) {
+                    text += chunk.message.content;
+                    onText(text);
+                }
+                if (chunk.done) counts = chunk;
+            }
+            return text || null;
         } catch (error) {
-            console.error('[Ollama] Chat request failed:', error);
+            if (!isAbortError(error)) logger.error('[Ollama] Streaming chat failed:', error);
             throw error;
+        } finally {
+            // A cancelled generation still used the tokens it produced
+            this.usage.add(counts.prompt_eval_count ?? estimateTokens(prompt), counts.eval_count ?? estimateTokens(text));
         }
     }
 
@@ -61,98 +125,47 @@ export class OllamaProvider implements AIProvider {
         if (!this.isConfigured) return null;
 
         return withRetry(async () => {
-            const prompt = `
-        You are analyzing current political news in Kenya for the 2027 presidential election.
-        
-        Politician: "${politician.name}" from party ${politician.party}, role: ${politician.role}.
-        ${politician.bio ? `Background: ${politician.bio}` : ''}
-        
-        Based on your knowledge of recent Kenyan politics, generate a realistic and plausible current event about this politician.
-        Focus on realistic political developments that could be happening now.
-        
-        Return a JSON object with these exact fields:
-        {
-          "sourceName": "name of a real Kenyan news outlet (e.g. Daily Nation, The Standard, Citizen Digital, The Star)",
-          "headline": "a concise headline summarizing a political event",
-          "sentiment": "positive" or "negative" or "neutral",
-          "impact": a number between 0.1 and 3.0,
-          "publishedDate": "today's date in YYYY-MM-DD format",
-          "sourceUrl": "https://news.google.com"
-        }
-      `;
+            const prompt = renderPrompt('event-recall', politicianVars(politician));
 
-            const text = await this.chat(prompt);
-            if (!text) return null;
-
-            const data = parseJSON(text);
+            const data = await requestStructured((p) => this.chat(p, EVENT_OUTPUT.jsonSchema), prompt, EVENT_OUTPUT);
             if (!data) return null;
 
             return {
                 headline: data.headline,
                 sourceName: data.sourceName || 'Ollama Analysis',
-                sentiment: (data.sentiment || 'neutral') as SentimentType,
-                impact: data.impact || 0.5,
+                sentiment: data.sentiment,
+                impact: data.impact,
                 timestamp: data.publishedDate || new Date().toLocaleString(),
-                url: data.sourceUrl || undefined,
+                url: isPlaceholderUrl(data.sourceUrl) ? undefined : data.sourceUrl,
+                // No search behind it: the model's own recollection
+                provenance: 'model-generated',
             };
         });
     }
 
+    async analyzeArticle(politician: Politician, item: RawNewsItem): Promise<ArticleAnalysis | null> {
+        if (!this.isConfigured) return null;
+
+        return withRetry(() =>
+            requestStructured(
+                (p) => this.chat(p, ARTICLE_ANALYSIS_OUTPUT.jsonSchema),
+                buildArticleAnalysisPrompt(politician, item),
+                ARTICLE_ANALYSIS_OUTPUT
+            )
+        );
+    }
+
     async fetchHistory(politician: Politician, days: number): Promise<HistoryItem[] | null> {
         if (!this.isConfigured) return null;
 
         return withRetry(async () => {
-            const cutoffDate = new Date();
-            cutoffDate.setDate(cutoffDate.getDate() - days);
-            const cutoffStr = cutoffDate.toISOString().split('T')[0];
-
-            const prompt = `
-        Based on your knowledge of Kenyan politics, list 8-12 key political events involving "${politician.name}" (${politician.party}) from the last ${days} days (after ${cutoffStr}).
-        
-        Return a JSON object with a "history" array. Each entry must have:
-        {
-          "history": [
-            {
-              "date": "YYYY-MM-DD",
-              "headline": "short event summary",
-              "sentiment": "positive" or "negative" or "neutral",
-              "impact": number from -5.0 to +5.0,
-              "sourceUrl": "https://relevant-news-site.com/article"
-            }
-          ]
-        }
-        
-        Be realistic. Use real Kenyan news outlet URLs where possible.
-      `;
-
-            const text = await this.chat(prompt);
-            if (!text) return null;
-
-            const data = parseJSON(text);
-            if (!data?.history) return null;
-
-            let currentScore = 100;
-            const history: HistoryItem[] = [];
-
-            const validEvents = data.history
-                .filter((e: any) => {
-                    const eventDate = new Date(e.date);
-                    return !isNaN(eventDate.getTime()) && eventDate >= cutoffDate;
-                })
-                .sort((a: any, b: any) => new Date(a.date).getTime() - new Date(b.date).getTime());
-
-            for (const event of validEvents) {
-                currentScore += event.impact;
-                history.push({
-                    time: event.date,
-                    score: parseFloat(currentScore.toFixed(2)),
-                    reason: event.headline,
-                    sourceUrl: event.sourceUrl,
-                    sentiment: (event.sentiment || 'neutral') as SentimentType,
-                });
-            }
+            const { date: cutoffDate, cutoff } = historyCutoff(days);
+            const prompt = renderPrompt('history-recall', { ...politicianVars(politician), days, cutoff });
 
-            return history;
+            const data = await requestStructured((p) => this.chat(p, HISTORY_OUTPUT.jsonSchema), prompt, HISTORY_OUTPUT);
+            if (!data) return null;
+
+            return toHistoryItems(data.history, cutoffDate);
         });
     }
 
@@ -169,24 +182,16 @@ export class OllamaProvider implements AIProvider {
         if (!this.isConfigured) return null;
 
         return withRetry(async () => {
-            const existingNames = existingSources.map(s => s.name).join(', ');
-            const prompt = `
-        Suggest 3 new, unique, and realistic political news sources relevant to Kenyan politics and the 2027 Elections.
-        They should NOT be in this list: ${existingNames}.
-        
-        Return a JSON object:
-        {
-          "sources": [
-            { "name": "Source Name", "type": "news" or "social" or "blog" or "tv", "weight": number 1.0 to 3.0 }
-          ]
-        }
-      `;
-
-            const text = await this.chat(prompt);
-            if (!text) return null;
+            const prompt = renderPrompt('source-suggestions', {
+                existingSources: existingSources.map(s => s.name).join(', '),
+            });
 
-            const data = parseJSON(text);
-            return data?.sources || [];
+            const data = await requestStructured(
+                (p) => this.chat(p, SOURCE_SUGGESTIONS_OUTPUT.jsonSchema),
+                prompt,
+                SOURCE_SUGGESTIONS_OUTPUT
+            );
+            return data ? data.sources : null;
         });
     }
 
@@ -0,0 +1,255 @@
+import { Politician, Source, NewsEvent, HistoryItem, RawNewsItem, ArticleAnalysis } from '../../types';
+import { AIProvider, ChatStreamOptions, withRetry, readLines, isAbortError } from '../aiProvider';
+import { buildArticleAnalysisPrompt } from '../articleAnalysis';
+import { findPoliticianImage } from '../imageFinder';
+import { isPlaceholderUrl } from '../eventProvenance';
+import { renderPrompt, politicianVars, historyCutoff } from '../promptTemplates';
+import { TokenUsage, UsageCounter, estimateTokens } from '../usageMeter';
+import {
+    ARTICLE_ANALYSIS_OUTPUT,
+    EVENT_OUTPUT,
+    HISTORY_OUTPUT,
+    SOURCE_SUGGESTIONS_OUTPUT,
+    OutputSchema,
+    requestStructured,
+    toHistoryItems,
+} from '../structuredOutput';
+import { logger } from '../logger';
+
+/**
+ * OpenAI-Compatible Provider — any server exposing `/v1/chat/completions`
+ * (llama.cpp server, vLLM, LM Studio, LocalAI, OpenRouter, HuggingFace TGI, OpenAI itself).
+ * The base URL is the part before `/chat/completions`, e.g. http://localhost:8080/v1.
+ */
+export interface OpenAICompatibleEndpoint {
+    baseUrl: string;
+    model: string;
+    apiKey?: string;
+    /** Extra request headers, e.g. organization ids or proxy auth */
+    headers?: Record<string, string>;
+    /** Send `response_format` (json_schema when a schema is given, else json_object) */
+    jsonMode?: boolean;
+    /** Display name; defaults to the model name */
+    label?: string;
+    /** Hosted APIs need a key; local servers usually don't */
+    requiresApiKey?: boolean;
+}
+
+const SYSTEM_PROMPT = 'You are a political news analyst specializing in Kenyan politics and the 2027 presidential election. Always respond with valid JSON only, no markdown formatting, no explanation text outside the JSON.';
+
+const normalizeBaseUrl = (url: string): string => url.trim().replace(/\/+$/, '').replace(/\/chat\/completions$/, '');
+
+export class OpenAICompatibleProvider implements AIProvider {
+    readonly name: string;
+    protected endpoint: OpenAICompatibleEndpoint;
+    private usage = new UsageCounter();
+
+    constructor(endpoint: OpenAICompatibleEndpoint) {
+        this.endpoint = { ...endpoint, baseUrl: normalizeBaseUrl(endpoint.baseUrl || '') };
+        this.name = endpoint.label || `OpenAI-compatible (${endpoint.model})`;
+    }
+
+    get model(): string {
+        return this.endpoint.model;
+    }
+
+    get isConfigured(): boolean {
+        const { baseUrl, model, apiKey, requiresApiKey } = this.endpoint;
+        return !!baseUrl && !!model && (!requiresApiKey || !!apiKey);
+    }
+
+    takeUsage(): TokenUsage {
+        return this.usage.take();
+    }
+
+    private get headers(): Record<string, string> {
+        return {
+            'Content-Type': 'application/json',
+            ...(this.endpoint.apiKey ? { Authorization: `Bearer ${this.endpoint.apiKey}` } : {}),
+            ...(this.endpoint.headers || {}),
+        };
+    }
+
+    /** `schema` requests `json_schema` output when JSON mode is on. */
+    private requestBody(prompt: string, schema: { name: string; schema: object } | undefined, stream: boolean) {
+        const body: any = {
+            model: this.endpoint.model,
+            messages: [
+                { role: 'system', content: SYSTEM_PROMPT },
+                { role: 'user', content: prompt }
+            ],
+            temperature: 0.3,
+            max_tokens: 2048,
+        };
+
+        if (this.endpoint.jsonMode) {
+            body.response_format = schema
+                ? { type: 'json_schema', json_schema: { name: schema.name, schema: schema.schema } }
+                : { type: 'json_object' };
+        }
+        if (stream) {
+            body.stream = true;
+            // Servers that support it report token counts in a final chunk
+            body.stream_options = { include_usage: true };
+        }
+        return JSON.stringify(body);
+    }
+
+    public async chat(prompt: string, schema?: { name: string; schema: object }): Promise<string | null> {
+        try {
+            const response = await fetch(`${this.endpoint.baseUrl}/chat/completions`, {
+                method: 'POST',
+                headers: this.headers,
+                body: this.requestBody(prompt, schema, false),
+            });
+
+            if (!response.ok) {
+                const errText = await response.text();
+                throw { status: response.status, message: errText };
+            }
+
+            const data = await response.json();
+            const content = data?.choices?.[0]?.message?.content;
+            this.usage.add(
+                data?.usage?.prompt_tokens ?? estimateTokens(prompt),
+                data?.usage?.completion_tokens ?? estimateTokens(content)
+            );
+            return content || null;
+        } catch (error) {
+            logger.error(`[${this.name}] Chat request failed:`, error);
+            throw error;
+        }
+    }
+
+    /** `chat` over server-sent events: `data: {chunk}` lines ending with `data: [DONE]`. */
+    public async chatStream(
+        prompt: string,
+        { onText, signal }: ChatStreamOptions,
+        schema?: { name: string; schema: object }
+    ): Promise<string | null> {
+        let text = '';
+        let usage: { prompt_tokens?: number; completion_tokens?: number } = {};
+        try {
+            const response = await fetch(`${this.endpoint.baseUrl}/chat/completions`, {
+                method: 'POST',
+                headers: this.headers,
+                body: this.requestBody(prompt, schema, true),
+                signal,
+            });
+
+            if (!response.ok) {
+                const errText = await response.text();
+                throw { status: response.status, message: errText };
+            }
+
+            for await (const line of readLines(response)) {
+                if (!line.startsWith('data:')) continue;
+                const data = line.slice(5).trim();
+                if (data === '[DONE]') break;
+                const chunk = JSON.parse(data);
+                if (chunk.error) throw { status: chunk.error.code, message: chunk.error.message };
+                const delta = chunk.choices?.[0]?.delta?.content;
+                if (delta) {
+                    text += delta;
+                    onText(text);
+                }
+                if (chunk.usage) usage = chunk.usage;
+            }
+            return text || null;
+        } catch (error) {
+            if (!isAbortError(error)) logger.error(`[${this.name}] Streaming chat failed:`, error);
+            throw error;
+        } finally {
+            // A cancelled generation still used the tokens it produced
+            this.usage.add(usage.prompt_tokens ?? estimateTokens(prompt), usage.completion_tokens ?? estimateTokens(text));
+        }
+    }
+
+    async fetchEvent(politician: Politician, sources: Source[]): Promise<Partial<NewsEvent> | null> {
+        if (!this.isConfigured) return null;
+
+        return withRetry(async () => {
+            const prompt = renderPrompt('event-recall', politicianVars(politician));
+
+            const data = await this.structured(prompt, EVENT_OUTPUT);
+            if (!data) return null;
+
+            return {
+                headline: data.headline,
+                sourceName: data.sourceName || this.name,
+                sentiment: data.sentiment,
+                impact: data.impact,
+                timestamp: data.publishedDate || new Date().toLocaleString(),
+                url: isPlaceholderUrl(data.sourceUrl) ? undefined : data.sourceUrl,
+                // No search behind it: the model's own recollection
+                provenance: 'model-generated',
+            };
+        });
+    }
+
+    async analyzeArticle(politician: Politician, item: RawNewsItem): Promise<ArticleAnalysis | null> {
+        if (!this.isConfigured) return null;
+
+        return withRetry(() => this.structured(buildArticleAnalysisPrompt(politician, item), ARTICLE_ANALYSIS_OUTPUT));
+    }
+
+    async fetchHistory(politician: Politician, days: number): Promise<HistoryItem[] | null> {
+        if (!this.isConfigured) return null;
+
+        return withRetry(async () => {
+            const { date: cutoffDate, cutoff } = historyCutoff(days);
+            const prompt = renderPrompt('history-recall', { ...politicianVars(politician), days, cutoff });
+
+            const data = await this.structured(prompt, HISTORY_OUTPUT);
+            if (!data) return null;
+
+            return toHistoryItems(data.history, cutoffDate);
+        });
+    }
+
+    async fetchImage(name: string): Promise<string | null> {
+        // Try to find a real image first
+        const realImage = await findPoliticianImage(name);
+        if (realImage) return realImage;
+
+        // Fallback to placeholder
+        return `https://ui-avatars.com/api/?name=${encodeURIComponent(name)}&background=random&size=200`;
+    }
+
+    async fetchSuggestedSources(existingSources: Source[]): Promise<Partial<Source>[] | null> {
+        if (!this.isConfigured) return null;
+
+        return withRetry(async () => {
+            const prompt = renderPrompt('source-suggestions', {
+                existingSources: existingSources.map(s => s.name).join(', '),
+            });
+
+            const data = await this.structured(prompt, SOURCE_SUGGESTIONS_OUTPUT);
+            return data ? data.sources : null;
+        });
+    }
+
+    /** A validated reply to `prompt`, re-prompting once on invalid output. */
+    private structured<T>(prompt: string, schema: OutputSchema<T>): Promise<T | null> {
+        return requestStructured((p) => this.chat(p, { name: schema.name, schema: schema.jsonSchema }), prompt, schema);
+    }
+
+    /** Check the server is reachable and list the models it serves (GET /models) */
+    static async checkConnection(
+        baseUrl: string,
+        apiKey?: string,
+        headers: Record<string, string> = {}
+    ): Promise<{ ok: boolean; models: string[] }> {
+        try {
+            const response = await fetch(`${normalizeBaseUrl(baseUrl)}/models`, {
+                headers: { ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}), ...headers },
+            });
+            if (!response.ok) return { ok: false, models: [] };
+            const data = await response.json();
+            const models = (data.data || data.models || []).map((m: any) => m.id || m.name).filter(Boolean);
+            return { ok: true, models };
+        } catch {
+            return { ok: false, models: [] };
+        }
+    }
+}
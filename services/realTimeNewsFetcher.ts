@@ -1,20 +1,19 @@
-import { Politician, NewsEvent, SentimentType, Source } from '../types';
+import { Politician, NewsEvent, Source, IngestionStats, RawNewsItem, EventMention } from '../types';
 import { AIProvider } from './aiProvider';
+import { fetchRssNewsFor } from './rssFeedAdapter';
+import { FeedIndex } from './newsDedup';
+import { EntityResolver } from './entityResolver';
+import { MAX_MENTIONS_PER_EVENT, mentionsPolitician } from './eventMentions';
+import { eventProvenance } from './eventProvenance';
+import { analyzeArticleLocally, labelsConflict } from './sentimentEngine';
+import { logger } from './logger';
 
 /**
  * Real-Time News Fetcher
  * Fetches actual news from free APIs, then uses the AI provider for sentiment analysis.
- * Sources: DuckDuckGo search API, GNews free tier, RSS proxy.
+ * Sources: outlet RSS/Atom feeds, DuckDuckGo search API, GNews free tier.
  */
 
-interface RawNewsItem {
-    title: string;
-    snippet: string;
-    url: string;
-    source: string;
-    publishedAt?: string;
-}
-
 const fetchWithTimeout = async (url: string, timeout = 8000): Promise<any | null> => {
     try {
         const controller = new AbortController();
@@ -24,7 +23,7 @@ const fetchWithTimeout = async (url: string, timeout = 8000): Promise<any | null
         if (!response.ok) throw new Error(`HTTP ${response.status}`);
         return await response.json();
     } catch (err) {
-        console.warn('[NewsFetcher] Request failed:', url, err);
+        logger.warn('[NewsFetcher] Request failed:', url, err);
         return null;
     }
 };
@@ -97,127 +96,260 @@ const extractSourceName = (url: string): string => {
     }
 };
 
+export interface IngestionBatch {
+    events: Partial<NewsEvent>[];
+    stats: IngestionStats;
+}
+
+// Upper bound on AI sentiment calls per politician per cycle
+const MAX_NEW_ITEMS_PER_CYCLE = 10;
+
+/**
+ * How far back `knownFeed` needs to reach. Items published earlier are dropped as
+ * duplicates: a live feed doesn't want them, and they can't be checked against the feed.
+ */
+export const DEDUP_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+
+export const emptyIngestionStats = (): IngestionStats => ({ found: 0, duplicate: 0, scored: 0, unmatched: 0 });
+
+export const addIngestionStats = (a: IngestionStats, b: IngestionStats): IngestionStats => ({
+    found: a.found + b.found,
+    duplicate: a.duplicate + b.duplicate,
+    scored: a.scored + b.scored,
+    unmatched: a.unmatched + b.unmatched,
+});
+
+let lastEventId = 0;
+
+/**
+ * Build a full NewsEvent from fetched data. Ids are strictly increasing so several events
+ * created in the same millisecond don't overwrite each other in the feed store. Without
+ * `data.mentions` the event mentions only `politicianId`; without `data.provenance` it is
+ * judged by its link.
+ */
+export const buildNewsEvent = (
+    politicianId: string,
+    data: Partial<NewsEvent>,
+    sourceId: string,
+    fallbackSourceName: string
+): NewsEvent => {
+    lastEventId = Math.max(Date.now(), lastEventId + 1);
+    const sentiment = data.sentiment || 'neutral';
+    const impact = data.impact || 0.5;
+    const primary: EventMention = { politicianId, sentiment, impact, stance: data.stance };
+    return {
+        id: lastEventId,
+        politicianId,
+        sourceId,
+        sourceName: data.sourceName || fallbackSourceName,
+        headline: data.headline || 'Update received',
+        sentiment,
+        impact,
+        timestamp: data.timestamp || new Date().toLocaleString(),
+        url: data.url,
+        stance: data.stance,
+        topic: data.topic,
+        localSentiment: data.localSentiment,
+        mentions: [primary, ...(data.mentions || []).filter(m => m.politicianId !== politicianId)],
+        provenance: eventProvenance(data),
+    };
+};
+
 /**
- * Fetch real news and use AI to analyze sentiment.
- * Returns a processed NewsEvent or null.
+ * Fetch every news item about a politician from all channels, drop the ones that don't
+ * actually mention them or are already in `knownFeed` (by URL or normalized headline, over
+ * the last DEDUP_WINDOW_MS), and
+ * analyze sentiment for each new one. `roster` is every tracked politician: other candidates
+ * an article names are analyzed too and returned as extra mentions on the event.
  */
-export const fetchRealNewsEvent = async (
+export const fetchRealNewsEvents = async (
     politician: Politician,
     sources: Source[],
-    aiProvider: AIProvider
-): Promise<Partial<NewsEvent> | null> => {
-    // First try to get real news from search APIs
-    const [ddgResults, gnewsResults] = await Promise.all([
+    aiProvider: AIProvider,
+    knownFeed: NewsEvent[] = [],
+    roster: Politician[] = [politician]
+): Promise<IngestionBatch> => {
+    const stats = emptyIngestionStats();
+    const index = new FeedIndex(knownFeed.filter(e => mentionsPolitician(e, politician.id)));
+    const resolver = new EntityResolver(roster.some(p => p.id === politician.id) ? roster : [...roster, politician]);
+
+    const [rssResults, ddgResults, gnewsResults] = await Promise.all([
+        fetchRssNewsFor(politician, sources, resolver),
         searchDuckDuckGo(politician),
         searchGNews(politician),
     ]);
 
-    const allResults = [...ddgResults, ...gnewsResults];
+    // Outlet feeds first: they come straight from tracked sources
+    const allResults = [...rssResults, ...ddgResults, ...gnewsResults].filter(r => r.title);
+    stats.found = allResults.length;
+
+    // Search APIs match loosely; keep only items that name this politician
+    const attributed: RawNewsItem[] = [];
+    for (const item of allResults) {
+        const mentions = item.mentions || resolver.resolve(`${item.title} ${item.snippet}`).map(m => m.id);
+        if (mentions.includes(politician.id)) attributed.push({ ...item, mentions });
+        else stats.unmatched++;
+    }
 
     if (allResults.length === 0) {
         // Fallback: use AI provider directly (it may have its own search)
-        return aiProvider.fetchEvent(politician, sources);
+        const event = await aiProvider.fetchEvent(politician, sources);
+        if (!event?.headline) return { events: [], stats };
+
+        stats.found = 1;
+        if (index.has(event.headline, event.url)) {
+            stats.duplicate = 1;
+            return { events: [], stats };
+        }
+        stats.scored = 1;
+        return { events: [{ ...event, provenance: event.provenance || 'model-generated' }], stats };
+    }
+
+    const fresh: RawNewsItem[] = [];
+    const oldestKnown = Date.now() - DEDUP_WINDOW_MS;
+    for (const item of attributed) {
+        if (index.has(item.title, item.url) || Date.parse(item.publishedAt || '') < oldestKnown) {
+            stats.duplicate++;
+            continue;
+        }
+        index.add(item.title, item.url);
+        fresh.push(item);
+    }
+
+    const events: Partial<NewsEvent>[] = [];
+    for (const item of fresh.slice(0, MAX_NEW_ITEMS_PER_CYCLE)) {
+        events.push(await analyzeMentions(aiProvider, politician, item, roster));
+    }
+    stats.scored = events.length;
+
+    logger.info(
+        `[NewsFetcher] ${politician.name}: ${stats.found} found, ${stats.unmatched} unmatched, ${stats.duplicate} duplicate, ${stats.scored} scored`
+    );
+    return { events, stats };
+};
+
+/**
+ * Analyze the item for the target politician, then separately for up to
+ * MAX_MENTIONS_PER_EVENT - 1 other roster politicians it names, so each gets its own
+ * sentiment and impact.
+ */
+const analyzeMentions = async (
+    aiProvider: AIProvider,
+    politician: Politician,
+    item: RawNewsItem,
+    roster: Politician[]
+): Promise<Partial<NewsEvent>> => {
+    const primary = await analyzeItem(aiProvider, politician, item, roster);
+    const others = (item.mentions || [])
+        .filter(id => id !== politician.id)
+        .map(id => roster.find(p => p.id === id))
+        .filter((p): p is Politician => !!p)
+        .slice(0, MAX_MENTIONS_PER_EVENT - 1);
+
+    const mentions: EventMention[] = [toMention(politician.id, primary)];
+    for (const other of others) {
+        mentions.push(toMention(other.id, await analyzeItem(aiProvider, other, item, roster)));
     }
+    return { ...primary, mentions, provenance: 'article-derived' };
+};
 
-    // Pick the most relevant result (first one is usually most relevant)
-    const best = allResults[0];
+const toMention = (politicianId: string, analyzed: Partial<NewsEvent>): EventMention => ({
+    politicianId,
+    sentiment: analyzed.sentiment || 'neutral',
+    impact: analyzed.impact || 0.5,
+    stance: analyzed.stance,
+});
+
+/**
+ * Score the item for one politician. The local lexicon engine always runs: its label is the
+ * fallback when no AI answer comes back, and otherwise rides along as `localSentiment` so
+ * disagreements with the AI can be flagged.
+ */
+const analyzeItem = async (
+    aiProvider: AIProvider,
+    politician: Politician,
+    item: RawNewsItem,
+    roster: Politician[]
+): Promise<Partial<NewsEvent>> => {
+    const local = analyzeArticleLocally(politician, item, roster);
 
-    // If AI provider is configured, use it for sentiment analysis
     if (aiProvider.isConfigured) {
         try {
-            const sentimentResult = await analyzeSentiment(aiProvider, politician, best);
-            if (sentimentResult) return sentimentResult;
+            const sentimentResult = await analyzeSentiment(aiProvider, politician, item);
+            if (sentimentResult) {
+                if (labelsConflict(sentimentResult.sentiment!, local.sentiment)) {
+                    logger.warn(`[NewsFetcher] AI and lexicon disagree on "${item.title}" for ${politician.name}: ${sentimentResult.sentiment} vs ${local.sentiment}`);
+                }
+                return { ...sentimentResult, localSentiment: local.sentiment };
+            }
         } catch (err) {
-            console.warn('[NewsFetcher] AI sentiment analysis failed, using heuristic:', err);
+            logger.warn('[NewsFetcher] AI sentiment analysis failed, using local lexicon:', err);
         }
     }
 
-    // Heuristic fallback sentiment analysis
     return {
-        headline: best.title,
-        sourceName: best.source,
-        sentiment: heuristicSentiment(best.title + ' ' + best.snippet, politician.name),
-        impact: 0.5,
-        timestamp: best.publishedAt || new Date().toLocaleString(),
-        url: best.url,
+        headline: item.title,
+        sourceName: item.source,
+        sentiment: local.sentiment,
+        impact: local.impact,
+        stance: local.stance,
+        topic: local.topic,
+        localSentiment: local.sentiment,
+        timestamp: item.publishedAt || new Date().toLocaleString(),
+        url: item.url,
     };
 };
 
 /**
- * Use AI provider to analyze sentiment of a real news item
+ * Use AI provider to classify the article's title and snippet
  */
 const analyzeSentiment = async (
     aiProvider: AIProvider,
     politician: Politician,
     newsItem: RawNewsItem
 ): Promise<Partial<NewsEvent> | null> => {
-    // We leverage the provider's own fetchEvent which already handles the prompt.
-    // But enrich it with the actual news context.
-    const result = await aiProvider.fetchEvent(politician, []);
-
-    if (result) {
-        // Prefer the real URL and source name
-        return {
-            ...result,
-            headline: result.headline || newsItem.title,
-            sourceName: result.sourceName || newsItem.source,
-            url: newsItem.url || result.url,
-        };
-    }
-
-    return null;
-};
-
-/**
- * Simple heuristic sentiment analysis (no AI required)
- */
-const heuristicSentiment = (text: string, politicianName: string): SentimentType => {
-    const lower = text.toLowerCase();
-    const name = politicianName.toLowerCase();
-
-    const positiveWords = ['endorses', 'praised', 'wins', 'surging', 'supports', 'launches', 'successful', 'popular', 'leads', 'alliance', 'victory', 'rally', 'endorsement', 'boost', 'momentum'];
-    const negativeWords = ['criticized', 'scandal', 'drops', 'heckled', 'defects', 'allegations', 'opposes', 'falls', 'controversy', 'questioned', 'decline', 'fails', 'loss', 'protest', 'rival'];
-
-    let positiveHits = 0;
-    let negativeHits = 0;
+    const analysis = await aiProvider.analyzeArticle(politician, newsItem);
+    if (!analysis) return null;
 
-    for (const word of positiveWords) {
-        if (lower.includes(word)) positiveHits++;
-    }
-    for (const word of negativeWords) {
-        if (lower.includes(word)) negativeHits++;
-    }
-
-    if (positiveHits > negativeHits) return 'positive';
-    if (negativeHits > positiveHits) return 'negative';
-    return 'neutral';
+    return {
+        headline: newsItem.title,
+        sourceName: newsItem.source,
+        sentiment: analysis.sentiment,
+        impact: analysis.impact,
+        stance: analysis.stance,
+        topic: analysis.topic,
+        timestamp: newsItem.publishedAt || new Date().toLocaleString(),
+        url: newsItem.url,
+    };
 };
 
 /**
- * Fetch multiple news events for all politicians
+ * Fetch news events for all politicians
  */
 export const fetchAllRealNews = async (
     politicians: Politician[],
     sources: Source[],
-    aiProvider: AIProvider
-): Promise<Partial<NewsEvent>[]> => {
-    const results: Partial<NewsEvent>[] = [];
+    aiProvider: AIProvider,
+    knownFeed: NewsEvent[] = []
+): Promise<IngestionBatch> => {
+    const events: Partial<NewsEvent>[] = [];
+    let stats = emptyIngestionStats();
+    // Grows with this cycle's events so an article naming two politicians is only kept once
+    let seen = knownFeed;
 
     for (const politician of politicians) {
         try {
-            const event = await fetchRealNewsEvent(politician, sources, aiProvider);
-            if (event && event.headline) {
-                results.push({
-                    ...event,
-                    politicianId: politician.id,
-                } as any);
-            }
+            const batch = await fetchRealNewsEvents(politician, sources, aiProvider, seen, politicians);
+            const tagged = batch.events.map(event => ({ ...event, politicianId: politician.id }));
+            events.push(...tagged);
+            seen = [...(tagged as NewsEvent[]), ...seen];
+            stats = addIngestionStats(stats, batch.stats);
             // Rate limit between politicians
             await new Promise(r => setTimeout(r, 1500));
         } catch (err) {
-            console.error(`[NewsFetcher] Error for ${politician.name}:`, err);
+            logger.error(`[NewsFetcher] Error for ${politician.name}:`, err);
         }
     }
 
-    return results;
+    return { events, stats };
 };
@@ -0,0 +1,119 @@
+import { AIFeature, ProviderType } from '../types';
+import { database } from './database';
+import { logger } from './logger';
+
+/**
+ * AI Response Cache
+ * Content-addressed store for provider responses, keyed by provider, model, operation and a
+ * hash of the prompt inputs, persisted in IndexedDB. How long an answer stays fresh depends
+ * on the feature that asked for it; article analyses and portraits don't change, so those
+ * operations keep longer regardless of feature.
+ */
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/** How long a response stays fresh per feature; 0 disables caching. */
+export const CACHE_TTL_MS: Record<AIFeature, number> = {
+  'live-feed': 10 * MINUTE,
+  scheduler: 10 * MINUTE,
+  'candidate-refresh': HOUR,
+  context: 6 * HOUR,
+  'history-backfill': 12 * HOUR,
+  'candidate-setup': 12 * HOUR,
+  'source-discovery': DAY,
+  'profile-update': DAY,
+  // Re-running a comparison shouldn't pay for answers it already has
+  'prompt-eval': DAY,
+  general: 0,
+};
+
+// Operations whose answer depends only on their input
+const OPERATION_TTL_MS: Record<string, number> = {
+  analyzeArticle: 7 * DAY,
+  fetchImage: 7 * DAY,
+};
+
+export const cacheTtl = (feature: AIFeature, operation: string): number =>
+  OPERATION_TTL_MS[operation] ?? CACHE_TTL_MS[feature] ?? 0;
+
+// cyrb53: fast, well-distributed, and synchronous (crypto.subtle needs a secure context)
+const cyrb53 = (text: string, seed: number): string => {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+};
+
+/** 106-bit hash of any JSON-serializable prompt input. */
+export const hashPrompt = (prompt: unknown): string => {
+  const text = typeof prompt === 'string' ? prompt : JSON.stringify(prompt);
+  return cyrb53(text, 0) + cyrb53(text, 1);
+};
+
+export const responseCacheKey = (
+  provider: ProviderType,
+  model: string,
+  operation: string,
+  prompt: unknown
+): string => `${provider}|${model}|${operation}|${hashPrompt(prompt)}`;
+
+class ResponseCache {
+  private hits = 0;
+  private misses = 0;
+
+  /** The first key with a fresh entry, counted as one hit or miss. */
+  async lookup<T>(keys: string[]): Promise<{ index: number; value: T } | null> {
+    try {
+      for (let index = 0; index < keys.length; index++) {
+        const entry = await database.getAICacheEntry(keys[index]);
+        if (entry) {
+          this.hits++;
+          return { index, value: entry.value as T };
+        }
+      }
+    } catch (e) {
+      logger.warn('[ResponseCache] Lookup failed:', e);
+    }
+    this.misses++;
+    return null;
+  }
+
+  set(
+    key: string,
+    value: unknown,
+    meta: { provider: ProviderType; model: string; operation: string; feature: AIFeature; ttlMs: number }
+  ): void {
+    const now = Date.now();
+    database.putAICacheEntry({
+      key,
+      provider: meta.provider,
+      model: meta.model,
+      operation: meta.operation,
+      feature: meta.feature,
+      value,
+      createdAt: now,
+      expiresAt: now + meta.ttlMs,
+    });
+  }
+
+  /** Hits and misses since the page loaded. */
+  stats(): { hits: number; misses: number } {
+    return { hits: this.hits, misses: this.misses };
+  }
+
+  async clear(): Promise<void> {
+    await database.clearAICache();
+    this.hits = 0;
+    this.misses = 0;
+  }
+}
+
+export const responseCache = new ResponseCache();
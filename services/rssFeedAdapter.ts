@@ -0,0 +1,208 @@
+import { Politician, Source, RawNewsItem } from '../types';
+import { KENYAN_OUTLET_FEEDS } from '../constants';
+import { EntityResolver } from './entityResolver';
+import { logger } from './logger';
+
+/**
+ * RSS/Atom Feed Adapter
+ * Polls the RSS/Atom feeds configured on each active Source and turns items that mention a
+ * politician into RawNewsItems for the normal sentiment path. Parsing is string-based so the
+ * adapter runs the same in the browser and under Node.
+ *
+ * Offline mode: when `process.env.RSS_FIXTURE_URL` is set (or `enableFixtureFeeds` is called),
+ * each feed URL is read from `<base>/<fixtureFileName(url)>` instead of the network. The
+ * browser fetches fixtures; under Node, pass a file reader and a directory as the base.
+ */
+
+export interface FeedItem {
+  title: string;
+  link: string;
+  summary: string;
+  publishedAt?: string;
+}
+
+/** Returns the raw XML for a feed URL, or null if it can't be read. */
+export type FeedLoader = (feedUrl: string) => Promise<string | null>;
+
+/** Returns a fixture file's contents by URL or path, or null if it can't be read. */
+export type FixtureReader = (location: string) => Promise<string | null>;
+
+// Feeds are shared by every politician in a cycle, so each is fetched at most this often
+const FEED_CACHE_TTL_MS = 10 * 60 * 1000;
+const FEED_TIMEOUT_MS = 10000;
+
+const proxyUrl = (typeof process !== 'undefined' && process.env?.RSS_PROXY_URL) || '';
+const fixtureUrl = (typeof process !== 'undefined' && process.env?.RSS_FIXTURE_URL) || '';
+
+// --- Parsing ---
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, code: string) => {
+    if (code[0] === '#') {
+      const n =
+        code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(n) ? String.fromCodePoint(n) : match;
+    }
+    return ENTITIES[code.toLowerCase()] ?? match;
+  });
+
+/** Text content of an element: CDATA unwrapped, tags stripped, entities decoded. */
+const cleanText = (raw: string): string =>
+  decodeEntities(raw.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1').replace(/<[^>]+>/g, ' '))
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const tagContent = (block: string, tags: string[]): string => {
+  for (const tag of tags) {
+    const match = block.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'i'));
+    if (match) return match[1];
+  }
+  return '';
+};
+
+/** Atom puts the URL in `<link href>`; prefer rel="alternate" (or no rel). */
+const atomLink = (block: string): string => {
+  const links = block.match(/<link\b[^>]*>/gi) || [];
+  const pick = links.find((l) => !/rel=/.test(l) || /rel=["']alternate["']/.test(l)) || links[0];
+  return pick?.match(/href=["']([^"']+)["']/)?.[1] || '';
+};
+
+const toIsoDate = (raw: string): string | undefined => {
+  const ms = Date.parse(cleanText(raw));
+  return isNaN(ms) ? undefined : new Date(ms).toISOString();
+};
+
+/** Parse an RSS 2.0 or Atom document. Malformed items are skipped. */
+export const parseFeed = (xml: string): FeedItem[] => {
+  const isAtom = /<feed[\s>]/i.test(xml) && !/<rss[\s>]/i.test(xml);
+  const blocks =
+    xml.match(isAtom ? /<entry[\s>][\s\S]*?<\/entry>/gi : /<item[\s>][\s\S]*?<\/item>/gi) || [];
+
+  return blocks
+    .map((block) => {
+      const title = cleanText(tagContent(block, ['title']));
+      const link = isAtom ? atomLink(block) : cleanText(tagContent(block, ['link', 'guid']));
+      const summary = cleanText(
+        tagContent(block, isAtom ? ['summary', 'content'] : ['description', 'content:encoded'])
+      );
+      const date = tagContent(block, isAtom ? ['updated', 'published'] : ['pubDate', 'dc:date']);
+      return {
+        title,
+        link: decodeEntities(link),
+        summary,
+        publishedAt: date ? toIsoDate(date) : undefined,
+      };
+    })
+    .filter((item) => item.title && item.link);
+};
+
+// --- Loading ---
+
+export const fixtureFileName = (feedUrl: string): string =>
+  feedUrl
+    .replace(/^https?:\/\//, '')
+    .replace(/[^a-z0-9]+/gi, '_')
+    .replace(/^_|_$/g, '')
+    .toLowerCase() + '.xml';
+
+const httpFeedLoader: FeedLoader = async (feedUrl) => {
+  try {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), FEED_TIMEOUT_MS);
+    const target = proxyUrl ? `${proxyUrl}${encodeURIComponent(feedUrl)}` : feedUrl;
+    const response = await fetch(target, { signal: controller.signal });
+    clearTimeout(timer);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return await response.text();
+  } catch (err) {
+    logger.warn('[RSS] Feed request failed:', feedUrl, err);
+    return null;
+  }
+};
+
+const fetchFixture: FixtureReader = async (url) => {
+  try {
+    const response = await fetch(url);
+    return response.ok ? await response.text() : null;
+  } catch {
+    return null;
+  }
+};
+
+/** Reads each feed from `<base>/<fixtureFileName(feedUrl)>`, fetched unless `read` is given. */
+export const fixtureFeedLoader =
+  (base: string, read: FixtureReader = fetchFixture): FeedLoader =>
+  (feedUrl) =>
+    read(`${base.replace(/\/$/, '')}/${fixtureFileName(feedUrl)}`);
+
+let loader: FeedLoader = fixtureUrl ? fixtureFeedLoader(fixtureUrl) : httpFeedLoader;
+const feedCache = new Map<string, { fetchedAt: number; items: FeedItem[] }>();
+
+/** Swap the feed loader (fixtures, a file reader under Node). Clears the feed cache. */
+export function setFeedLoader(next: FeedLoader | null): void {
+  loader = next || httpFeedLoader;
+  feedCache.clear();
+}
+
+export function enableFixtureFeeds(base: string, read?: FixtureReader): void {
+  setFeedLoader(fixtureFeedLoader(base, read));
+}
+
+export const feedUrlsFor = (source: Source): string[] =>
+  source.feedUrls ?? KENYAN_OUTLET_FEEDS[source.name] ?? [];
+
+const loadFeed = async (feedUrl: string): Promise<FeedItem[]> => {
+  const cached = feedCache.get(feedUrl);
+  if (cached && Date.now() - cached.fetchedAt < FEED_CACHE_TTL_MS) return cached.items;
+
+  const xml = await loader(feedUrl);
+  const items = xml ? parseFeed(xml) : [];
+  feedCache.set(feedUrl, { fetchedAt: Date.now(), items });
+  return items;
+};
+
+// --- Matching ---
+
+/**
+ * Items from every active source's feeds that mention the politician, newest first.
+ * Pass a resolver built over the whole roster so items also record the other candidates
+ * they mention.
+ */
+export const fetchRssNewsFor = async (
+  politician: Politician,
+  sources: Source[],
+  resolver: EntityResolver = new EntityResolver([politician])
+): Promise<RawNewsItem[]> => {
+  const results: RawNewsItem[] = [];
+
+  for (const source of sources.filter((s) => s.active)) {
+    for (const feedUrl of feedUrlsFor(source)) {
+      const items = await loadFeed(feedUrl);
+      for (const item of items) {
+        const mentions = resolver.resolve(`${item.title} ${item.summary}`).map((m) => m.id);
+        if (!mentions.includes(politician.id)) continue;
+        results.push({
+          title: item.title,
+          snippet: item.summary,
+          url: item.link,
+          source: source.name,
+          publishedAt: item.publishedAt,
+          mentions,
+        });
+      }
+    }
+  }
+
+  return results.sort(
+    (a, b) => (Date.parse(b.publishedAt || '') || 0) - (Date.parse(a.publishedAt || '') || 0)
+  );
+};
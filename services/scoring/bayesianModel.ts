@@ -0,0 +1,34 @@
+import { NewsEvent } from '../../types';
+import { ScoringModel, ScoringContext, ScoreDelta, sourceCredibility } from '../scoringEngine';
+
+// Pseudo-observations on each side of the prior; higher = slower to move
+const PRIOR_STRENGTH = 10;
+// Score points per unit of posterior approval above/below 0.5
+const SCORE_SCALE = 40;
+
+/**
+ * Bayesian with Prior — approval is a Beta(α, β) posterior starting at an even prior.
+ * Each event adds weighted positive or negative evidence; the score moves by the change
+ * in posterior mean. Early events move the score a lot, later ones less.
+ */
+export class BayesianModel implements ScoringModel {
+  readonly id = 'bayesian' as const;
+  readonly name = 'Bayesian Prior';
+  readonly description = `Beta posterior with a ${PRIOR_STRENGTH}-event prior; evidence accumulates per candidate.`;
+
+  scoreEvent(event: NewsEvent, context: ScoringContext): ScoreDelta[] {
+    if (event.sentiment === 'neutral') return [{ politicianId: event.politicianId, change: 0 }];
+
+    const evidence = context.scored.evidenceFor(event.politicianId, event.id);
+    let alpha = PRIOR_STRENGTH + evidence.positive;
+    let beta = PRIOR_STRENGTH + evidence.negative;
+
+    const before = alpha / (alpha + beta);
+    const weight = event.impact * sourceCredibility(event, context.sources);
+    if (event.sentiment === 'positive') alpha += weight;
+    else beta += weight;
+    const after = alpha / (alpha + beta);
+
+    return [{ politicianId: event.politicianId, change: (after - before) * SCORE_SCALE }];
+  }
+}
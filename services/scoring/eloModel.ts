@@ -0,0 +1,37 @@
+import { NewsEvent } from '../../types';
+import { ScoringModel, ScoringContext, ScoreDelta, sourceCredibility } from '../scoringEngine';
+
+// Score gap at which the leader is expected to "win" a news cycle 10:1
+const ELO_SCALE = 25;
+const K_PER_IMPACT = 4;
+
+/**
+ * Elo-Style Relative — each event is a contest between the named politician and the rest
+ * of the field. Good news for a frontrunner is expected and moves little; an upset moves
+ * more. Points won are taken evenly from the other candidates, so the total is conserved.
+ * Neutral coverage isn't a contest: scored as a draw it would pull every leader down.
+ */
+export class EloModel implements ScoringModel {
+  readonly id = 'elo' as const;
+  readonly name = 'Elo Relative';
+  readonly description = 'Zero-sum: gains are expected-adjusted and taken from the rest of the field.';
+
+  scoreEvent(event: NewsEvent, context: ScoringContext): ScoreDelta[] {
+    if (event.sentiment === 'neutral') return [{ politicianId: event.politicianId, change: 0 }];
+
+    const target = context.politicians.find((p) => p.id === event.politicianId);
+    const others = context.politicians.filter((p) => p.id !== event.politicianId);
+    if (!target || others.length === 0) return [];
+
+    const fieldAverage = others.reduce((sum, p) => sum + p.score, 0) / others.length;
+    const expected = 1 / (1 + Math.pow(10, (fieldAverage - target.score) / ELO_SCALE));
+    const outcome = event.sentiment === 'positive' ? 1 : 0;
+    const k = K_PER_IMPACT * event.impact * sourceCredibility(event, context.sources);
+    const change = k * (outcome - expected);
+
+    return [
+      { politicianId: target.id, change },
+      ...others.map((p) => ({ politicianId: p.id, change: -change / others.length })),
+    ];
+  }
+}
@@ -0,0 +1,15 @@
+import { NewsEvent } from '../../types';
+import { ScoringModel, ScoreDelta, sentimentSign } from '../scoringEngine';
+
+/**
+ * Linear Impact — the original behaviour: the event's impact is added or subtracted as-is.
+ */
+export class LinearModel implements ScoringModel {
+  readonly id = 'linear' as const;
+  readonly name = 'Linear Impact';
+  readonly description = 'Adds ±impact for every event, regardless of source or age.';
+
+  scoreEvent(event: NewsEvent): ScoreDelta[] {
+    return [{ politicianId: event.politicianId, change: sentimentSign(event) * event.impact }];
+  }
+}
@@ -0,0 +1,28 @@
+import { NewsEvent } from '../../types';
+import {
+  ScoringModel,
+  ScoringContext,
+  ScoreDelta,
+  sentimentSign,
+  sourceCredibility,
+  duplicateFactor,
+} from '../scoringEngine';
+
+/**
+ * Source-Weighted — scales impact by the outlet's credibility weight and discounts
+ * repeated coverage of the same story.
+ */
+export class SourceWeightedModel implements ScoringModel {
+  readonly id = 'source-weighted' as const;
+  readonly name = 'Source Credibility';
+  readonly description = 'Weights impact by source credibility and discounts duplicate coverage.';
+
+  scoreEvent(event: NewsEvent, context: ScoringContext): ScoreDelta[] {
+    const change =
+      sentimentSign(event) *
+      event.impact *
+      sourceCredibility(event, context.sources) *
+      duplicateFactor(event, context.scored);
+    return [{ politicianId: event.politicianId, change }];
+  }
+}
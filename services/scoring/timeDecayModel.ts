@@ -0,0 +1,35 @@
+import { NewsEvent } from '../../types';
+import { eventTimeMs } from '../eventTime';
+import {
+  ScoringModel,
+  ScoringContext,
+  ScoreDelta,
+  sentimentSign,
+  sourceCredibility,
+  duplicateFactor,
+} from '../scoringEngine';
+
+const HALF_LIFE_HOURS = 72;
+
+/**
+ * Time-Decayed — source-weighted impact that halves every HALF_LIFE_HOURS of event age
+ * relative to the scoring time. Live events score at full weight; in replays, old stories
+ * contribute less to the final standings.
+ */
+export class TimeDecayModel implements ScoringModel {
+  readonly id = 'time-decayed' as const;
+  readonly name = 'Time-Decayed';
+  readonly description = `Source-weighted impact with a ${HALF_LIFE_HOURS}h half-life on event age.`;
+
+  scoreEvent(event: NewsEvent, context: ScoringContext): ScoreDelta[] {
+    const ageHours = Math.max(0, (context.now - eventTimeMs(event)) / (60 * 60 * 1000));
+    const decay = Math.pow(0.5, ageHours / HALF_LIFE_HOURS);
+    const change =
+      sentimentSign(event) *
+      event.impact *
+      sourceCredibility(event, context.sources) *
+      duplicateFactor(event, context.scored) *
+      decay;
+    return [{ politicianId: event.politicianId, change }];
+  }
+}
@@ -0,0 +1,375 @@
+import { Politician, Source, NewsEvent, HistoryItem, ScoringModelId } from '../types';
+import { eventTimeMs } from './eventTime';
+import { normalizeHeadline } from './newsDedup';
+import { eventMentions, mentionFor, mentionsPolitician, perMentionEvents } from './eventMentions';
+import { isScoreable } from './eventProvenance';
+import { LinearModel } from './scoring/linearModel';
+import { SourceWeightedModel } from './scoring/sourceWeightedModel';
+import { TimeDecayModel } from './scoring/timeDecayModel';
+import { EloModel } from './scoring/eloModel';
+import { BayesianModel } from './scoring/bayesianModel';
+
+/**
+ * Scoring Engine
+ * Turns a NewsEvent into score changes. Models are interchangeable so the live loop and
+ * replays of the stored feed can use any of them. Models score one politician at a time;
+ * `scoreEventMentions` runs them once per politician an event mentions.
+ */
+
+export interface ScoringContext {
+  /** Standings before this event is applied */
+  politicians: Politician[];
+  sources: Source[];
+  /** Events already scored */
+  scored: ScoredEventIndex;
+  /** Reference time for recency weighting (epoch ms) */
+  now: number;
+}
+
+export interface ScoreDelta {
+  politicianId: string;
+  change: number;
+}
+
+export interface ScoringModel {
+  readonly id: ScoringModelId;
+  readonly name: string;
+  readonly description: string;
+
+  /** Score `event` for `event.politicianId` only, using its top-level sentiment and impact */
+  scoreEvent(event: NewsEvent, context: ScoringContext): ScoreDelta[];
+}
+
+export const BASELINE_SCORE = 100;
+
+// --- Shared helpers for models ---
+
+export const sentimentSign = (event: NewsEvent): number =>
+  event.sentiment === 'positive' ? 1 : event.sentiment === 'negative' ? -1 : 0;
+
+/**
+ * Credibility multiplier for the event's outlet, relative to the average active source
+ * (1.0 = average). Outlets we don't track count as the lowest-weighted source.
+ */
+export const sourceCredibility = (event: NewsEvent, sources: Source[]): number => {
+  const active = sources.filter((s) => s.active);
+  if (active.length === 0) return 1;
+
+  const name = (event.sourceName || '').toLowerCase();
+  const match = active.find(
+    (s) =>
+      s.id === event.sourceId ||
+      (name && (s.name.toLowerCase().includes(name) || name.includes(s.name.toLowerCase())))
+  );
+  const average = active.reduce((sum, s) => sum + s.weight, 0) / active.length;
+  const weight = match ? match.weight : Math.min(...active.map((s) => s.weight));
+  return weight / average;
+};
+
+const DUPLICATE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export interface Evidence {
+  positive: number;
+  negative: number;
+}
+
+const coverageKey = (politicianId: string, headline: string) => `${politicianId}|${normalizeHeadline(headline)}`;
+
+/**
+ * Running per-politician totals over the events scored so far, so a model scoring one
+ * event doesn't rescan the whole feed. Each event's evidence is weighted by the sources as
+ * they were when it was added. Lookups skip the event being scored, so adding it before
+ * (or twice) changes nothing.
+ */
+export class ScoredEventIndex {
+  private evidence = new Map<string, Evidence>();
+  private eventEvidence = new Map<number, Map<string, Evidence>>();
+  // politicianId|normalized headline → the events that covered it
+  private coverage = new Map<string, { id: number; timeMs: number }[]>();
+
+  constructor(
+    private sources: Source[],
+    events: NewsEvent[] = []
+  ) {
+    events.forEach((e) => this.add(e));
+  }
+
+  add(event: NewsEvent): void {
+    if (this.eventEvidence.has(event.id)) return;
+    const credibility = sourceCredibility(event, this.sources);
+    const added = new Map<string, Evidence>();
+
+    for (const mention of eventMentions(event)) {
+      const weight = mention.impact * credibility;
+      const evidence: Evidence = {
+        positive: mention.sentiment === 'positive' ? weight : 0,
+        negative: mention.sentiment === 'negative' ? weight : 0,
+      };
+      added.set(mention.politicianId, evidence);
+      const total = this.evidence.get(mention.politicianId) || { positive: 0, negative: 0 };
+      this.evidence.set(mention.politicianId, {
+        positive: total.positive + evidence.positive,
+        negative: total.negative + evidence.negative,
+      });
+
+      const key = coverageKey(mention.politicianId, event.headline);
+      const covered = this.coverage.get(key) || [];
+      covered.push({ id: event.id, timeMs: eventTimeMs(event) });
+      this.coverage.set(key, covered);
+    }
+    this.eventEvidence.set(event.id, added);
+  }
+
+  /** Credibility-weighted positive and negative impact on a politician from other events. */
+  evidenceFor(politicianId: string, exceptEventId?: number): Evidence {
+    const total = this.evidence.get(politicianId) || { positive: 0, negative: 0 };
+    const own = exceptEventId === undefined ? undefined : this.eventEvidence.get(exceptEventId)?.get(politicianId);
+    return own ? { positive: total.positive - own.positive, negative: total.negative - own.negative } : total;
+  }
+
+  /** Other events about the politician with the same headline within a day of the event. */
+  coverageOf(event: NewsEvent): number {
+    const time = eventTimeMs(event);
+    return (this.coverage.get(coverageKey(event.politicianId, event.headline)) || []).filter(
+      (c) => c.id !== event.id && Math.abs(c.timeMs - time) <= DUPLICATE_WINDOW_MS
+    ).length;
+  }
+}
+
+/**
+ * Diminishing weight for a story already covered: the nth report of the same headline
+ * about the same politician within a day counts 1/n.
+ */
+export const duplicateFactor = (event: NewsEvent, scored: ScoredEventIndex): number =>
+  1 / (scored.coverageOf(event) + 1);
+
+// --- Model registry ---
+
+const MODELS: Record<ScoringModelId, ScoringModel> = {
+  linear: new LinearModel(),
+  'source-weighted': new SourceWeightedModel(),
+  'time-decayed': new TimeDecayModel(),
+  elo: new EloModel(),
+  bayesian: new BayesianModel(),
+};
+
+export const SCORING_MODELS: ScoringModel[] = Object.values(MODELS);
+
+export function getScoringModel(id: ScoringModelId | undefined): ScoringModel {
+  return (id && MODELS[id]) || MODELS.linear;
+}
+
+/**
+ * Deltas for every politician the event mentions, each scored with its own sentiment and
+ * impact against the same standings. A politician can appear in several deltas.
+ */
+export const scoreEventMentions = (
+  model: ScoringModel,
+  event: NewsEvent,
+  context: ScoringContext
+): ScoreDelta[] => perMentionEvents(event).flatMap((view) => model.scoreEvent(view, context));
+
+/** Sum deltas per politician. */
+export const totalScoreChanges = (deltas: ScoreDelta[]): Map<string, number> => {
+  const changes = new Map<string, number>();
+  for (const d of deltas) changes.set(d.politicianId, (changes.get(d.politicianId) || 0) + d.change);
+  return changes;
+};
+
+// --- Replay & comparison ---
+
+export interface LeaderboardEntry {
+  politicianId: string;
+  name: string;
+  score: number;
+  rank: number;
+}
+
+export interface ReplayResult {
+  modelId: ScoringModelId;
+  leaderboard: LeaderboardEntry[];
+  histories: Record<string, HistoryItem[]>;
+  eventsApplied: number;
+}
+
+export interface ReplayOptions {
+  /** Reference time for recency weighting; defaults to now */
+  asOf?: number;
+  /** Starting score for every politician; defaults to BASELINE_SCORE */
+  startScore?: number;
+  /** Also apply model-generated events; they are skipped by default */
+  includeModelGenerated?: boolean;
+}
+
+export const rankPoliticians = (politicians: Pick<Politician, 'id' | 'name' | 'score'>[]): LeaderboardEntry[] =>
+  [...politicians]
+    .sort((a, b) => b.score - a.score)
+    .map((p, idx) => ({ politicianId: p.id, name: p.name, score: p.score, rank: idx + 1 }));
+
+/** Apply one model's deltas to a standings list, returning the new list and the changes. */
+export const applyScoreDeltas = (politicians: Politician[], deltas: ScoreDelta[]): Politician[] => {
+  const changes = totalScoreChanges(deltas);
+  return politicians.map((p) => {
+    const change = changes.get(p.id);
+    if (change === undefined) return p;
+    return { ...p, score: parseFloat((p.score + change).toFixed(2)), trend: change };
+  });
+};
+
+// Politician records keep a recent working window; the database keeps every point in its
+// score_history store and rolls them up by day and week
+const LIVE_HISTORY_POINTS = 500;
+
+/**
+ * Score one new event into the standings the way the live feed does: every politician it
+ * mentions moves by the model's change and gains a history point dated `context.now`.
+ */
+export const applyLiveEvent = (model: ScoringModel, event: NewsEvent, context: ScoringContext): Politician[] => {
+  const changes = totalScoreChanges(scoreEventMentions(model, event, context));
+  const today = new Date(context.now).toISOString().split('T')[0];
+
+  return context.politicians.map((p) => {
+    const change = changes.get(p.id);
+    if (change === undefined) return p;
+
+    const score = parseFloat((p.score + change).toFixed(2));
+    const mention = mentionFor(event, p.id);
+    const point: HistoryItem = {
+      time: today,
+      score,
+      reason: (mention ? 'Live: ' : 'Live (relative): ') + event.headline,
+      sourceUrl: event.url,
+      sentiment: mention ? mention.sentiment : event.sentiment,
+      eventId: event.id,
+    };
+    return { ...p, score, trend: change, history: [...p.history, point].slice(-LIVE_HISTORY_POINTS) };
+  });
+};
+
+/**
+ * Re-scores a feed from scratch with one model, oldest event first, one event per `step()`.
+ * Events that mention none of the politicians in the list are skipped, as are model-generated
+ * ones unless `includeModelGenerated`. Given the same inputs and `asOf`, the result is always
+ * the same.
+ */
+export class FeedReplay {
+  readonly events: NewsEvent[];
+  private standings: Politician[];
+  private histories: Record<string, HistoryItem[]> = {};
+  private scored: ScoredEventIndex;
+  private cursor = 0;
+  private asOf: number;
+
+  constructor(
+    feed: NewsEvent[],
+    politicians: Politician[],
+    private sources: Source[],
+    private model: ScoringModel,
+    options: ReplayOptions = {}
+  ) {
+    const startScore = options.startScore ?? BASELINE_SCORE;
+
+    this.asOf = options.asOf ?? Date.now();
+    this.scored = new ScoredEventIndex(sources);
+    this.standings = politicians.map((p) => ({ ...p, score: startScore, trend: 0, history: [] }));
+    politicians.forEach((p) => (this.histories[p.id] = []));
+    this.events = feed
+      .filter((e) => politicians.some((p) => mentionsPolitician(e, p.id)))
+      .filter((e) => isScoreable(e, options.includeModelGenerated))
+      .sort((a, b) => eventTimeMs(a) - eventTimeMs(b) || a.id - b.id);
+  }
+
+  get processed(): number {
+    return this.cursor;
+  }
+
+  get done(): boolean {
+    return this.cursor >= this.events.length;
+  }
+
+  /** The next event to be applied, or null once the feed is exhausted. */
+  peek(): NewsEvent | null {
+    return this.events[this.cursor] ?? null;
+  }
+
+  /** Apply the next event and return it, or null once the feed is exhausted. */
+  step(): NewsEvent | null {
+    const event = this.events[this.cursor];
+    if (!event) return null;
+    this.cursor++;
+
+    const deltas = scoreEventMentions(this.model, event, {
+      politicians: this.standings,
+      sources: this.sources,
+      scored: this.scored,
+      now: this.asOf,
+    });
+    this.standings = applyScoreDeltas(this.standings, deltas);
+    this.scored.add(event);
+
+    const time = new Date(eventTimeMs(event)).toISOString().split('T')[0];
+    for (const id of totalScoreChanges(deltas).keys()) {
+      const pol = this.standings.find((p) => p.id === id);
+      if (!pol) continue;
+      this.histories[pol.id].push({
+        time,
+        score: pol.score,
+        reason: event.headline,
+        sourceUrl: event.url,
+        sentiment: mentionFor(event, pol.id)?.sentiment ?? event.sentiment,
+        eventId: event.id,
+      });
+    }
+    return event;
+  }
+
+  result(): ReplayResult {
+    return {
+      modelId: this.model.id,
+      leaderboard: rankPoliticians(this.standings),
+      histories: this.histories,
+      eventsApplied: this.cursor,
+    };
+  }
+}
+
+export const replayFeed = (
+  feed: NewsEvent[],
+  politicians: Politician[],
+  sources: Source[],
+  model: ScoringModel,
+  options: ReplayOptions = {}
+): ReplayResult => {
+  const replay = new FeedReplay(feed, politicians, sources, model, options);
+  while (replay.step());
+  return replay.result();
+};
+
+export interface LeaderboardComparison {
+  politicianId: string;
+  name: string;
+  scoreA: number;
+  scoreB: number;
+  rankA: number;
+  rankB: number;
+  /** Positive when the politician ranks higher under B */
+  rankChange: number;
+}
+
+export const compareLeaderboards = (a: LeaderboardEntry[], b: LeaderboardEntry[]): LeaderboardComparison[] => {
+  const byIdB = new Map(b.map((entry) => [entry.politicianId, entry]));
+  return a
+    .filter((entry) => byIdB.has(entry.politicianId))
+    .map((entry) => {
+      const other = byIdB.get(entry.politicianId)!;
+      return {
+        politicianId: entry.politicianId,
+        name: entry.name,
+        scoreA: entry.score,
+        scoreB: other.score,
+        rankA: entry.rank,
+        rankB: other.rank,
+        rankChange: entry.rank - other.rank,
+      };
+    });
+};
@@ -0,0 +1,425 @@
+import { Politician, RawNewsItem, ArticleAnalysis, ArticleStance, ArticleTopic, SentimentType } from '../types';
+import { MIN_IMPACT, MAX_IMPACT } from './articleAnalysis';
+import { aliasesFor } from './entityResolver';
+import { ALIAS_REGISTRY } from '../constants';
+
+/**
+ * Local Sentiment Engine
+ * Offline, lexicon-based sentiment towards one politician, for English, Swahili and Sheng
+ * text. Terms carry weights from -3 to +3; negators ("not", "si", "hakuna") flip the next few
+ * terms and intensifiers ("very", "sana", "kabisa") scale them. Scoring is target-aware: the
+ * text is split into clauses, and a clause or words about someone else count for nothing,
+ * so a rival's scandal doesn't read as bad news for the politician being scored.
+ */
+
+export type LexiconLanguage = 'en' | 'sw' | 'sheng';
+
+// `*` matches any run of letters, so "critici*" covers criticised, criticism, criticizes...
+// Multi-word terms match as phrases.
+export const SENTIMENT_LEXICONS: Record<LexiconLanguage, Record<string, number>> = {
+  en: {
+    'endors*': 2,
+    'praise*': 2,
+    'win': 2,
+    'wins': 2,
+    'won': 2,
+    'victory': 2.5,
+    'landslide': 2.5,
+    'surg*': 1.5,
+    'boost*': 1.5,
+    'support*': 1,
+    'backing': 1,
+    'welcome*': 1.5,
+    'success*': 2,
+    'popular': 1.5,
+    'popularity': 0.5,
+    'leads': 1,
+    'momentum': 1,
+    'unite*': 1,
+    'united': 1,
+    'unity': 1,
+    'acquit*': 2,
+    'cleared': 1.5,
+    'commissions': 1,
+    'commissioned': 1,
+    'launch*': 1,
+    'deliver*': 1.5,
+    'achiev*': 1.5,
+    'applau*': 2,
+    'celebrat*': 1.5,
+    'massive crowd*': 2,
+    'front-runner': 1.5,
+    'frontrunner': 1.5,
+    'clean': 1,
+    'transparent': 1.5,
+    'credib*': 1.5,
+    'strong': 1,
+    'gain*': 1,
+    'critici*': -2,
+    'condemn*': -2.5,
+    'scandal*': -3,
+    'corrupt*': -3,
+    'graft': -3,
+    'fraud*': -3,
+    'allegation*': -2,
+    'accus*': -2,
+    'embezzl*': -3,
+    'misuse': -2,
+    'heckl*': -2,
+    'booed': -2,
+    'defect*': -2,
+    // Not a bare "drop*": prosecutors dropping charges is good news
+    'drop in': -1,
+    'drops in': -1,
+    'dropped in': -1,
+    'dropped from': -1.5,
+    'drops charges': 1.5,
+    'dropped charges': 1.5,
+    'charges dropped': 1.5,
+    'fall*': -1,
+    'fell': -1,
+    'declin*': -1.5,
+    'slump*': -2,
+    'fail*': -2,
+    'loss': -2,
+    'lose*': -2,
+    'lost': -2,
+    'defeat*': -2,
+    'collaps*': -2,
+    'stall*': -1.5,
+    'controvers*': -1.5,
+    'questioned': -1,
+    'protest*': -1.5,
+    'under fire': -2,
+    'backlash': -2,
+    'outrage': -2,
+    'anger': -1.5,
+    'angry': -1.5,
+    'impeach*': -3,
+    'arrest*': -2.5,
+    'charged': -2,
+    'probe*': -1.5,
+    'investigat*': -1.5,
+    'sack*': -2,
+    'fired': -2,
+    'resign*': -1.5,
+    'snub*': -1.5,
+    'reject*': -2,
+    'blame*': -1.5,
+    'default*': -1.5,
+    'delay*': -1,
+    'doubt*': -1,
+    'weak*': -1.5,
+    'must go': -2.5,
+    'step down': -2,
+  },
+  sw: {
+    'hongera': 2,
+    'pongez*': 2,
+    'ushindi': 2.5,
+    'ameshinda': 2.5,
+    'kushinda': 1.5,
+    'kuunga mkono': 1.5,
+    'anaungwa mkono': 1.5,
+    'msafi': 1.5,
+    'mwaminifu': 1.5,
+    'shujaa': 2,
+    'bora': 1.5,
+    'nzuri': 1.5,
+    'imara': 1,
+    'maendeleo': 1,
+    'amani': 1,
+    'umoja': 1,
+    'furaha': 1.5,
+    'kazi nzuri': 2,
+    'ufisadi': -3,
+    '*fisadi': -3,
+    'wizi': -2.5,
+    'mwizi': -2.5,
+    'wezi': -2.5,
+    'kashfa': -3,
+    'uongo': -2,
+    'mwongo': -2,
+    'aibu': -2,
+    'mbaya': -1.5,
+    'hasira': -1.5,
+    'maandamano': -1.5,
+    'kuzomewa': -2,
+    '*zomea*': -2,
+    'ameshindwa': -2,
+    'kushindwa': -2,
+    'hajashinda': -1.5,
+    'hakushinda': -1.5,
+    'kufeli': -2,
+    'amefeli': -2,
+    'kutimuliwa': -2,
+    'kujiuzulu': -1.5,
+    'hatutaki': -2,
+    'tumechoka': -2,
+    'amekataliwa': -2,
+    'wamekataa': -1.5,
+    'ushuru zaidi': -1.5,
+    'dhuluma': -2.5,
+    'udanganyifu': -2.5,
+    'ukabila': -2,
+  },
+  sheng: {
+    'tutam': 2,
+    'ni yeye': 1.5,
+    'ni fiti': 1.5,
+    'fiti': 1,
+    'poa': 1,
+    'bazu': 1,
+    'msee wa watu': 2,
+    'ameweza': 1.5,
+    'wantam': -2.5,
+    'one term': -2.5,
+    'kasongo': -2,
+    'ameboo*': -1.5,
+    'ameboeka': -1.5,
+    'mkora': -2,
+    'wakora': -2,
+    'ni noma': -1,
+    'amechapwa': -2,
+    'amekula pesa': -3,
+    'kukula pesa': -3,
+    'zii': -1,
+    'siwezi': -1,
+  },
+};
+
+// Words that flip the terms after them
+const NEGATORS = new Set([
+  'not', 'no', 'never', 'without', 'nor', 'cannot', 'cant', 'dont', 'doesnt', 'didnt', 'isnt',
+  'wasnt', 'arent', 'werent', 'wont', 'hasnt', 'havent', 'hardly', 'denies', 'denied', 'deny',
+  'si', 'sio', 'siyo', 'hapana', 'bila', 'hakuna', 'hajawa', 'haja',
+]);
+const NEGATION_SCOPE = 3;
+// Negation weakens as well as flips: "not good" is milder than "bad"
+const NEGATION_FACTOR = -0.75;
+
+// English intensifiers precede the word they scale
+const INTENSIFIERS: Record<string, number> = {
+  very: 1.5, extremely: 1.8, highly: 1.4, hugely: 1.5, deeply: 1.5, sharply: 1.4, strongly: 1.4,
+  massively: 1.6, totally: 1.5, really: 1.3, most: 1.3, slightly: 0.6, somewhat: 0.7, barely: 0.5,
+  partly: 0.6, mildly: 0.6,
+};
+// Swahili and Sheng intensifiers follow it ("nzuri sana", "amefeli kabisa")
+const POST_INTENSIFIERS: Record<string, number> = {
+  sana: 1.5, kabisa: 1.6, mno: 1.5, zaidi: 1.3, kubwa: 1.3, vibaya: 1.4, mbaya: 1.3, kiasi: 0.7,
+};
+
+const CLAUSE_BREAK = /[.!?;\n]+|\s[-–—]\s|\b(?:but|however|although|though|whereas|while|lakini|ila|ingawa)\b/i;
+
+// Clause weights by who it is about
+const ABOUT_OTHERS_WEIGHT = 0;
+const UNATTRIBUTED_WEIGHT = 0.6;
+// In a clause naming the target and someone else, terms nearer the other person are theirs
+// ("Ruto praised as Kalonzo accused of graft"); equally near counts for the target
+const NEARER_OTHER_WEIGHT = 0;
+
+// Compound normalization (as in VADER): raw / sqrt(raw² + ALPHA) maps onto (-1, 1)
+const ALPHA = 15;
+const NEUTRAL_BAND = 0.15;
+const MIXED_RATIO = 0.5;
+
+const TOPIC_KEYWORDS: [ArticleTopic, string[]][] = [
+  ['scandal', ['scandal', 'corrupt', 'graft', 'fraud', 'embezzl', 'fisadi', 'kashfa', 'wizi']],
+  ['legal', ['court', 'petition', 'judge', 'mahakama', 'charged', 'case', 'acquit', 'lawsuit']],
+  ['polling', ['poll', 'survey', 'tifa', 'infotrak', 'ipsos', 'ratings']],
+  ['coalition', ['coalition', 'alliance', 'defect', 'muungano', 'azimio', 'kwanza', 'flagbearer', 'ticket']],
+  ['economy', ['tax', 'ushuru', 'economy', 'uchumi', 'prices', 'fuel', 'finance bill', 'debt', 'loan', 'fund']],
+  ['security', ['police', 'polisi', 'security', 'attack', 'killed', 'violence', 'teargas']],
+  ['campaign', ['rally', 'campaign', 'kampeni', 'crowd', 'tour', 'supporters', 'delegates']],
+  ['policy', ['policy', 'bill', 'housing', 'healthcare', 'manifesto', 'agenda', 'sera', 'levy']],
+  ['governance', ['cabinet', 'ministry', 'serikali', 'state house', 'parliament', 'mps', 'governor']],
+];
+
+export interface SentimentTarget {
+  name: string;
+  aliases?: string[];
+}
+
+export interface SentimentTerm {
+  term: string;
+  /** Signed contribution after negation, intensity and target weighting */
+  value: number;
+  negated: boolean;
+}
+
+export interface SentimentResult {
+  sentiment: SentimentType;
+  /** -1 (very negative) to 1 (very positive) */
+  score: number;
+  /** 0-1: how strong and how clearly about the target */
+  confidence: number;
+  /** Whether the target is named at all */
+  targetMentioned: boolean;
+  /** Total positive and negative weight, before normalization */
+  positive: number;
+  negative: number;
+  terms: SentimentTerm[];
+}
+
+interface LexiconEntry {
+  term: string;
+  weight: number;
+  tokens: (string | RegExp)[];
+}
+
+const normalize = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/['’`]/g, '')
+    .toLowerCase();
+
+const tokenize = (text: string): string[] => normalize(text).split(/[^a-z0-9-]+/).filter(Boolean);
+
+const compileToken = (token: string): string | RegExp =>
+  token.includes('*') ? new RegExp(`^${token.replace(/\*/g, '[a-z-]*')}$`) : token;
+
+// Longest phrases first, so "must go" wins over a single-word match at the same position
+const LEXICON: LexiconEntry[] = Object.values(SENTIMENT_LEXICONS)
+  .flatMap((lexicon) => Object.entries(lexicon))
+  .map(([term, weight]) => ({ term, weight, tokens: term.split(' ').map(compileToken) }))
+  .sort((a, b) => b.tokens.length - a.tokens.length);
+
+const tokenMatches = (token: string, pattern: string | RegExp): boolean =>
+  typeof pattern === 'string' ? token === pattern : pattern.test(token);
+
+const matchAt = (tokens: string[], index: number): LexiconEntry | null =>
+  LEXICON.find((entry) => entry.tokens.every((pattern, k) => tokens[index + k] !== undefined && tokenMatches(tokens[index + k], pattern))) ||
+  null;
+
+/** Token positions where any of `names` occurs (each name as a token sequence). */
+const mentionPositions = (tokens: string[], names: string[][]): number[] => {
+  const positions: number[] = [];
+  tokens.forEach((_, i) => {
+    if (names.some((name) => name.length > 0 && name.every((t, k) => tokens[i + k] === t))) positions.push(i);
+  });
+  return positions;
+};
+
+/** Full name, aliases and surname, tokenized. */
+const nameTokens = (target: SentimentTarget): string[][] => {
+  const names = aliasesFor({ id: '', name: target.name, aliases: target.aliases }).map(tokenize);
+  const full = tokenize(target.name);
+  if (full.length > 1 && full[full.length - 1].length > 3) names.push([full[full.length - 1]]);
+  return names.filter((n) => n.length > 0);
+};
+
+const nearest = (positions: number[], index: number): number =>
+  positions.reduce((best, p) => Math.min(best, Math.abs(p - index)), Infinity);
+
+/** Scored terms of one clause; `weightAt` gives the target weighting for a token position. */
+const scoreClause = (tokens: string[], weightAt: (index: number) => number): SentimentTerm[] => {
+  const terms: SentimentTerm[] = [];
+  let negateUntil = -1;
+
+  for (let i = 0; i < tokens.length; ) {
+    if (NEGATORS.has(tokens[i])) {
+      negateUntil = i + NEGATION_SCOPE;
+      i++;
+      continue;
+    }
+    const entry = matchAt(tokens, i);
+    if (!entry) {
+      i++;
+      continue;
+    }
+
+    const end = i + entry.tokens.length;
+    let value = entry.weight;
+    const before = INTENSIFIERS[tokens[i - 1]];
+    if (before) value *= before;
+    const after = POST_INTENSIFIERS[tokens[end]];
+    // "mbaya" is both a term and an intensifier; don't count it twice
+    if (after && !matchAt(tokens, end)) value *= after;
+
+    const negated = i <= negateUntil;
+    if (negated) value *= NEGATION_FACTOR;
+
+    const weight = weightAt(i);
+    if (weight > 0) terms.push({ term: entry.term, value: value * weight, negated });
+    i = end;
+  }
+  return terms;
+};
+
+/**
+ * Sentiment of `text` towards `target`. `others` are the people who might be the subject
+ * instead (e.g. the rest of the roster); clauses only about them are ignored.
+ */
+export const analyzeSentiment = (text: string, target: SentimentTarget, others: SentimentTarget[] = []): SentimentResult => {
+  const targetNames = nameTokens(target);
+  const otherNames = others.filter((o) => normalize(o.name) !== normalize(target.name)).flatMap(nameTokens);
+  const clauses = text.split(CLAUSE_BREAK).filter((c) => c && c.trim()).map(tokenize);
+  const targetMentioned = clauses.some((tokens) => mentionPositions(tokens, targetNames).length > 0);
+
+  const terms = clauses.flatMap((tokens) => {
+    const mine = mentionPositions(tokens, targetNames);
+    const theirs = mentionPositions(tokens, otherNames);
+    if (!targetMentioned) return scoreClause(tokens, () => (theirs.length ? ABOUT_OTHERS_WEIGHT : 1));
+    if (!mine.length) return scoreClause(tokens, () => (theirs.length ? ABOUT_OTHERS_WEIGHT : UNATTRIBUTED_WEIGHT));
+    if (!theirs.length) return scoreClause(tokens, () => 1);
+    return scoreClause(tokens, (i) => (nearest(mine, i) <= nearest(theirs, i) ? 1 : NEARER_OTHER_WEIGHT));
+  });
+
+  const raw = terms.reduce((sum, t) => sum + t.value, 0);
+  const score = raw / Math.sqrt(raw * raw + ALPHA);
+  const positive = terms.filter((t) => t.value > 0).reduce((sum, t) => sum + t.value, 0);
+  const negative = terms.filter((t) => t.value < 0).reduce((sum, t) => sum - t.value, 0);
+
+  return {
+    sentiment: score > NEUTRAL_BAND ? 'positive' : score < -NEUTRAL_BAND ? 'negative' : 'neutral',
+    score: parseFloat(score.toFixed(3)),
+    confidence: parseFloat((Math.abs(score) * (targetMentioned ? 1 : 0.6)).toFixed(3)),
+    targetMentioned,
+    positive: parseFloat(positive.toFixed(2)),
+    negative: parseFloat(negative.toFixed(2)),
+    terms,
+  };
+};
+
+const stanceOf = (result: SentimentResult): ArticleStance => {
+  const { positive, negative } = result;
+  if (positive > 1 && negative > 1 && Math.min(positive, negative) / Math.max(positive, negative) >= MIXED_RATIO) {
+    return 'mixed';
+  }
+  return result.sentiment === 'positive' ? 'supportive' : result.sentiment === 'negative' ? 'critical' : 'neutral';
+};
+
+const topicOf = (text: string): ArticleTopic => {
+  const lower = normalize(text);
+  return TOPIC_KEYWORDS.find(([, keywords]) => keywords.some((k) => lower.includes(k)))?.[0] || 'other';
+};
+
+// Without a roster, the figures the alias registry knows stand in as the possible other subjects
+const KNOWN_FIGURES: SentimentTarget[] = Object.keys(ALIAS_REGISTRY).map((name) => ({ name }));
+
+/** The engine's answer in the shape every provider's `analyzeArticle` returns. */
+export const analyzeArticleLocally = (
+  politician: Pick<Politician, 'name' | 'aliases'>,
+  item: RawNewsItem,
+  others: Pick<Politician, 'name' | 'aliases'>[] = KNOWN_FIGURES
+): ArticleAnalysis => {
+  const text = `${item.title}. ${item.snippet || ''}`;
+  const result = analyzeSentiment(text, politician, others);
+  const impact = MIN_IMPACT + Math.abs(result.score) * (MAX_IMPACT - MIN_IMPACT) * 0.7;
+  const top = [...result.terms].sort((a, b) => Math.abs(b.value) - Math.abs(a.value)).slice(0, 3);
+
+  return {
+    sentiment: result.sentiment,
+    impact: parseFloat(Math.min(MAX_IMPACT, impact).toFixed(2)),
+    stance: stanceOf(result),
+    topic: topicOf(text),
+    rationale: top.length
+      ? `Lexicon terms: ${top.map((t) => `${t.negated ? 'not ' : ''}${t.term} (${t.value > 0 ? '+' : ''}${t.value.toFixed(1)})`).join(', ')}`
+      : 'No sentiment terms found',
+  };
+};
+
+/** True when two labels point in opposite directions; neutral against either is not a conflict. */
+export const labelsConflict = (a: SentimentType, b: SentimentType): boolean =>
+  (a === 'positive' && b === 'negative') || (a === 'negative' && b === 'positive');
@@ -0,0 +1,425 @@
+import { ArticleAnalysis, HistoryItem, Source, SentimentType } from '../types';
+import { parseJSON } from './aiProvider';
+import { isPlaceholderUrl } from './eventProvenance';
+import { ARTICLE_ANALYSIS_SCHEMA, SENTIMENTS, STANCES, TOPICS, MIN_IMPACT, MAX_IMPACT } from './articleAnalysis';
+import { logger } from './logger';
+
+/**
+ * Structured Output
+ * One schema per AI task (event, article analysis, history, source suggestions, profile
+ * update, context). Each
+ * has a plain JSON Schema for backends that can constrain their output and a validator that
+ * coerces harmless differences (numeric strings, enum case) but rejects wrong values such as
+ * an out-of-range impact. `requestStructured` re-prompts with the errors when a reply fails.
+ */
+
+export type Validation<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+export interface OutputSchema<T> {
+  name: string;
+  /** Plain JSON Schema: Gemini `responseJsonSchema`, Ollama `format`, OpenAI `json_schema` */
+  jsonSchema: object;
+  validate(data: unknown): Validation<T>;
+}
+
+// Replies that still fail after this many tries count as a failed request
+export const MAX_STRUCTURED_ATTEMPTS = 2;
+
+export const SOURCE_TYPES: Source['type'][] = ['news', 'social', 'blog', 'tv'];
+export const MAX_HISTORY_IMPACT = 5.0;
+export const MIN_SOURCE_WEIGHT = 1.0;
+export const MAX_SOURCE_WEIGHT = 3.0;
+
+/** Collects errors while reading fields off a parsed reply. */
+class FieldReader {
+  readonly errors: string[] = [];
+
+  constructor(
+    private readonly data: Record<string, unknown>,
+    private readonly path = ''
+  ) {}
+
+  private label(key: string): string {
+    return this.path ? `${this.path}.${key}` : key;
+  }
+
+  string(key: string, required = true): string | undefined {
+    const value = this.data[key];
+    if (typeof value === 'string' && value.trim()) return value.trim();
+    if (typeof value === 'number') return String(value);
+    if (required) this.errors.push(`"${this.label(key)}" must be a non-empty string`);
+    return undefined;
+  }
+
+  number(key: string, min: number, max: number): number {
+    const raw = this.data[key];
+    const value = typeof raw === 'number' ? raw : parseFloat(String(raw ?? ''));
+    if (!Number.isFinite(value)) {
+      this.errors.push(`"${this.label(key)}" must be a number from ${min} to ${max}`);
+      return min;
+    }
+    if (value < min || value > max) {
+      this.errors.push(`"${this.label(key)}" is ${value}, must be from ${min} to ${max}`);
+    }
+    return value;
+  }
+
+  oneOf<T extends string>(key: string, allowed: readonly T[]): T {
+    const value = String(this.data[key] ?? '').toLowerCase().trim() as T;
+    if (allowed.includes(value)) return value;
+    this.errors.push(`"${this.label(key)}" must be one of ${allowed.map((a) => `"${a}"`).join(', ')}`);
+    return allowed[0];
+  }
+
+  strings(key: string): string[] {
+    const value = this.data[key];
+    if (value === undefined || value === null) return [];
+    if (typeof value === 'string') return value.trim() ? [value.trim()] : [];
+    if (!Array.isArray(value)) {
+      this.errors.push(`"${this.label(key)}" must be an array of strings`);
+      return [];
+    }
+    return value.map((v) => String(v).trim()).filter(Boolean);
+  }
+
+  /** Read each element of an array field with its own reader. */
+  array<T>(key: string, read: (item: FieldReader) => T): T[] {
+    const value = this.data[key];
+    if (!Array.isArray(value)) {
+      this.errors.push(`"${this.label(key)}" must be an array`);
+      return [];
+    }
+    return value.map((item, i) => {
+      const reader = new FieldReader(isObject(item) ? item : {}, `${this.label(key)}[${i}]`);
+      if (!isObject(item)) reader.errors.push(`"${this.label(key)}[${i}]" must be an object`);
+      const result = read(reader);
+      this.errors.push(...reader.errors);
+      return result;
+    });
+  }
+}
+
+const isObject = (data: unknown): data is Record<string, unknown> =>
+  !!data && typeof data === 'object' && !Array.isArray(data);
+
+/** Build a validator from a function that reads fields; any recorded error fails it. */
+const validator =
+  <T>(read: (fields: FieldReader) => T) =>
+  (data: unknown): Validation<T> => {
+    if (!isObject(data)) return { ok: false, errors: ['the reply must be a JSON object'] };
+    const fields = new FieldReader(data);
+    const value = read(fields);
+    return fields.errors.length ? { ok: false, errors: fields.errors } : { ok: true, value };
+  };
+
+// ─── Event ───
+
+export interface EventOutput {
+  headline: string;
+  sourceName?: string;
+  sentiment: SentimentType;
+  impact: number;
+  publishedDate?: string;
+  sourceUrl?: string;
+}
+
+export const EVENT_OUTPUT: OutputSchema<EventOutput> = {
+  name: 'news_event',
+  jsonSchema: {
+    type: 'object',
+    properties: {
+      sourceName: { type: 'string', description: 'The name of the news outlet or platform.' },
+      headline: { type: 'string', description: 'A concise headline summarizing the event.' },
+      sentiment: { type: 'string', enum: SENTIMENTS },
+      impact: {
+        type: 'number',
+        minimum: MIN_IMPACT,
+        maximum: MAX_IMPACT,
+        description: 'Political impact magnitude, 0.1 to 3.0.',
+      },
+      publishedDate: { type: 'string', description: 'When the news was published.' },
+      sourceUrl: { type: 'string', description: 'The direct URL to the article or post.' },
+    },
+    required: ['headline', 'sentiment', 'impact'],
+  },
+  validate: validator((f) => ({
+    headline: f.string('headline') || '',
+    sourceName: f.string('sourceName', false),
+    sentiment: f.oneOf('sentiment', SENTIMENTS),
+    impact: f.number('impact', MIN_IMPACT, MAX_IMPACT),
+    publishedDate: f.string('publishedDate', false),
+    sourceUrl: f.string('sourceUrl', false),
+  })),
+};
+
+// ─── Article analysis ───
+
+export const ARTICLE_ANALYSIS_OUTPUT: OutputSchema<ArticleAnalysis> = {
+  name: 'article_analysis',
+  jsonSchema: ARTICLE_ANALYSIS_SCHEMA,
+  validate: validator((f) => ({
+    sentiment: f.oneOf('sentiment', SENTIMENTS),
+    impact: f.number('impact', MIN_IMPACT, MAX_IMPACT),
+    stance: f.oneOf('stance', STANCES),
+    topic: f.oneOf('topic', TOPICS),
+    rationale: f.string('rationale', false),
+  })),
+};
+
+// ─── History ───
+
+export interface HistoryEntryOutput {
+  date: string;
+  headline: string;
+  sentiment: SentimentType;
+  /** Score change, -5.0 to +5.0 */
+  impact: number;
+  sourceUrl?: string;
+}
+
+export const HISTORY_OUTPUT: OutputSchema<{ history: HistoryEntryOutput[] }> = {
+  name: 'score_history',
+  jsonSchema: {
+    type: 'object',
+    properties: {
+      history: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            date: { type: 'string', description: 'Exact date of the event in YYYY-MM-DD format.' },
+            headline: { type: 'string', description: 'Event summary' },
+            sentiment: { type: 'string', enum: SENTIMENTS },
+            impact: {
+              type: 'number',
+              minimum: -MAX_HISTORY_IMPACT,
+              maximum: MAX_HISTORY_IMPACT,
+              description: 'Impact on popularity (-5.0 to +5.0)',
+            },
+            sourceUrl: { type: 'string', description: 'The URL of a source verifying the event.' },
+          },
+          required: ['date', 'headline', 'sentiment', 'impact'],
+        },
+      },
+    },
+    required: ['history'],
+  },
+  validate: validator((f) => ({
+    history: f.array('history', (e) => {
+      const date = e.string('date') || '';
+      if (date && isNaN(new Date(date).getTime())) e.errors.push(`date "${date}" is not a valid YYYY-MM-DD date`);
+      return {
+        date,
+        headline: e.string('headline') || '',
+        sentiment: e.oneOf('sentiment', SENTIMENTS),
+        impact: e.number('impact', -MAX_HISTORY_IMPACT, MAX_HISTORY_IMPACT),
+        sourceUrl: e.string('sourceUrl', false),
+      };
+    }),
+  })),
+};
+
+/**
+ * Turn validated entries after `cutoff` into a running score series starting at 100.
+ * Placeholder links are dropped rather than shown as sources.
+ */
+export const toHistoryItems = (entries: HistoryEntryOutput[], cutoff: Date): HistoryItem[] => {
+  let score = 100;
+  return entries
+    .filter((e) => new Date(e.date) >= cutoff)
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .map((e) => {
+      score += e.impact;
+      return {
+        time: e.date,
+        score: parseFloat(score.toFixed(2)),
+        reason: e.headline,
+        sourceUrl: isPlaceholderUrl(e.sourceUrl) ? undefined : e.sourceUrl,
+        sentiment: e.sentiment,
+      };
+    });
+};
+
+// ─── Source suggestions ───
+
+export const SOURCE_SUGGESTIONS_OUTPUT: OutputSchema<{ sources: Partial<Source>[] }> = {
+  name: 'source_suggestions',
+  jsonSchema: {
+    type: 'object',
+    properties: {
+      sources: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            type: { type: 'string', enum: SOURCE_TYPES },
+            weight: { type: 'number', minimum: MIN_SOURCE_WEIGHT, maximum: MAX_SOURCE_WEIGHT },
+          },
+          required: ['name', 'type', 'weight'],
+        },
+      },
+    },
+    required: ['sources'],
+  },
+  validate: validator((f) => ({
+    sources: f.array('sources', (s) => ({
+      name: s.string('name') || '',
+      type: s.oneOf('type', SOURCE_TYPES),
+      weight: s.number('weight', MIN_SOURCE_WEIGHT, MAX_SOURCE_WEIGHT),
+    })),
+  })),
+};
+
+// ─── Profile update ───
+
+export interface ProfileUpdateOutput {
+  party?: string;
+  coalition?: string;
+  role?: string;
+  slogan?: string;
+  bio?: string;
+}
+
+export const PROFILE_UPDATE_OUTPUT: OutputSchema<ProfileUpdateOutput> = {
+  name: 'profile_update',
+  jsonSchema: {
+    type: 'object',
+    properties: {
+      party: { type: 'string' },
+      coalition: { type: 'string' },
+      role: { type: 'string' },
+      slogan: { type: 'string' },
+      bio: { type: 'string' },
+    },
+    required: ['party', 'role'],
+  },
+  validate: validator((f) => ({
+    party: f.string('party'),
+    coalition: f.string('coalition', false),
+    role: f.string('role'),
+    slogan: f.string('slogan', false),
+    bio: f.string('bio', false),
+  })),
+};
+
+// ─── Candidate context ───
+
+export interface ContextOutput {
+  narrative: string;
+  summary: string;
+  keyEvents: string[];
+  strengths: string[];
+  weaknesses: string[];
+  controversies: string[];
+  allies: string[];
+  rivals: string[];
+  prediction?: string;
+}
+
+const stringList = { type: 'array', items: { type: 'string' } };
+
+export const CONTEXT_OUTPUT: OutputSchema<ContextOutput> = {
+  name: 'candidate_context',
+  jsonSchema: {
+    type: 'object',
+    properties: {
+      narrative: { type: 'string' },
+      summary: { type: 'string' },
+      keyEvents: stringList,
+      strengths: stringList,
+      weaknesses: stringList,
+      controversies: stringList,
+      allies: stringList,
+      rivals: stringList,
+      prediction: { type: 'string' },
+    },
+    required: ['narrative', 'summary', 'strengths', 'weaknesses'],
+  },
+  validate: validator((f) => ({
+    narrative: f.string('narrative') || '',
+    summary: f.string('summary') || '',
+    keyEvents: f.strings('keyEvents'),
+    strengths: f.strings('strengths'),
+    weaknesses: f.strings('weaknesses'),
+    controversies: f.strings('controversies'),
+    allies: f.strings('allies'),
+    rivals: f.strings('rivals'),
+    prediction: f.string('prediction', false),
+  })),
+};
+
+// ─── Request loop ───
+
+const JSON_ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+
+/**
+ * The string field `key` of a JSON reply that is still being generated, as far as it has
+ * arrived; '' until the field starts. Lets a streamed reply be shown before it parses.
+ */
+export const partialStringField = (text: string, key: string): string => {
+  const start = new RegExp(`"${key}"\\s*:\\s*"`).exec(text);
+  if (!start) return '';
+
+  let value = '';
+  for (let i = start.index + start[0].length; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '"') break;
+    if (ch !== '\\') {
+      value += ch;
+      continue;
+    }
+    const next = text[++i];
+    if (next === undefined) break;
+    if (next === 'u') {
+      const hex = text.slice(i + 1, i + 5);
+      if (hex.length < 4) break;
+      value += String.fromCharCode(parseInt(hex, 16));
+      i += 4;
+    } else {
+      value += JSON_ESCAPES[next] ?? next;
+    }
+  }
+  return value;
+};
+
+const repairPrompt = (prompt: string, reply: string, errors: string[]): string => `${prompt}
+
+Your previous reply was rejected:
+${errors.slice(0, 10).map((e) => `- ${e}`).join('\n')}
+
+Previous reply:
+${reply.slice(0, 2000)}
+
+Respond again with ONLY the corrected JSON.`;
+
+export const validateReply = <T>(text: string, schema: OutputSchema<T>): Validation<T> => {
+  const data = parseJSON(text);
+  return data === null ? { ok: false, errors: ['the reply is not valid JSON'] } : schema.validate(data);
+};
+
+/**
+ * Ask for a reply matching `schema`, re-prompting with the validation errors when one
+ * doesn't. `ask` sends a prompt and returns the raw text. Null if every attempt fails.
+ */
+export async function requestStructured<T>(
+  ask: (prompt: string) => Promise<string | null>,
+  prompt: string,
+  schema: OutputSchema<T>,
+  maxAttempts = MAX_STRUCTURED_ATTEMPTS
+): Promise<T | null> {
+  let current = prompt;
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const text = await ask(current);
+    if (!text) return null;
+
+    const result = validateReply(text, schema);
+    if (!('errors' in result)) return result.value;
+
+    logger.warn(
+      `[StructuredOutput] ${schema.name} reply rejected (attempt ${attempt}/${maxAttempts}): ${result.errors.join('; ')}`
+    );
+    current = repairPrompt(prompt, text, result.errors);
+  }
+  return null;
+}
@@ -0,0 +1,180 @@
+import { AIBudget, AIFeature, AIUsageRecord, ProviderType } from '../types';
+import { database } from './database';
+
+/**
+ * AI Usage Meter
+ * Counts requests, tokens and estimated cost for every provider call, aggregated per day,
+ * provider and feature (the part of the app that made the call), and persisted through the
+ * database. The FallbackProvider asks `allows()` before each attempt so daily budgets hold.
+ * The page and the ingestion worker each have a meter; they relay their records to each
+ * other so both count the same totals against the budget.
+ */
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/** USD per million tokens. Free tiers and local servers cost nothing. */
+export const PROVIDER_PRICING: Record<ProviderType, { input: number; output: number }> = {
+  gemini: { input: 0.3, output: 2.5 },
+  ollama: { input: 0, output: 0 },
+  huggingface: { input: 0, output: 0 },
+  openrouter: { input: 0, output: 0 },
+  'openai-compatible': { input: 0, output: 0 },
+  local: { input: 0, output: 0 },
+};
+
+export const FEATURE_LABELS: Record<AIFeature, string> = {
+  'live-feed': 'Live feed',
+  'candidate-refresh': 'Candidate refresh',
+  'history-backfill': 'History backfill',
+  'candidate-setup': 'New candidate setup',
+  'source-discovery': 'Source discovery',
+  'profile-update': 'Profile updates',
+  context: 'Candidate context',
+  scheduler: 'Hourly scheduler',
+  'prompt-eval': 'Prompt evaluation',
+  general: 'Other',
+};
+
+/** 0 in a budget field means no limit. */
+export const DEFAULT_AI_BUDGET: AIBudget = { dailyRequests: 0, dailyCostUsd: 0 };
+
+/** Rough count for providers that don't report tokens: ~4 characters per token. */
+export const estimateTokens = (text: string | null | undefined): number =>
+  text ? Math.ceil(text.length / 4) : 0;
+
+export const usageCost = (provider: ProviderType, usage: TokenUsage): number => {
+  const price = PROVIDER_PRICING[provider] || { input: 0, output: 0 };
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+};
+
+/**
+ * Tokens a provider has used since the last `take()`. Providers add to it after each HTTP
+ * response; the fallback chain takes it after each attempt.
+ */
+export class UsageCounter {
+  private input = 0;
+  private output = 0;
+
+  add(inputTokens: number, outputTokens: number): void {
+    this.input += inputTokens || 0;
+    this.output += outputTokens || 0;
+  }
+
+  take(): TokenUsage {
+    const usage = { inputTokens: this.input, outputTokens: this.output };
+    this.input = 0;
+    this.output = 0;
+    return usage;
+  }
+}
+
+export interface UsageTotals {
+  requests: number;
+  failures: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export const emptyUsageTotals = (): UsageTotals => ({
+  requests: 0,
+  failures: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  costUsd: 0,
+});
+
+export const sumUsage = (records: AIUsageRecord[]): UsageTotals =>
+  records.reduce(
+    (total, r) => ({
+      requests: total.requests + r.requests,
+      failures: total.failures + r.failures,
+      inputTokens: total.inputTokens + r.inputTokens,
+      outputTokens: total.outputTokens + r.outputTokens,
+      costUsd: total.costUsd + r.costUsd,
+    }),
+    emptyUsageTotals()
+  );
+
+const todayKey = (now = Date.now()): string => new Date(now).toISOString().split('T')[0];
+
+class UsageMeter {
+  private budget: AIBudget = DEFAULT_AI_BUDGET;
+  private listeners = new Set<() => void>();
+  private relays = new Set<(entry: AIUsageRecord) => void>();
+
+  setBudget(budget: AIBudget | undefined): void {
+    this.budget = { ...DEFAULT_AI_BUDGET, ...(budget || {}) };
+  }
+
+  getBudget(): AIBudget {
+    return this.budget;
+  }
+
+  today(): UsageTotals {
+    return sumUsage(database.getAIUsage(todayKey()));
+  }
+
+  /**
+   * Whether one more request to `provider` fits today's budget. The cost budget only
+   * blocks providers that charge, so free and local backends keep working once it's spent.
+   */
+  allows(provider: ProviderType): boolean {
+    const { dailyRequests, dailyCostUsd } = this.budget;
+    if (!dailyRequests && !dailyCostUsd) return true;
+
+    const today = this.today();
+    if (dailyRequests > 0 && today.requests >= dailyRequests) return false;
+    const charges = PROVIDER_PRICING[provider]?.input > 0 || PROVIDER_PRICING[provider]?.output > 0;
+    if (dailyCostUsd > 0 && charges && today.costUsd >= dailyCostUsd) return false;
+    return true;
+  }
+
+  record(provider: ProviderType, feature: AIFeature, ok: boolean, usage: TokenUsage): void {
+    const date = todayKey();
+    const entry: AIUsageRecord = {
+      id: `${date}|${provider}|${feature}`,
+      date,
+      provider,
+      feature,
+      requests: 1,
+      failures: ok ? 0 : 1,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      costUsd: usageCost(provider, usage),
+    };
+    database.recordAIUsage(entry);
+    this.relays.forEach((relay) => relay(entry));
+    this.notify();
+  }
+
+  /** Count a request another context recorded, and already stored. */
+  applyRelayed(entry: AIUsageRecord): void {
+    database.mergeAIUsage(entry).then(() => this.notify());
+  }
+
+  /** Called with each request recorded in this context, to pass on; returns an unsubscribe function. */
+  onRecorded(relay: (entry: AIUsageRecord) => void): () => void {
+    this.relays.add(relay);
+    return () => {
+      this.relays.delete(relay);
+    };
+  }
+
+  /** Called after every recorded request; returns an unsubscribe function. */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const usageMeter = new UsageMeter();
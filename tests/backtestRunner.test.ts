@@ -0,0 +1,132 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { NewsEvent, Politician, SentimentType } from '../types';
+import { BacktestDataset, diffHistories, runBacktest } from '../services/backtestRunner';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = Date.parse('2026-02-02T09:00:00Z');
+
+const politician = (id: string, history: Politician['history'] = []): Politician => ({
+  id,
+  name: id.toUpperCase(),
+  party: 'Independent',
+  role: 'Aspirant',
+  score: 100,
+  trend: 0,
+  color: '#000000',
+  image: '',
+  history,
+});
+
+const event = (day: number, politicianId: string, sentiment: SentimentType, impact = 1): NewsEvent => ({
+  id: START + day * DAY_MS,
+  politicianId,
+  sourceId: 'nation',
+  sourceName: 'Nation',
+  headline: `${politicianId} story on day ${day}`,
+  sentiment,
+  impact,
+  timestamp: new Date(START + day * DAY_MS).toISOString(),
+  provenance: 'article-derived',
+});
+
+const dataset = (): BacktestDataset => ({
+  politicians: [
+    politician('a', [
+      { time: '2026-02-02', score: 101 },
+      { time: '2026-02-04', score: 100 },
+    ]),
+    politician('b'),
+  ],
+  feed: [
+    event(2, 'a', 'negative', 3),
+    event(0, 'a', 'positive', 2),
+    event(1, 'b', 'positive'),
+    { ...event(3, 'b', 'positive', 5), provenance: 'model-generated' },
+  ],
+  sources: [],
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('diffHistories', () => {
+  it('compares the last score of each day and leaves gaps unmatched', () => {
+    const diff = diffHistories(
+      [
+        { time: '2026-02-02T08:00:00Z', score: 100 },
+        { time: '2026-02-02T18:00:00Z', score: 102 },
+        { time: '2026-02-03', score: 103 },
+      ],
+      [
+        { time: '2026-02-02', score: 101.5 },
+        { time: '2026-02-04', score: 99 },
+      ]
+    );
+    expect(diff).toEqual([
+      { time: '2026-02-02', recorded: 102, replayed: 101.5, delta: -0.5 },
+      { time: '2026-02-03', recorded: 103, replayed: null, delta: null },
+      { time: '2026-02-04', recorded: null, replayed: 99, delta: null },
+    ]);
+  });
+});
+
+describe('runBacktest', () => {
+  it('replays scoreable events in time order and diffs against recorded history', async () => {
+    const result = await runBacktest(dataset(), { scoringModel: 'linear', speed: 0 });
+
+    expect(result.eventsApplied).toBe(3);
+    expect(result.asOf).toBe(START + 3 * DAY_MS);
+    expect(result.replay.histories.a.map((h) => h.score)).toEqual([102, 99]);
+    expect(result.politicians[0]).toMatchObject({
+      politicianId: 'a',
+      recordedFinal: 100,
+      replayedFinal: 99,
+      meanAbsDelta: 1,
+      maxAbsDelta: 1,
+    });
+    expect(result.aborted).toBe(false);
+  });
+
+  it('includes model-generated events when asked', async () => {
+    const result = await runBacktest(dataset(), { scoringModel: 'linear', speed: 0, includeModelGenerated: true });
+    expect(result.eventsApplied).toBe(4);
+    expect(result.politicians[1].replayedFinal).toBe(106);
+  });
+
+  it('gives the same result for the same dataset and model', async () => {
+    const first = await runBacktest(dataset(), { scoringModel: 'bayesian', speed: 0 });
+    const second = await runBacktest(dataset(), { scoringModel: 'bayesian', speed: 0 });
+    expect(second).toEqual(first);
+  });
+
+  it('paces events by simulated time, capping long gaps', async () => {
+    vi.useFakeTimers();
+    const progress: number[] = [];
+    const run = runBacktest(
+      dataset(),
+      { scoringModel: 'linear', speed: DAY_MS / 500 },
+      { onProgress: (p) => progress.push(p.processed) }
+    );
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(progress).toEqual([1]);
+    await vi.advanceTimersByTimeAsync(499);
+    expect(progress).toEqual([1]);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(progress).toEqual([1, 2]);
+    await vi.runAllTimersAsync();
+    expect((await run).eventsApplied).toBe(3);
+  });
+
+  it('stops when aborted and reports how far it got', async () => {
+    const controller = new AbortController();
+    const result = await runBacktest(
+      dataset(),
+      { scoringModel: 'linear', speed: 0 },
+      { signal: controller.signal, onProgress: () => controller.abort() }
+    );
+    expect(result.aborted).toBe(true);
+    expect(result.eventsApplied).toBe(1);
+  });
+});
@@ -0,0 +1,127 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NewsEvent, Politician } from '../types';
+import { newsVelocity } from '../services/cadencePlanner';
+
+type Planner = typeof import('../services/cadencePlanner')['cadencePlanner'];
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const NOW = Date.parse('2026-03-10T12:00:00Z');
+
+const politician = (id: string): Politician => ({
+  id,
+  name: id.toUpperCase(),
+  party: 'Independent',
+  role: 'Aspirant',
+  score: 100,
+  trend: 0,
+  color: '#000000',
+  image: '',
+  history: [],
+});
+
+let nextId = 1;
+const event = (politicianId: string, hoursAgo: number, impact = 1): NewsEvent => ({
+  id: nextId++,
+  politicianId,
+  sourceId: 'nation',
+  sourceName: 'Nation',
+  headline: `${politicianId} story`,
+  sentiment: 'neutral',
+  impact,
+  timestamp: new Date(NOW - hoursAgo * HOUR).toISOString(),
+});
+
+const burst = (politicianId: string, count: number) => Array.from({ length: count }, () => event(politicianId, 1));
+
+const ROSTER = ['busy', 'quiet'].map(politician);
+
+describe('news velocity', () => {
+  it('counts impact-weighted mentions from the last day, including secondary ones', () => {
+    const joint: NewsEvent = {
+      ...event('other', 2),
+      mentions: [
+        { politicianId: 'other', sentiment: 'neutral', impact: 1 },
+        { politicianId: 'busy', sentiment: 'negative', impact: 2 },
+      ],
+    };
+    const steady = [0, 1, 2, 3, 4, 5, 6].map((day) => event('busy', day * 24 + 1, 0.5));
+    expect(newsVelocity([...steady, joint], 'busy', NOW)).toBeCloseTo(2.5 + (2.5 - 5.5 / 7));
+  });
+
+  it('counts a burst above the weekly average twice', () => {
+    const steady = [0, 1, 2, 3, 4, 5, 6].map((day) => event('busy', day * 24 + 1));
+    expect(newsVelocity(steady, 'busy', NOW)).toBe(1);
+    expect(newsVelocity(burst('busy', 3), 'busy', NOW)).toBeCloseTo(3 + 3 - 3 / 7);
+  });
+
+  it('ignores events older than a week or from the future', () => {
+    expect(newsVelocity([event('busy', 8 * 24), event('busy', -1)], 'busy', NOW)).toBe(0);
+  });
+});
+
+describe('cadence planner', () => {
+  let planner: Planner;
+
+  beforeEach(async () => {
+    vi.resetModules();
+    planner = (await import('../services/cadencePlanner')).cadencePlanner;
+  });
+
+  it('polls busy politicians more often than quiet ones', () => {
+    const [busy, quiet] = planner.plan(ROSTER, burst('busy', 4), 10 * MINUTE, NOW);
+    expect(busy.intervalMs).toBeLessThan(10 * MINUTE);
+    expect(quiet.intervalMs).toBeGreaterThan(10 * MINUTE);
+  });
+
+  it('keeps the base interval when everyone is equally busy', () => {
+    const plan = planner.plan(ROSTER, [...burst('busy', 2), ...burst('quiet', 2)], 10 * MINUTE, NOW);
+    expect(plan.map((e) => e.intervalMs)).toEqual([10 * MINUTE, 10 * MINUTE]);
+  });
+
+  it('clamps how far velocity moves an interval', () => {
+    const roster = ['busy', 'b', 'c', 'd', 'e', 'f', 'g', 'h'].map(politician);
+    const [busy, quiet] = planner.plan(roster, burst('busy', 100), 10 * MINUTE, NOW);
+    expect(busy.intervalMs).toBe(2.5 * MINUTE);
+    expect(quiet.intervalMs).toBe(40 * MINUTE);
+  });
+
+  it('stretches every interval evenly to fit the hourly budget', () => {
+    planner.setBudget(60);
+    // Two politicians every minute would be 120 polls an hour
+    expect(planner.plan(ROSTER, [], MINUTE, NOW).map((e) => e.intervalMs)).toEqual([2 * MINUTE, 2 * MINUTE]);
+    planner.setBudget(0);
+    expect(planner.plan(ROSTER, [], MINUTE, NOW).map((e) => e.intervalMs)).toEqual([MINUTE, MINUTE]);
+  });
+
+  it('picks never-fetched politicians first, busiest first', () => {
+    const feed = burst('quiet', 1).concat(burst('busy', 4));
+    expect(planner.next(ROSTER, feed, 10 * MINUTE, NOW)?.id).toBe('busy');
+    planner.recordPoll('busy', NOW);
+    expect(planner.next(ROSTER, feed, 10 * MINUTE, NOW)?.id).toBe('quiet');
+  });
+
+  it('waits until someone is due, then picks whoever is most overdue', () => {
+    planner.recordPoll('busy', NOW);
+    planner.recordPoll('quiet', NOW);
+    expect(planner.next(ROSTER, [], 10 * MINUTE, NOW + 9 * MINUTE)).toBeNull();
+
+    // A restored poll older than the one recorded is ignored; ties go to the first on the roster
+    planner.restore('quiet', NOW - 5 * MINUTE);
+    expect(planner.next(ROSTER, [], 10 * MINUTE, NOW + 10 * MINUTE)?.id).toBe('busy');
+    planner.restore('busy', NOW + 2 * MINUTE);
+    expect(planner.next(ROSTER, [], 10 * MINUTE, NOW + 10 * MINUTE)?.id).toBe('quiet');
+  });
+
+  it('stops once the hourly budget is spent, without counting restored polls against it', () => {
+    planner.setBudget(2);
+    planner.restore('busy', NOW);
+    expect(planner.pollsLastHour(NOW)).toBe(0);
+
+    planner.recordPoll('busy', NOW);
+    planner.recordPoll('quiet', NOW + MINUTE);
+    expect(planner.allows(NOW + MINUTE)).toBe(false);
+    expect(planner.next(ROSTER, [], MINUTE, NOW + 30 * MINUTE)).toBeNull();
+    expect(planner.allows(NOW + HOUR)).toBe(true);
+  });
+});
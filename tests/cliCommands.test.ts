@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { INITIAL_POLITICIANS, INITIAL_SOURCES } from '../constants';
+import { database } from '../services/database';
+import { DEFAULT_CONFIG } from '../services/configDefaults';
+import { emptyIngestionStats, fetchRealNewsEvents } from '../services/realTimeNewsFetcher';
+import { COMMANDS, CliError } from '../cli/commands';
+
+vi.mock('../services/realTimeNewsFetcher', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../services/realTimeNewsFetcher')>()),
+  fetchRealNewsEvents: vi.fn(),
+}));
+
+const fetchNews = vi.mocked(fetchRealNewsEvents);
+
+describe('CLI commands', () => {
+  let stdout: string[];
+
+  beforeEach(async () => {
+    await database.useSnapshotStore({ load: () => null, save: () => {} });
+    database.clearAllData();
+    database.setPoliticians(INITIAL_POLITICIANS);
+    database.setSources(INITIAL_SOURCES);
+    fetchNews.mockReset();
+    fetchNews.mockResolvedValue({ events: [], stats: emptyIngestionStats() });
+
+    stdout = [];
+    vi.spyOn(process.stdout, 'write').mockImplementation((chunk) => {
+      stdout.push(String(chunk));
+      return true;
+    });
+  });
+
+  afterEach(() => vi.restoreAllMocks());
+
+  const lines = () => stdout.join('').trimEnd().split('\n');
+
+  it('prints the standings', async () => {
+    await COMMANDS.score(DEFAULT_CONFIG, {});
+    expect(lines()).toHaveLength(INITIAL_POLITICIANS.length);
+    expect(lines()[0]).toMatch(/^\s+1\s+100\.00\s+\S/);
+  });
+
+  it('fetches one politician named on the command line, whatever the case', async () => {
+    fetchNews.mockResolvedValueOnce({
+      events: [{ headline: 'Ruto opens Nakuru housing project', sentiment: 'positive', impact: 1 }],
+      stats: emptyIngestionStats(),
+    });
+
+    await COMMANDS.fetch(DEFAULT_CONFIG, { politician: 'ruto' });
+    expect(fetchNews).toHaveBeenCalledTimes(1);
+    expect(fetchNews.mock.calls[0][0].name).toBe('William Ruto');
+    expect(lines()).toEqual(['1 new event(s)', '  [positive] William Ruto: Ruto opens Nakuru housing project']);
+  });
+
+  it('reports how many due jobs it ran on stdout', async () => {
+    await COMMANDS.fetch(DEFAULT_CONFIG, { max: '2' });
+    expect(lines()).toEqual(['Ran 2 fetch job(s)', '0 new event(s)']);
+  });
+
+  it('rejects a politician it cannot resolve and bad numeric options', async () => {
+    await expect(COMMANDS.fetch(DEFAULT_CONFIG, { politician: 'Nobody Atall' })).rejects.toThrow(CliError);
+    await expect(COMMANDS.report(DEFAULT_CONFIG, { days: '0' })).rejects.toThrow('--days must be a positive whole number');
+  });
+
+  it('writes an export to --out and says where', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'polimetric-'));
+    const out = join(dir, 'export.json');
+    try {
+      await COMMANDS.export(DEFAULT_CONFIG, { out });
+      expect(lines()).toEqual([`Wrote ${out}`]);
+      expect(JSON.parse(readFileSync(out, 'utf8')).politicians).toHaveLength(INITIAL_POLITICIANS.length);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('prints the report as JSON', async () => {
+    await COMMANDS.report(DEFAULT_CONFIG, { json: true, days: '3' });
+    const report = JSON.parse(stdout.join(''));
+    expect(report.days).toBe(3);
+    expect(report.standings).toHaveLength(INITIAL_POLITICIANS.length);
+  });
+});
@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { HistoryItem, NewsEvent, Politician } from '../types';
+import { database } from '../services/database';
+
+const event = (id: number, headline = `Story ${id}`): NewsEvent => ({
+  id,
+  politicianId: 'ruto',
+  sourceId: 'nation',
+  sourceName: 'Nation',
+  headline,
+  sentiment: 'neutral',
+  impact: 1,
+  timestamp: new Date(id).toISOString(),
+});
+
+describe('database feed', () => {
+  beforeEach(async () => {
+    await database.useSnapshotStore({ load: () => null, save: () => {} });
+    database.clearAllData();
+  });
+
+  it('keeps stored events that a new batch leaves out', () => {
+    database.putFeedEvents([event(1), event(2), event(3)]);
+    database.putFeedEvents([event(4)]);
+    expect(database.getFeed().map((e) => e.id)).toEqual([4, 3, 2, 1]);
+  });
+
+  it('replaces an event stored under the same id', () => {
+    database.putFeedEvents([event(1), event(2)]);
+    database.putFeedEvents([event(1, 'Corrected')]);
+    expect(database.getFeed().map((e) => e.headline)).toEqual(['Story 2', 'Corrected']);
+  });
+
+  it('keeps the feed newest first when older events arrive', () => {
+    database.putFeedEvents([event(5), event(2)]);
+    database.putFeedEvents([event(3), event(1)]);
+    expect(database.getFeed().map((e) => e.id)).toEqual([5, 3, 2, 1]);
+  });
+
+  it('pages back through events older than a given one', async () => {
+    database.putFeedEvents([1, 2, 3, 4, 5].map((id) => event(id)));
+    expect((await database.getFeedPage(5, 2)).map((e) => e.id)).toEqual([4, 3]);
+    expect((await database.getFeedPage(2, 2)).map((e) => e.id)).toEqual([1]);
+  });
+});
+
+describe('database snapshot store', () => {
+  it('saves a fetch schedule update', async () => {
+    const saves: string[] = [];
+    await database.useSnapshotStore({ load: () => null, save: (json) => saves.push(json) });
+    database.clearAllData();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    saves.length = 0;
+
+    database.updateFetchSchedule({ fetchCount: 3 });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(saves).toHaveLength(1);
+    expect(JSON.parse(saves[0]).fetchSchedule.fetchCount).toBe(3);
+  });
+});
+
+describe('database score history', () => {
+  beforeEach(async () => {
+    await database.useSnapshotStore({ load: () => null, save: () => {} });
+    database.clearAllData();
+  });
+
+  it('keeps a point for each event even when two match on day, reason and score', async () => {
+    const point = (eventId: number): HistoryItem => ({ time: '2026-01-05', score: 50, reason: 'Live: Rally', eventId });
+    const ruto = { id: 'ruto', name: 'William Ruto', history: [point(1)] } as Politician;
+    database.setPoliticians([ruto]);
+    database.setPoliticians([{ ...ruto, history: [...ruto.history, point(2)] }]);
+    await database.waitForReady();
+
+    expect((await database.getScoreHistory('ruto')).map((p) => p.eventId)).toEqual([1, 2]);
+    expect(database.getRollups('ruto', 'day')[0].eventCount).toBe(2);
+  });
+});
+
+describe('database export', () => {
+  beforeEach(async () => {
+    await database.useSnapshotStore({ load: () => null, save: () => {} });
+    database.clearAllData();
+  });
+
+  it('carries score history and rollups through a full export and import', async () => {
+    await database.appendScorePoints([
+      { id: 'a', politicianId: 'ruto', time: '2026-01-05', timeMs: Date.parse('2026-01-05'), recordedAt: 1, score: 101 },
+      { id: 'b', politicianId: 'ruto', time: '2026-01-06', timeMs: Date.parse('2026-01-06'), recordedAt: 2, score: 99 },
+    ]);
+    const exported = await database.exportData();
+    const before = await database.getScoreCollections();
+
+    database.clearAllData();
+    expect((await database.getScoreCollections()).scoreHistory).toEqual([]);
+
+    expect(await database.importData(exported)).toBe(true);
+    expect(await database.getScoreCollections()).toEqual(before);
+    expect(database.getRollups('ruto', 'day').map((r) => r.close)).toEqual([101, 99]);
+  });
+});
@@ -0,0 +1,100 @@
+import 'fake-indexeddb/auto';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { NewsEvent, Politician } from '../types';
+import { database } from '../services/database';
+
+const HOUR_MS = 60 * 60 * 1000;
+const START = Date.parse('2026-01-01T00:00:00Z');
+
+const event = (n: number): NewsEvent => ({
+  id: START + n,
+  politicianId: n % 2 ? 'ruto' : 'kalonzo',
+  sourceId: 'nation',
+  sourceName: 'Nation',
+  headline: `Story ${n}`,
+  sentiment: 'neutral',
+  impact: 1,
+  timestamp: new Date(START + n * HOUR_MS).toISOString(),
+});
+
+const EVENTS = Array.from({ length: 600 }, (_, n) => event(n));
+
+describe('database feed with IndexedDB', () => {
+  beforeAll(async () => {
+    await database.waitForReady();
+    await database.putFeedEvents(EVENTS);
+  });
+
+  it('keeps only the most recent events in memory', () => {
+    const cached = database.getFeed();
+    expect(cached).toHaveLength(500);
+    expect(cached[0].id).toBe(START + 599);
+    expect(cached[cached.length - 1].id).toBe(START + 100);
+  });
+
+  it('reads older events from the store', async () => {
+    const older = await database.getFeedPage(START + 100, 1000);
+    expect(older.map((e) => e.id)).toEqual(EVENTS.slice(0, 100).map((e) => e.id).reverse());
+    expect(await database.getAllFeed()).toHaveLength(600);
+  });
+
+  it('answers time ranges from the timestamp index', async () => {
+    const since = await database.getFeedSince(new Date(START + 590 * HOUR_MS));
+    expect(since.map((e) => e.id)).toEqual(EVENTS.slice(590).map((e) => e.id).reverse());
+  });
+
+  it("answers one politician's time range from the mention index", async () => {
+    const joint: NewsEvent = {
+      ...event(600),
+      politicianId: 'kalonzo',
+      mentions: [
+        { politicianId: 'kalonzo', sentiment: 'positive', impact: 1 },
+        { politicianId: 'ruto', sentiment: 'negative', impact: 1 },
+      ],
+    };
+    await database.putFeedEvents([joint]);
+
+    const since = await database.getFeedSince(new Date(START + 595 * HOUR_MS), 'ruto');
+    expect(since.map((e) => e.id)).toEqual([START + 600, START + 599, START + 597, START + 595]);
+    expect(since[0]).toEqual(joint);
+  });
+});
+
+const putRaw = (storeName: string, value: unknown, key?: string): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open('polimetric_db');
+    request.onsuccess = () => {
+      const tx = request.result.transaction(storeName, 'readwrite');
+      tx.objectStore(storeName).put(value, key);
+      tx.oncomplete = () => {
+        request.result.close();
+        resolve();
+      };
+      tx.onerror = () => reject(tx.error);
+    };
+  });
+
+describe('schema migration with IndexedDB', () => {
+  it('stores the score history rebuilt from politician history', async () => {
+    const ruto = {
+      id: 'ruto',
+      name: 'William Ruto',
+      history: [
+        { time: '2026-01-02', score: 50, reason: 'Rally' },
+        { time: '2026-01-03', score: 52, reason: 'Budget' },
+      ],
+    } as Politician;
+    await putRaw('politicians', ruto);
+    await putRaw('meta', 3, 'schemaVersion');
+
+    // A page that opens stores written by an older build migrates them
+    vi.stubGlobal('window', globalThis);
+    vi.resetModules();
+    const { database: reopened } = await import('../services/database');
+    await reopened.waitForReady();
+    vi.unstubAllGlobals();
+
+    expect((await reopened.getScoreHistory('ruto')).map((p) => p.score)).toEqual([50, 52]);
+    expect(reopened.getRollups('ruto', 'day')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,44 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+
+const JOINT = {
+  id: 1,
+  politicianId: 'kalonzo',
+  sourceId: 'nation',
+  sourceName: 'Nation',
+  headline: 'Kalonzo and Ruto trade barbs',
+  sentiment: 'neutral',
+  impact: 1,
+  timestamp: '2026-01-01T00:00:00.000Z',
+  mentions: [
+    { politicianId: 'kalonzo', sentiment: 'positive', impact: 1 },
+    { politicianId: 'ruto', sentiment: 'negative', impact: 1 },
+  ],
+};
+
+/** A feed store as version 7 left it: no mention index, and records without mention keys. */
+const createVersion7Feed = (): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open('polimetric_db', 7);
+    request.onupgradeneeded = () => {
+      const feed = request.result.createObjectStore('feed', { keyPath: 'id' });
+      feed.createIndex('timestamp', 'timestampMs');
+      feed.createIndex('politicianId_timestamp', ['politicianId', 'timestampMs']);
+      feed.put({ ...JOINT, timestampMs: Date.parse(JOINT.timestamp) });
+    };
+    request.onsuccess = () => {
+      request.result.close();
+      resolve();
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+describe('IndexedDB schema upgrade', () => {
+  it('indexes the mentions of feed events stored by an older version', async () => {
+    await createVersion7Feed();
+    const { database } = await import('../services/database');
+    await database.waitForReady();
+
+    expect(await database.getFeedSince(new Date(0), 'ruto')).toEqual([JOINT]);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { EntityResolver, ResolvableEntity } from '../services/entityResolver';
+
+const ENTITIES: ResolvableEntity[] = [
+  { id: 'ruto', name: 'William Ruto' },
+  { id: 'raila', name: 'Raila Odinga' },
+  { id: 'kalonzo', name: 'Kalonzo Musyoka' },
+  { id: 'kuria', name: 'Moses Kuria' },
+  { id: 'karua', name: 'Martha Karua' },
+  { id: 'gideon', name: 'Gideon Moi' },
+  { id: 'oparanya', name: 'Francis Oparanya' },
+];
+
+const resolver = new EntityResolver(ENTITIES);
+const ids = (text: string) => resolver.resolve(text).map((m) => m.id);
+
+describe('entity resolution in article text', () => {
+  it('counts short aliases only when capitalised', () => {
+    expect(ids('Baba addressed the crowd in Kisumu')).toEqual(['raila']);
+    expect(ids('the baba of the bride spoke first')).toEqual([]);
+  });
+
+  it('tolerates one typo in long tokens but not in short ones', () => {
+    expect(ids('Musyokka toured Machakos')).toEqual(['kalonzo']);
+    expect(ids('Musyokkaa toured Machakos')).toEqual([]);
+    expect(ids('Rutto toured Eldoret')).toEqual([]);
+  });
+
+  it('does not attribute nicknames and first names that others share', () => {
+    expect(ids('Zakayo comes for your pay slip again')).toEqual([]);
+    expect(ids('The Iron Lady of the county assembly resigned')).toEqual([]);
+    expect(ids('Gideon Kibet won the marathon')).toEqual([]);
+  });
+
+  it('skips a surname preceded by another given name', () => {
+    expect(ids('Peter Kuria opened a hardware store')).toEqual([]);
+    expect(ids('Wycliffe Oparanya met Kuria in Kakamega')).toEqual(['kuria']);
+  });
+});
+
+describe('entity resolution of bare names', () => {
+  it('ignores case, including for short aliases', () => {
+    expect(resolver.resolveName('ruto')?.id).toBe('ruto');
+    expect(resolver.resolveName('RAILA ODINGA')?.id).toBe('raila');
+  });
+
+  it('resolves a surname on its own or after the right given name or a title', () => {
+    expect(resolver.resolveName('kuria')?.id).toBe('kuria');
+    expect(resolver.resolveName('Hon. Moses Kuria')?.id).toBe('kuria');
+    expect(resolver.resolveName('Governor Oparanya')?.id).toBe('oparanya');
+  });
+
+  it('rejects a surname that belongs to someone else', () => {
+    expect(resolver.resolveName('wycliffe oparanya')).toBeNull();
+    expect(resolver.resolveName('Kuria Kimani')).toBeNull();
+    expect(resolver.resolveName('Gideon')).toBeNull();
+  });
+});
@@ -0,0 +1,44 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { existsSync, mkdtempSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fileSnapshotStore } from '../cli/fileSnapshotStore';
+
+describe('file snapshot store', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'polimetric-'));
+  });
+
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('loads nothing before the first save', () => {
+    expect(fileSnapshotStore(join(dir, 'db.json')).load()).toBeNull();
+  });
+
+  it('loads what it saved, creating the directory', () => {
+    const path = join(dir, 'data', 'db.json');
+    fileSnapshotStore(path).save('{"schemaVersion":4}');
+    expect(fileSnapshotStore(path).load()).toBe('{"schemaVersion":4}');
+  });
+
+  it('replaces the file through a rename, leaving no temporary file', () => {
+    const path = join(dir, 'db.json');
+    const store = fileSnapshotStore(path);
+    store.save('first');
+    store.save('second');
+    expect(store.load()).toBe('second');
+    expect(readdirSync(dir)).toEqual(['db.json']);
+  });
+
+  it('keeps the last snapshot when a save died before its rename', () => {
+    const path = join(dir, 'db.json');
+    fileSnapshotStore(path).save('complete');
+    writeFileSync(`${path}.tmp`, 'trunc');
+
+    expect(fileSnapshotStore(path).load()).toBe('complete');
+    fileSnapshotStore(path).save('next');
+    expect(existsSync(`${path}.tmp`)).toBe(false);
+  });
+});
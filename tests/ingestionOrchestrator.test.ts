@@ -0,0 +1,118 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Politician } from '../types';
+import { database } from '../services/database';
+import { getDefaultAIProviderConfig } from '../services/configDefaults';
+import { emptyIngestionStats, fetchRealNewsEvents } from '../services/realTimeNewsFetcher';
+import { backoffDelay, ingestionOrchestrator } from '../services/ingestionOrchestrator';
+
+vi.mock('../services/realTimeNewsFetcher', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../services/realTimeNewsFetcher')>()),
+  fetchRealNewsEvents: vi.fn(),
+}));
+
+const MINUTE = 60 * 1000;
+const fetchNews = vi.mocked(fetchRealNewsEvents);
+
+const politician = (id: string): Politician => ({
+  id,
+  name: id.toUpperCase(),
+  party: 'Independent',
+  role: 'Aspirant',
+  score: 100,
+  trend: 0,
+  color: '#000000',
+  image: '',
+  history: [],
+});
+
+const batch = (headline?: string) => ({
+  events: headline ? [{ headline, sentiment: 'neutral' as const, impact: 1 }] : [],
+  stats: emptyIngestionStats(),
+});
+
+const job = (id: string) => ingestionOrchestrator.getJobs().find((j) => j.id === id)!;
+
+const configure = (ids: string[]) =>
+  ingestionOrchestrator.configure({
+    politicians: ids.map(politician),
+    sources: [],
+    aiProviderConfig: getDefaultAIProviderConfig(),
+    scanInterval: MINUTE,
+  });
+
+beforeEach(async () => {
+  await database.useSnapshotStore({ load: () => null, save: () => {} });
+  database.clearAllData();
+  fetchNews.mockReset();
+});
+
+describe('ingestion job backoff', () => {
+  it('doubles the wait after each consecutive failure, up to six hours', () => {
+    expect([1, 2, 3, 4].map((n) => backoffDelay(n) / MINUTE)).toEqual([2, 4, 8, 16]);
+    expect(backoffDelay(9)).toBe(6 * 60 * MINUTE);
+    expect(backoffDelay(0)).toBe(2 * MINUTE);
+  });
+
+  it('records a failed fetch and schedules its retry after the backoff', async () => {
+    configure(['a']);
+    fetchNews.mockRejectedValue('feed unreachable');
+
+    await ingestionOrchestrator.refresh('a');
+    const afterOne = job('a');
+    expect(afterOne).toMatchObject({ status: 'failed', attempts: 1, lastError: 'feed unreachable' });
+    expect(afterOne.nextRunAt - afterOne.lastRunAt!).toBeGreaterThanOrEqual(backoffDelay(1));
+
+    fetchNews.mockRejectedValue(new Error('HTTP 503'));
+    await ingestionOrchestrator.refresh('a');
+    expect(job('a')).toMatchObject({ status: 'failed', attempts: 2, lastError: 'HTTP 503' });
+  });
+
+  it('clears the failure count when a retry succeeds', async () => {
+    configure(['a']);
+    fetchNews.mockRejectedValueOnce(new Error('timeout'));
+    await ingestionOrchestrator.refresh('a');
+
+    fetchNews.mockResolvedValueOnce(batch('Rally in Nakuru'));
+    const events = await ingestionOrchestrator.refresh('a');
+    expect(events.map((e) => e.headline)).toEqual(['Rally in Nakuru']);
+    expect(job('a')).toMatchObject({ status: 'succeeded', attempts: 0, lastError: undefined, lastEventCount: 1 });
+  });
+});
+
+describe('ingestion queue', () => {
+  const fetchedIds = () => fetchNews.mock.calls.map(([p]) => p.id);
+
+  it('runs pending jobs, then failed jobs past their backoff, and leaves backing-off jobs alone', async () => {
+    configure(['a', 'b', 'c']);
+    const now = Date.now();
+    database.putFetchJobs([
+      { ...job('a'), status: 'failed', attempts: 1, nextRunAt: now - 1 },
+      { ...job('b'), status: 'failed', attempts: 3, nextRunAt: now + 60 * MINUTE },
+      { ...job('c'), status: 'pending', nextRunAt: now + 60 * MINUTE },
+    ]);
+    fetchNews.mockResolvedValue(batch());
+
+    expect(await ingestionOrchestrator.runDue(5)).toBe(2);
+    expect(fetchedIds()).toEqual(['c', 'a']);
+    expect(job('b').status).toBe('failed');
+  });
+
+  it('makes a manual refresh wait for the job in flight', async () => {
+    configure(['a', 'b']);
+    let finishFirst = () => {};
+    fetchNews.mockImplementationOnce(() => new Promise((resolve) => (finishFirst = () => resolve(batch()))));
+    fetchNews.mockResolvedValue(batch('Manual refresh'));
+
+    const scheduled = ingestionOrchestrator.runDue(1);
+    await vi.waitFor(() => expect(fetchNews).toHaveBeenCalledTimes(1));
+    const manual = ingestionOrchestrator.refresh('b');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(fetchNews).toHaveBeenCalledTimes(1);
+    expect(job('a').status).toBe('running');
+
+    finishFirst();
+    expect(await scheduled).toBe(1);
+    expect((await manual).map((e) => e.headline)).toEqual(['Manual refresh']);
+    expect(fetchedIds()).toEqual(['a', 'b']);
+  });
+});
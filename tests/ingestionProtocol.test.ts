@@ -0,0 +1,57 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { AIUsageRecord } from '../types';
+import { database } from '../services/database';
+import { usageMeter } from '../services/usageMeter';
+import { providerHealth } from '../services/providerChain';
+import { applyRelay, IngestionRelay, relayUsageAndHealth } from '../services/ingestionProtocol';
+
+const usage = (requests: number): AIUsageRecord => ({
+  id: '2026-03-01|gemini|live-feed',
+  date: '2026-03-01',
+  provider: 'gemini',
+  feature: 'live-feed',
+  requests,
+  failures: 0,
+  inputTokens: 100,
+  outputTokens: 50,
+  costUsd: 0.001,
+});
+
+describe('usage and health relay', () => {
+  beforeEach(async () => {
+    await database.useSnapshotStore({ load: () => null, save: () => {} });
+    database.clearAllData();
+    providerHealth.reset();
+  });
+
+  it('posts what this context records', () => {
+    const posted: IngestionRelay[] = [];
+    const stop = relayUsageAndHealth((relay) => posted.push(relay));
+    usageMeter.record('gemini', 'live-feed', true, { inputTokens: 10, outputTokens: 5 });
+    providerHealth.recordFailure('gemini', 'HTTP 500', 20);
+    stop();
+    usageMeter.record('gemini', 'live-feed', true, { inputTokens: 10, outputTokens: 5 });
+
+    expect(posted.map((r) => r.type)).toEqual(['usage', 'health']);
+  });
+
+  it('adds relayed usage to the totals without passing it back', async () => {
+    const posted: IngestionRelay[] = [];
+    const stop = relayUsageAndHealth((relay) => posted.push(relay));
+    applyRelay({ type: 'usage', entry: usage(2) });
+    applyRelay({ type: 'usage', entry: usage(1) });
+    await database.mergeAIUsage(usage(0));
+    stop();
+
+    expect(database.getAIUsage('2026-03-01')[0].requests).toBe(3);
+    expect(posted).toEqual([]);
+  });
+
+  it('opens a circuit on failures relayed from the other context', () => {
+    for (let i = 0; i < 3; i++) {
+      applyRelay({ type: 'health', event: { type: 'failure', provider: 'ollama', error: 'down', latencyMs: 5, at: 1000 } });
+    }
+    expect(providerHealth.getHealth('ollama', 1000).state).toBe('open');
+    expect(providerHealth.canRequest('ollama', 1000)).toBe(false);
+  });
+});
@@ -0,0 +1,34 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { logger, LogLevel } from '../services/logger';
+
+describe('service logger', () => {
+  afterEach(() => {
+    logger.setLevel('info');
+    vi.restoreAllMocks();
+  });
+
+  it('sends lines to the sink in place of the console', () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const lines: [LogLevel, unknown[]][] = [];
+    logger.setSink((level, args) => lines.push([level, args]));
+
+    logger.info('[DB] Loaded', 3);
+    logger.error('[DB] Failed');
+    expect(lines).toEqual([
+      ['info', ['[DB] Loaded', 3]],
+      ['error', ['[DB] Failed']],
+    ]);
+    expect(log).not.toHaveBeenCalled();
+  });
+
+  it('drops lines below the level', () => {
+    const lines: LogLevel[] = [];
+    logger.setSink((level) => lines.push(level));
+    logger.setLevel('error');
+
+    logger.info('fetched');
+    logger.warn('slow feed');
+    logger.error('failed');
+    expect(lines).toEqual(['error']);
+  });
+});
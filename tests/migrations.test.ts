@@ -0,0 +1,107 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { runMigrations, CURRENT_SCHEMA_VERSION, MIGRATIONS, DataSnapshot } from '../services/migrations';
+import { DEFAULT_CONFIG } from '../services/configDefaults';
+import { exportData, importData } from '../services/analyticsService';
+
+const fixture = (name: string) => JSON.parse(readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8'));
+
+/** Checks every export must pass after migrating, whatever version it started at. */
+const expectCurrentShape = (data: DataSnapshot) => {
+  expect(data.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+  for (const p of data.politicians) {
+    expect(typeof p.id).toBe('string');
+    expect(typeof p.score).toBe('number');
+    expect(Array.isArray(p.history)).toBe(true);
+  }
+  for (const e of data.feed) {
+    expect(typeof e.id).toBe('number');
+    expect(typeof e.politicianId).toBe('string');
+    expect(['positive', 'negative', 'neutral']).toContain(e.sentiment);
+    expect(e.mentions.length).toBeGreaterThan(0);
+    expect(['search-grounded', 'article-derived', 'model-generated']).toContain(e.provenance);
+  }
+  expect(Object.keys(data.config).sort()).toEqual(Object.keys(DEFAULT_CONFIG).sort());
+  expect(Array.isArray(data.scoreHistory)).toBe(true);
+  expect(Array.isArray(data.scoreRollups)).toBe(true);
+};
+
+describe('runMigrations', () => {
+  it('numbers migrations consecutively from 1', () => {
+    expect(MIGRATIONS.map((m) => m.version)).toEqual(MIGRATIONS.map((_, i) => i + 1));
+  });
+
+  it('upgrades an unversioned export, dropping records it cannot repair', () => {
+    const { data, fromVersion, applied } = runMigrations(fixture('export-v0.json'));
+
+    expect(fromVersion).toBe(0);
+    expect(applied).toEqual(MIGRATIONS.map((m) => m.version));
+    expectCurrentShape(data);
+    expect(data.politicians).toHaveLength(1);
+    expect(data.politicians[0]).toMatchObject({ id: '1', score: 104.5, trend: 0 });
+    expect(data.politicians[0].history).toEqual([{ time: '2025-11-01', score: 104.5 }]);
+    expect(data.scoreHistory).toEqual([expect.objectContaining({ politicianId: '1', time: '2025-11-01', score: 104.5 })]);
+    expect(data.scoreRollups.map((r: { period: string }) => r.period).sort()).toEqual(['day', 'week']);
+    expect(data.feed).toHaveLength(1);
+    expect(data.feed[0]).toMatchObject({
+      id: 1762070000000,
+      politicianId: '1',
+      sourceName: 'Unknown',
+      sentiment: 'neutral',
+      impact: 2,
+      provenance: 'article-derived',
+      mentions: [{ politicianId: '1', sentiment: 'neutral', impact: 2 }],
+    });
+    expect(data.config.scanInterval).toBe(30000);
+    expect(data.config.aiProviderConfig.provider).toBe('ollama');
+    expect(data.config.aiProviderConfig.geminiModels).toEqual(DEFAULT_CONFIG.aiProviderConfig.geminiModels);
+  });
+
+  it('upgrades a v1 export, tagging placeholder links as model-generated', () => {
+    const { data, applied } = runMigrations(fixture('export-v1.json'));
+
+    expect(applied).toEqual([2, 3, 4]);
+    expectCurrentShape(data);
+    expect(data.feed[0].mentions).toEqual([
+      { politicianId: '2', sentiment: 'positive', impact: 1.2, stance: 'supportive' },
+    ]);
+    expect(data.feed.map((e: { provenance: string }) => e.provenance)).toEqual(['article-derived', 'model-generated']);
+    expect(data.config.scoringModel).toBe('elo');
+  });
+
+  it('upgrades a v2 export, keeping existing mentions and model choices', () => {
+    const { data, applied } = runMigrations(fixture('export-v2.json'));
+
+    expect(applied).toEqual([3, 4]);
+    expectCurrentShape(data);
+    expect(data.feed[0].mentions).toHaveLength(2);
+    expect(data.config.aiProviderConfig.geminiModels.chat).toBe('gemini-2.5-pro');
+    expect(data.config.aiProviderConfig.geminiModels.event).toBe(DEFAULT_CONFIG.aiProviderConfig.geminiModels.event);
+  });
+
+  it('is idempotent on current data', () => {
+    const once = runMigrations(fixture('export-v0.json')).data;
+    const twice = runMigrations(once);
+    expect(twice.applied).toEqual([]);
+    expect(twice.data).toEqual(once);
+  });
+
+  it('leaves data from a newer build untouched', () => {
+    const future = { schemaVersion: CURRENT_SCHEMA_VERSION + 1, feed: [{ id: 'x' }] };
+    const { data, applied } = runMigrations(future);
+    expect(applied).toEqual([]);
+    expect(data).toBe(future);
+  });
+
+  it('runs on imports from the dashboard', () => {
+    const imported = importData(readFileSync(new URL('./fixtures/export-v1.json', import.meta.url), 'utf8'));
+    expect(imported?.feed.every((e) => e.provenance && e.mentions?.length)).toBe(true);
+  });
+
+  it('keeps score history and rollups through an export and import', () => {
+    const original = importData(readFileSync(new URL('./fixtures/export-v0.json', import.meta.url), 'utf8'))!;
+    const roundTrip = importData(exportData(original));
+    expect(roundTrip?.scoreHistory).toEqual(original.scoreHistory);
+    expect(roundTrip?.scoreRollups).toEqual(original.scoreRollups);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { PromptEvalCase, SentimentType } from '../types';
+import { INITIAL_POLITICIANS, PROMPT_EVAL_GOLD_SET } from '../constants';
+import { AIProvider } from '../services/aiProvider';
+import { comparePromptVersions } from '../services/promptEvaluation';
+import { promptVersions } from '../services/promptTemplates';
+
+// The shipped versions, marked so the scripted provider can tell which one it was sent
+const [v1, v2] = promptVersions('article-analysis').map((t) => ({ ...t, template: `[v${t.version}]${t.template}` }));
+const CASES = PROMPT_EVAL_GOLD_SET.slice(0, 4);
+
+/**
+ * A provider that answers from a script: `answer` gives the reply text for the case whose
+ * title appears in the prompt.
+ */
+const scriptedProvider = (answer: (testCase: PromptEvalCase, isV2: boolean) => string | null): AIProvider => ({
+  name: 'Scripted',
+  isConfigured: true,
+  fetchEvent: async () => null,
+  analyzeArticle: async () => null,
+  fetchHistory: async () => null,
+  fetchImage: async () => null,
+  fetchSuggestedSources: async () => null,
+  chat: async (prompt) => {
+    const testCase = CASES.find((c) => prompt.includes(c.item.title))!;
+    return answer(testCase, prompt.startsWith('[v2]'));
+  },
+});
+
+const reply = (sentiment: string) => JSON.stringify({ sentiment, impact: 1, stance: 'neutral', topic: 'other' });
+const flip = (s: SentimentType): SentimentType => (s === 'positive' ? 'negative' : 'positive');
+
+describe('PROMPT_EVAL_GOLD_SET', () => {
+  it('has unique ids, tracked politicians and every sentiment', () => {
+    const ids = PROMPT_EVAL_GOLD_SET.map((c) => c.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    const politicianIds = new Set(INITIAL_POLITICIANS.map((p) => p.id));
+    expect(PROMPT_EVAL_GOLD_SET.every((c) => politicianIds.has(c.politicianId))).toBe(true);
+    expect(new Set(PROMPT_EVAL_GOLD_SET.map((c) => c.sentiment))).toEqual(new Set(['positive', 'negative', 'neutral']));
+  });
+});
+
+describe('comparePromptVersions', () => {
+  it('scores both versions on the same cases and counts wins on disagreements', async () => {
+    // v1 gets the first case wrong; v2 gets everything right
+    const provider = scriptedProvider((c, isV2) =>
+      reply(!isV2 && c.id === CASES[0].id ? flip(c.sentiment) : c.sentiment)
+    );
+    const result = await comparePromptVersions(provider, v1, v2, { cases: CASES });
+
+    expect(result.a.version).toBe(1);
+    expect(result.b.version).toBe(2);
+    expect(result.a.accuracy).toBe(0.75);
+    expect(result.b.accuracy).toBe(1);
+    expect(result.disagreements).toEqual([CASES[0].id]);
+    expect(result.aWins).toBe(0);
+    expect(result.bWins).toBe(1);
+    expect(result.a.confusion[CASES[0].sentiment][flip(CASES[0].sentiment)]).toBe(1);
+  });
+
+  it('counts unusable replies as unanswered rather than neutral', async () => {
+    const provider = scriptedProvider((c, isV2) => (isV2 ? reply('mixed') : c.id === CASES[1].id ? null : reply(c.sentiment)));
+    const result = await comparePromptVersions(provider, v1, v2, { cases: CASES });
+
+    expect(result.a.answered).toBe(3);
+    expect(result.b.answered).toBe(0);
+    expect(result.b.confusion.neutral.neutral).toBe(0);
+    expect(result.b.cases.every((c) => c.predicted === null && !c.correct)).toBe(true);
+  });
+
+  it('skips cases for politicians not in the roster', async () => {
+    const provider = scriptedProvider((c) => reply(c.sentiment));
+    const roster = INITIAL_POLITICIANS.filter((p) => p.id === CASES[0].politicianId);
+    const result = await comparePromptVersions(provider, v1, v2, { cases: CASES, politicians: roster });
+    const expected = CASES.filter((c) => c.politicianId === CASES[0].politicianId).map((c) => c.id);
+    expect(result.a.cases.map((c) => c.caseId)).toEqual(expected);
+  });
+
+  it('stops between cases when aborted', async () => {
+    const controller = new AbortController();
+    const provider = scriptedProvider((c) => reply(c.sentiment));
+    const result = await comparePromptVersions(provider, v1, v2, {
+      cases: CASES,
+      signal: controller.signal,
+      onProgress: (done) => done === 2 && controller.abort(),
+    });
+    expect(result.aborted).toBe(true);
+    expect(result.a.cases).toHaveLength(2);
+    expect(result.b.cases).toHaveLength(2);
+  });
+});
@@ -0,0 +1,105 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { database } from '../services/database';
+import { AIProvider } from '../services/aiProvider';
+import { FallbackProvider, providerHealth } from '../services/providerChain';
+
+const MINUTE = 60 * 1000;
+
+const failTimes = (count: number, at: number) => {
+  for (let i = 0; i < count; i++) providerHealth.recordFailure('ollama', 'down', 5, at);
+};
+
+const chatProvider = (name: string, chat: () => Promise<string | null>): AIProvider => ({
+  name,
+  isConfigured: true,
+  fetchEvent: async () => null,
+  analyzeArticle: async () => null,
+  fetchHistory: async () => null,
+  fetchImage: async () => null,
+  fetchSuggestedSources: async () => null,
+  chat,
+});
+
+describe('provider circuit breaker', () => {
+  beforeEach(() => providerHealth.reset());
+
+  it('opens after three consecutive failures and refuses requests until the cooldown passes', () => {
+    failTimes(2, 0);
+    expect(providerHealth.getHealth('ollama', 0).state).toBe('closed');
+    failTimes(1, 0);
+
+    expect(providerHealth.getHealth('ollama', 0)).toMatchObject({ state: 'open', status: 'down', retryAt: MINUTE });
+    expect(providerHealth.canRequest('ollama', MINUTE - 1)).toBe(false);
+  });
+
+  it('allows a single trial request once half-open, and closes when it succeeds', () => {
+    failTimes(3, 0);
+    expect(providerHealth.getHealth('ollama', MINUTE).state).toBe('half-open');
+    expect(providerHealth.canRequest('ollama', MINUTE)).toBe(true);
+    expect(providerHealth.canRequest('ollama', MINUTE)).toBe(false);
+
+    providerHealth.recordSuccess('ollama', 5, MINUTE);
+    expect(providerHealth.getHealth('ollama', MINUTE)).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+    expect(providerHealth.canRequest('ollama', MINUTE)).toBe(true);
+  });
+
+  it('doubles the cooldown each time a trial fails, up to fifteen minutes', () => {
+    failTimes(3, 0);
+    let now = 0;
+    const cooldowns: number[] = [];
+    for (let trial = 0; trial < 5; trial++) {
+      now = providerHealth.getHealth('ollama', now).retryAt!;
+      expect(providerHealth.canRequest('ollama', now)).toBe(true);
+      failTimes(1, now);
+      cooldowns.push(providerHealth.getHealth('ollama', now).retryAt! - now);
+    }
+    expect(cooldowns.map((ms) => ms / MINUTE)).toEqual([2, 4, 8, 15, 15]);
+  });
+
+  it('starts again from the base cooldown after a success', () => {
+    failTimes(3, 0);
+    providerHealth.canRequest('ollama', MINUTE);
+    failTimes(1, MINUTE);
+    providerHealth.canRequest('ollama', 3 * MINUTE);
+    providerHealth.recordSuccess('ollama', 5, 3 * MINUTE);
+
+    failTimes(3, 10 * MINUTE);
+    expect(providerHealth.getHealth('ollama', 10 * MINUTE).retryAt).toBe(11 * MINUTE);
+  });
+});
+
+describe('provider fallback chain', () => {
+  beforeEach(async () => {
+    await database.useSnapshotStore({ load: () => null, save: () => {} });
+    database.clearAllData();
+    providerHealth.reset();
+  });
+
+  it('falls through a provider that throws, recording what it threw', async () => {
+    const chain = new FallbackProvider([
+      { type: 'ollama', provider: chatProvider('Ollama', () => Promise.reject('connection refused')) },
+      { type: 'local', provider: chatProvider('Local', async () => 'answer') },
+    ]);
+
+    expect(await chain.chat('hello')).toBe('answer');
+    expect(providerHealth.getHealth('ollama').lastError).toBe('connection refused');
+    expect(providerHealth.getRecentRequests()[0]).toMatchObject({
+      servedBy: 'local',
+      attempts: [
+        { provider: 'ollama', outcome: 'failed' },
+        { provider: 'local', outcome: 'served' },
+      ],
+    });
+  });
+
+  it('skips a provider whose circuit is open', async () => {
+    failTimes(3, Date.now());
+    const chain = new FallbackProvider([
+      { type: 'ollama', provider: chatProvider('Ollama', async () => 'never asked') },
+      { type: 'local', provider: chatProvider('Local', async () => 'answer') },
+    ]);
+
+    expect(await chain.chat('hello')).toBe('answer');
+    expect(providerHealth.getRecentRequests()[0].attempts[0]).toEqual({ provider: 'ollama', outcome: 'circuit-open' });
+  });
+});
@@ -0,0 +1,97 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { database } from '../services/database';
+import { AIProvider } from '../services/aiProvider';
+import { FallbackProvider } from '../services/providerChain';
+import { promptRegistry } from '../services/promptTemplates';
+import { cacheTtl, responseCache, responseCacheKey } from '../services/responseCache';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+const META = { provider: 'ollama', model: 'llama3', operation: 'chat', feature: 'live-feed', ttlMs: 10 * MINUTE } as const;
+
+const countingProvider = (): AIProvider & { calls: number } => {
+  const provider = {
+    name: 'Ollama',
+    model: 'llama3',
+    isConfigured: true,
+    calls: 0,
+    fetchEvent: async () => null,
+    analyzeArticle: async () => null,
+    fetchHistory: async () => null,
+    fetchImage: async () => null,
+    fetchSuggestedSources: async () => null,
+    chat: async () => `answer ${++provider.calls}`,
+  };
+  return provider;
+};
+
+describe('response cache TTLs', () => {
+  it('uses the feature TTL, with 0 disabling the cache', () => {
+    expect(cacheTtl('live-feed', 'chat')).toBe(10 * MINUTE);
+    expect(cacheTtl('source-discovery', 'fetchSuggestedSources')).toBe(DAY);
+    expect(cacheTtl('general', 'chat')).toBe(0);
+  });
+
+  it('lets operation TTLs override the feature TTL', () => {
+    expect(cacheTtl('live-feed', 'analyzeArticle')).toBe(7 * DAY);
+    expect(cacheTtl('general', 'fetchImage')).toBe(7 * DAY);
+  });
+});
+
+describe('response cache', () => {
+  beforeAll(() => database.waitForReady());
+
+  beforeEach(async () => {
+    await responseCache.clear();
+    promptRegistry.setOverrides(undefined);
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.parse('2026-03-01T12:00:00Z'));
+  });
+
+  afterEach(() => vi.useRealTimers());
+
+  it('serves an entry until its TTL passes', async () => {
+    responseCache.set('k', 'cached', META);
+
+    vi.setSystemTime(Date.now() + 10 * MINUTE - 1);
+    expect(await responseCache.lookup(['k'])).toEqual({ index: 0, value: 'cached' });
+    vi.setSystemTime(Date.now() + 1);
+    expect(await responseCache.lookup(['k'])).toBeNull();
+    expect(responseCache.stats()).toEqual({ hits: 1, misses: 1 });
+  });
+
+  it('returns the first key in the chain with a fresh entry', async () => {
+    responseCache.set('second', 'from second', META);
+    responseCache.set('third', 'from third', META);
+    responseCache.set('first', 'stale', { ...META, ttlMs: MINUTE });
+    vi.setSystemTime(Date.now() + MINUTE);
+
+    expect(await responseCache.lookup(['first', 'second', 'third'])).toEqual({ index: 1, value: 'from second' });
+  });
+
+  it('keys answers by provider, model, operation and prompt', () => {
+    const key = responseCacheKey('ollama', 'llama3', 'chat', ['hello', 'r1']);
+    expect(responseCacheKey('ollama', 'llama3', 'chat', ['hello', 'r1'])).toBe(key);
+    expect(responseCacheKey('ollama', 'mistral', 'chat', ['hello', 'r1'])).not.toBe(key);
+    expect(responseCacheKey('ollama', 'llama3', 'chat', ['hello', 'r2'])).not.toBe(key);
+  });
+
+  it('stops serving cached answers once the prompts in effect change', async () => {
+    const provider = countingProvider();
+    const chain = new FallbackProvider([{ type: 'ollama', provider }], 'live-feed');
+
+    expect(await chain.chat('hello')).toBe('answer 1');
+    expect(await chain.chat('hello')).toBe('answer 1');
+
+    const revision = promptRegistry.revision();
+    promptRegistry.setOverrides({ 'event-recall': { version: 1 } });
+    expect(promptRegistry.revision()).toBe(revision);
+    promptRegistry.setOverrides({ 'event-recall': { template: 'Custom {{name}}' } });
+    expect(promptRegistry.revision()).not.toBe(revision);
+
+    expect(await chain.chat('hello')).toBe('answer 2');
+    expect(provider.calls).toBe(2);
+  });
+});
@@ -0,0 +1,97 @@
+import { readFile } from 'fs/promises';
+import { fileURLToPath } from 'url';
+import { afterEach, describe, expect, it } from 'vitest';
+import { INITIAL_POLITICIANS, INITIAL_SOURCES, KENYAN_OUTLET_FEEDS } from '../constants';
+import { EntityResolver } from '../services/entityResolver';
+import {
+  fetchRssNewsFor,
+  fixtureFeedLoader,
+  fixtureFileName,
+  parseFeed,
+  setFeedLoader,
+} from '../services/rssFeedAdapter';
+
+const FIXTURE_DIR = fileURLToPath(new URL('../public/fixtures/rss', import.meta.url));
+const readFixture = (path: string) => readFile(path, 'utf8').catch(() => null);
+const loadFixture = fixtureFeedLoader(FIXTURE_DIR, readFixture);
+
+const CONFIGURED_FEEDS = Object.values(KENYAN_OUTLET_FEEDS).flat();
+
+afterEach(() => setFeedLoader(null));
+
+describe('fixture feeds', () => {
+  it.each(CONFIGURED_FEEDS)('has a fixture for %s that parses to dated items', async (feedUrl) => {
+    const xml = await loadFixture(feedUrl);
+    expect(xml).not.toBeNull();
+
+    const items = parseFeed(xml!);
+    expect(items.length).toBeGreaterThan(0);
+    for (const item of items) {
+      expect(item.title).not.toMatch(/<|&\w+;|&#/);
+      expect(item.link).toMatch(/^https:\/\//);
+    }
+    expect(items.some((item) => item.publishedAt)).toBe(true);
+  });
+
+  it('returns null for a feed without a fixture', async () => {
+    expect(await loadFixture('https://example.com/missing.xml')).toBeNull();
+  });
+});
+
+describe('parseFeed', () => {
+  const parse = async (feedUrl: string) => parseFeed((await readFixture(`${FIXTURE_DIR}/${fixtureFileName(feedUrl)}`))!);
+
+  it('decodes numeric entities and skips items without a title', async () => {
+    const items = await parse('https://www.standardmedia.co.ke/rss/headlines.php');
+    expect(items.map((i) => i.title)).toEqual([
+      'Ruto’s housing levy survives Court of Appeal challenge',
+      'Shilling steadies against the dollar',
+    ]);
+    expect(items[0].summary).toBe('Judges upheld the levy in a win for William Ruto & the Treasury.');
+  });
+
+  it('reads content:encoded and dc:date', async () => {
+    const [first] = await parse('https://www.citizen.digital/rss');
+    expect(first.summary).toBe(
+      'Kalonzo Musyoka told lawmakers in Machakos the party would field candidates in every ward.'
+    );
+    expect(first.publishedAt).toBe('2026-10-12T13:45:00.000Z');
+  });
+
+  it('falls back to the guid for the link and drops unparseable dates', async () => {
+    const items = await parse('https://www.kenyans.co.ke/feeds/news');
+    expect(items[0].link).toBe('https://www.kenyans.co.ke/news/fixture-kigame-iebc-0001');
+    expect(items[1].publishedAt).toBeUndefined();
+  });
+
+  it('reads Atom link hrefs and either date element', async () => {
+    const items = await parse('https://www.the-star.co.ke/rss');
+    expect(items.map((i) => i.link)).toEqual([
+      'https://www.the-star.co.ke/news/fixture-kigame-manifesto-0001',
+      'https://www.the-star.co.ke/news/fixture-ruto-health-0002',
+    ]);
+    expect(items.map((i) => i.publishedAt)).toEqual(['2026-10-12T10:00:00.000Z', '2026-10-11T06:20:00.000Z']);
+  });
+});
+
+describe('fetchRssNewsFor', () => {
+  it('collects a politician across every outlet, newest first, with co-mentions', async () => {
+    setFeedLoader(loadFixture);
+    const resolver = new EntityResolver(INITIAL_POLITICIANS);
+    const byName = (name: string) => INITIAL_POLITICIANS.find((p) => p.name === name)!;
+
+    const ruto = await fetchRssNewsFor(byName('William Ruto'), INITIAL_SOURCES, resolver);
+    expect(ruto.map((i) => i.source)).toEqual(['The Standard', 'Daily Nation', 'The Star']);
+
+    const aukot = await fetchRssNewsFor(byName('Ekuru Aukot'), INITIAL_SOURCES, resolver);
+    const debate = aukot.find((i) => i.source === 'Citizen Digital')!;
+    expect(debate.mentions).toEqual(expect.arrayContaining([byName('Ekuru Aukot').id, byName('George Wajackoyah').id]));
+  });
+
+  it('skips inactive sources', async () => {
+    setFeedLoader(loadFixture);
+    const sources = INITIAL_SOURCES.map((s) => ({ ...s, active: s.name === 'Kenyans.co.ke' }));
+    const items = await fetchRssNewsFor(INITIAL_POLITICIANS.find((p) => p.name === 'Reuben Kigame')!, sources);
+    expect(items.map((i) => i.source)).toEqual(['Kenyans.co.ke']);
+  });
+});
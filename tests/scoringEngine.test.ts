@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { NewsEvent, Politician, SentimentType } from '../types';
+import {
+  duplicateFactor,
+  getScoringModel,
+  replayFeed,
+  ScoredEventIndex,
+  ScoringContext,
+  scoreEventMentions,
+} from '../services/scoringEngine';
+
+const HOUR_MS = 60 * 60 * 1000;
+const START = Date.parse('2026-03-01T08:00:00Z');
+
+const politician = (id: string, score = 100): Politician => ({
+  id,
+  name: id,
+  party: 'Independent',
+  role: 'Aspirant',
+  score,
+  trend: 0,
+  color: '#000000',
+  image: '',
+  history: [],
+});
+
+const event = (id: number, sentiment: SentimentType, overrides: Partial<NewsEvent> = {}): NewsEvent => ({
+  id,
+  politicianId: 'a',
+  sourceId: 'nation',
+  sourceName: 'Nation',
+  headline: `Story ${id}`,
+  sentiment,
+  impact: 1,
+  timestamp: new Date(START + id * HOUR_MS).toISOString(),
+  provenance: 'article-derived',
+  ...overrides,
+});
+
+const context = (scored: NewsEvent[] = [], politicians = [politician('a'), politician('b')]): ScoringContext => ({
+  politicians,
+  sources: [],
+  scored: new ScoredEventIndex([], scored),
+  now: START,
+});
+
+describe('ScoredEventIndex', () => {
+  it('totals evidence per politician, leaving out the event being scored', () => {
+    const index = new ScoredEventIndex([], [event(1, 'positive'), event(2, 'negative', { impact: 2 })]);
+    expect(index.evidenceFor('a')).toEqual({ positive: 1, negative: 2 });
+    expect(index.evidenceFor('a', 2)).toEqual({ positive: 1, negative: 0 });
+    expect(index.evidenceFor('b')).toEqual({ positive: 0, negative: 0 });
+  });
+
+  it('ignores an event added twice', () => {
+    const index = new ScoredEventIndex([], [event(1, 'positive')]);
+    index.add(event(1, 'positive'));
+    expect(index.evidenceFor('a').positive).toBe(1);
+  });
+
+  it('counts each mention toward its own politician', () => {
+    const index = new ScoredEventIndex([], [
+      event(1, 'positive', {
+        mentions: [
+          { politicianId: 'a', sentiment: 'positive', impact: 1 },
+          { politicianId: 'b', sentiment: 'negative', impact: 0.5 },
+        ],
+      }),
+    ]);
+    expect(index.evidenceFor('b')).toEqual({ positive: 0, negative: 0.5 });
+  });
+});
+
+describe('duplicateFactor', () => {
+  it('discounts the same headline within a day and not after', () => {
+    const scored = new ScoredEventIndex([], [event(1, 'positive', { headline: 'Rally in Nakuru' })]);
+    expect(duplicateFactor(event(5, 'positive', { headline: 'Rally in Nakuru!' }), scored)).toBe(0.5);
+    expect(duplicateFactor(event(30, 'positive', { headline: 'Rally in Nakuru' }), scored)).toBe(1);
+    expect(duplicateFactor(event(5, 'positive', { headline: 'Rally in Nakuru', politicianId: 'b' }), scored)).toBe(1);
+  });
+});
+
+describe('scoring models', () => {
+  it('moves the Bayesian score less as evidence accumulates', () => {
+    const model = getScoringModel('bayesian');
+    const first = scoreEventMentions(model, event(1, 'positive'), context())[0].change;
+    const later = scoreEventMentions(
+      model,
+      event(4, 'positive'),
+      context([event(1, 'positive'), event(2, 'positive'), event(3, 'positive')])
+    )[0].change;
+    expect(first).toBeCloseTo((11 / 21 - 0.5) * 40);
+    expect(later).toBeGreaterThan(0);
+    expect(later).toBeLessThan(first);
+  });
+
+  it('leaves Elo standings alone on neutral coverage', () => {
+    const model = getScoringModel('elo');
+    const deltas = scoreEventMentions(model, event(1, 'neutral'), context([], [politician('a', 120), politician('b')]));
+    expect(deltas.every((d) => d.change === 0)).toBe(true);
+  });
+
+  it('replays a feed to the same standings every time', () => {
+    const feed = [event(3, 'negative'), event(1, 'positive'), event(2, 'positive', { politicianId: 'b' })];
+    const politicians = [politician('a'), politician('b')];
+    for (const id of ['linear', 'source-weighted', 'time-decayed', 'elo', 'bayesian'] as const) {
+      const model = getScoringModel(id);
+      const once = replayFeed(feed, politicians, [], model, { asOf: START });
+      expect(replayFeed([...feed].reverse(), politicians, [], model, { asOf: START })).toEqual(once);
+      expect(once.eventsApplied).toBe(3);
+    }
+  });
+});
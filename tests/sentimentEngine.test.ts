@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeSentiment, SentimentTarget } from '../services/sentimentEngine';
+
+const RUTO: SentimentTarget = { name: 'William Ruto' };
+const KALONZO: SentimentTarget = { name: 'Kalonzo Musyoka' };
+
+const score = (text: string) => analyzeSentiment(text, RUTO, [KALONZO]).score;
+const sentiment = (text: string) => analyzeSentiment(text, RUTO, [KALONZO]).sentiment;
+
+describe('sentiment engine negation', () => {
+  it('flips and softens negated terms', () => {
+    expect(sentiment('Ruto is corrupt')).toBe('negative');
+    expect(sentiment('Ruto is not corrupt')).toBe('positive');
+    expect(score('Ruto is not corrupt')).toBeLessThan(-score('Ruto is corrupt'));
+  });
+
+  it('understands Swahili negators', () => {
+    expect(sentiment('Ruto ni mwizi')).toBe('negative');
+    expect(sentiment('Ruto si mwizi')).toBe('positive');
+  });
+
+  it('only negates the next few words', () => {
+    expect(sentiment('Ruto did not attend the budget reading in Nairobi, a scandal')).toBe('negative');
+  });
+});
+
+describe('sentiment engine intensifiers', () => {
+  it('scales a term by the English intensifier before it', () => {
+    expect(score('Ruto is very popular')).toBeGreaterThan(score('Ruto is popular'));
+    expect(score('Ruto is slightly popular')).toBeLessThan(score('Ruto is popular'));
+  });
+
+  it('scales a term by the Swahili intensifier after it', () => {
+    expect(score('Ruto amefeli kabisa')).toBeLessThan(score('Ruto amefeli'));
+    expect(score('Kazi ya Ruto ni nzuri sana')).toBeGreaterThan(score('Kazi ya Ruto ni nzuri'));
+  });
+});
+
+describe('sentiment engine Swahili and Sheng terms', () => {
+  it.each([
+    ['Wafuasi wa Ruto wasema tutam', 'positive'],
+    ['Ruto ni msee wa watu', 'positive'],
+    ['Hongera Ruto kwa ushindi', 'positive'],
+    ['Vijana wa Nairobi waimba wantam kwa Ruto', 'negative'],
+    ['Ruto alaumiwa kwa ufisadi', 'negative'],
+    ['Ruto amekula pesa ya umma', 'negative'],
+  ])('%s', (text, expected) => {
+    expect(sentiment(text)).toBe(expected);
+  });
+});
+
+describe('sentiment engine target weighting', () => {
+  it('ignores a clause only about someone else', () => {
+    expect(sentiment('Ruto toured Eldoret. Kalonzo faces graft allegations')).toBe('neutral');
+  });
+
+  it('keeps a rival’s bad news out of the target’s score across a contrast', () => {
+    expect(sentiment('Ruto praised while Kalonzo accused of graft')).toBe('positive');
+    expect(sentiment('Ruto praised whereas Kalonzo accused of graft')).toBe('positive');
+  });
+
+  it('gives terms in a shared clause to whoever they are nearer', () => {
+    expect(sentiment('Ruto praised as Kalonzo accused of graft')).toBe('positive');
+    expect(analyzeSentiment('Ruto praised as Kalonzo accused of graft', KALONZO, [RUTO]).sentiment).toBe('negative');
+  });
+
+  it('counts unattributed clauses for less once the target is named', () => {
+    const named = score('Ruto is popular');
+    const alongside = score('Ruto spoke in Nakuru. The rally was popular');
+    expect(alongside).toBeGreaterThan(0);
+    expect(alongside).toBeLessThan(named);
+  });
+});
+
+describe('sentiment engine lexicon', () => {
+  it('reads neutral questions as neutral', () => {
+    expect(sentiment('Ruto answers questions from journalists')).toBe('neutral');
+    expect(sentiment('Ruto questioned over tax remarks')).toBe('negative');
+  });
+
+  it('tells dropped charges from a drop in the polls', () => {
+    expect(sentiment('DPP drops charges against Ruto')).toBe('positive');
+    expect(sentiment('Court hears charges dropped against Ruto')).toBe('positive');
+    expect(sentiment('Ruto drops in latest TIFA poll')).toBe('negative');
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { ARTICLE_ANALYSIS_OUTPUT, requestStructured, toHistoryItems, validateReply } from '../services/structuredOutput';
+
+describe('ARTICLE_ANALYSIS_OUTPUT', () => {
+  it('accepts a valid analysis, normalizing enum case', () => {
+    const result = validateReply(
+      '{"sentiment":"Positive","impact":"1.5","stance":"supportive","topic":"policy","rationale":"Praised the plan."}',
+      ARTICLE_ANALYSIS_OUTPUT
+    );
+    expect(result).toEqual({
+      ok: true,
+      value: { sentiment: 'positive', impact: 1.5, stance: 'supportive', topic: 'policy', rationale: 'Praised the plan.' },
+    });
+  });
+
+  it('rejects out-of-range impact and unknown labels instead of defaulting them', () => {
+    const result = validateReply('{"sentiment":"mixed","impact":-2,"stance":"neutral","topic":"weather"}', ARTICLE_ANALYSIS_OUTPUT);
+    const errors = 'errors' in result ? result.errors : [];
+    expect(errors).toHaveLength(3);
+    expect(errors.join(' ')).toMatch(/sentiment.*impact.*topic/);
+  });
+});
+
+describe('requestStructured', () => {
+  it('re-prompts with the errors and returns the corrected reply', async () => {
+    const prompts: string[] = [];
+    const replies = [
+      '{"sentiment":"positive","impact":9,"stance":"supportive","topic":"campaign"}',
+      '{"sentiment":"positive","impact":2,"stance":"supportive","topic":"campaign"}',
+    ];
+    const value = await requestStructured(
+      async (prompt) => {
+        prompts.push(prompt);
+        return replies[prompts.length - 1];
+      },
+      'Classify this article.',
+      ARTICLE_ANALYSIS_OUTPUT
+    );
+
+    expect(value).toMatchObject({ sentiment: 'positive', impact: 2 });
+    expect(prompts).toHaveLength(2);
+    expect(prompts[1]).toContain('"impact" is 9, must be from 0.1 to 3');
+  });
+
+  it('gives up after the last attempt', async () => {
+    const value = await requestStructured(async () => 'not json', 'Classify this article.', ARTICLE_ANALYSIS_OUTPUT);
+    expect(value).toBeNull();
+  });
+});
+
+describe('toHistoryItems', () => {
+  it('keeps real source links and drops placeholder ones', () => {
+    const items = toHistoryItems(
+      [
+        { date: '2026-03-02', headline: 'Rally', sentiment: 'positive', impact: 1, sourceUrl: 'https://relevant-news-site.com/article' },
+        { date: '2026-03-03', headline: 'Debate', sentiment: 'negative', impact: -0.5, sourceUrl: 'https://nation.africa/kenya/news/debate' },
+      ],
+      new Date('2026-03-01')
+    );
+    expect(items.map((i) => i.sourceUrl)).toEqual([undefined, 'https://nation.africa/kenya/news/debate']);
+    expect(items.map((i) => i.score)).toEqual([101, 100.5]);
+  });
+});
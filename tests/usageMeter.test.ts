@@ -0,0 +1,55 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { database } from '../services/database';
+import { usageMeter } from '../services/usageMeter';
+
+const NO_TOKENS = { inputTokens: 0, outputTokens: 0 };
+
+const recordRequests = async (count: number) => {
+  for (let i = 0; i < count; i++) usageMeter.record('ollama', 'live-feed', true, NO_TOKENS);
+  await database.waitForReady();
+};
+
+describe('usage meter budget', () => {
+  beforeEach(async () => {
+    await database.useSnapshotStore({ load: () => null, save: () => {} });
+    database.clearAllData();
+    usageMeter.setBudget(undefined);
+  });
+
+  it('allows everything without a budget', async () => {
+    await recordRequests(50);
+    expect(usageMeter.allows('gemini')).toBe(true);
+  });
+
+  it('stops every provider once the daily request budget is used', async () => {
+    usageMeter.setBudget({ dailyRequests: 3, dailyCostUsd: 0 });
+    await recordRequests(2);
+    expect(usageMeter.allows('ollama')).toBe(true);
+
+    await recordRequests(1);
+    expect(usageMeter.allows('ollama')).toBe(false);
+    expect(usageMeter.allows('gemini')).toBe(false);
+  });
+
+  it('counts failed requests against the request budget', async () => {
+    usageMeter.setBudget({ dailyRequests: 1, dailyCostUsd: 0 });
+    usageMeter.record('ollama', 'live-feed', false, NO_TOKENS);
+    await database.waitForReady();
+    expect(usageMeter.allows('ollama')).toBe(false);
+  });
+
+  it('stops only paid providers once the daily cost budget is spent', async () => {
+    usageMeter.setBudget({ dailyRequests: 0, dailyCostUsd: 1 });
+    // 400k Gemini output tokens at $2.50 per million
+    usageMeter.record('gemini', 'context', true, { inputTokens: 0, outputTokens: 399_000 });
+    await database.waitForReady();
+    expect(usageMeter.allows('gemini')).toBe(true);
+
+    usageMeter.record('gemini', 'context', true, { inputTokens: 0, outputTokens: 1_000 });
+    await database.waitForReady();
+    expect(usageMeter.today().costUsd).toBeCloseTo(1);
+    expect(usageMeter.allows('gemini')).toBe(false);
+    expect(usageMeter.allows('ollama')).toBe(true);
+    expect(usageMeter.allows('local')).toBe(true);
+  });
+});
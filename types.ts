@@ -4,6 +4,8 @@ export interface HistoryItem {
   reason?: string;
   sourceUrl?: string;
   sentiment?: SentimentType;
+  /** The feed event that moved the score, for live and replayed points */
+  eventId?: number;
 }
 
 export interface PoliticianMetrics {
@@ -40,11 +42,16 @@ export interface Politician {
   profileChanges?: ProfileChange[];
   endorsements?: string[];
   lastProfileUpdate?: string;
+  /** Other names the press uses (nicknames, short forms); merged with ALIAS_REGISTRY when resolving */
+  aliases?: string[];
 }
 
 export type SentimentType = 'positive' | 'negative' | 'neutral';
 
-export type ProviderType = 'gemini' | 'ollama' | 'huggingface' | 'openrouter';
+export type ProviderType = 'gemini' | 'ollama' | 'huggingface' | 'openrouter' | 'openai-compatible' | 'local';
+
+/** Gemini calls that can each use their own model */
+export type GeminiTask = 'event' | 'analysis' | 'history' | 'image' | 'sources' | 'chat';
 
 export interface AIProviderConfig {
   provider: ProviderType;
@@ -53,6 +60,18 @@ export interface AIProviderConfig {
   huggingfaceApiKey: string;
   openrouterApiKey: string;
   geminiApiKey: string;
+  /** Model id per Gemini task, e.g. a cheaper model for article analysis */
+  geminiModels: Record<GeminiTask, string>;
+  /** Any OpenAI-compatible server (llama.cpp, vLLM, LM Studio, LocalAI), up to `/v1` */
+  openaiBaseUrl: string;
+  openaiModel: string;
+  /** Optional for local servers */
+  openaiApiKey: string;
+  openaiHeaders: Record<string, string>;
+  /** Ask for JSON via `response_format`; turn off for servers that reject it */
+  openaiJsonMode: boolean;
+  /** Tried in order when `provider` fails or its circuit is open */
+  fallbackProviders?: ProviderType[];
 }
 
 export interface Source {
@@ -61,6 +80,38 @@ export interface Source {
   type: 'social' | 'news' | 'blog' | 'tv';
   weight: number;
   active: boolean;
+  /** RSS/Atom feeds polled for this outlet; falls back to KENYAN_OUTLET_FEEDS by name */
+  feedUrls?: string[];
+}
+
+/** Per-cycle ingestion counts reported by the news fetcher */
+export interface IngestionStats {
+  /** Items returned by all channels */
+  found: number;
+  /** Items already in the feed or repeated within the cycle */
+  duplicate: number;
+  /** New items turned into events */
+  scored: number;
+  /** Items that don't actually mention the politician searched for */
+  unmatched: number;
+}
+
+export type FetchJobStatus = 'pending' | 'running' | 'succeeded' | 'failed';
+
+/** One politician's news fetch in the scheduler's persisted queue */
+export interface FetchJob {
+  id: string; // politicianId
+  politicianId: string;
+  politicianName: string;
+  status: FetchJobStatus;
+  /** Consecutive failures; reset by a successful run */
+  attempts: number;
+  /** Epoch ms at which the job is next due */
+  nextRunAt: number;
+  lastRunAt?: number;
+  lastError?: string;
+  /** Events the last successful run added */
+  lastEventCount?: number;
 }
 
 export interface DiscoveredSource {
@@ -85,6 +136,63 @@ export interface NewsEvent {
   impact: number;
   timestamp: string;
   url?: string;
+  stance?: ArticleStance;
+  topic?: ArticleTopic;
+  /** The offline lexicon engine's label, kept as a cross-check on the AI's `sentiment` */
+  localSentiment?: SentimentType;
+  /** Every tracked politician the story concerns, the primary (`politicianId`) first */
+  mentions?: EventMention[];
+  provenance?: EventProvenance;
+}
+
+/**
+ * Where an event came from: an AI web search with citations, a fetched article, or the
+ * model's own knowledge with nothing to check it against
+ */
+export type EventProvenance = 'search-grounded' | 'article-derived' | 'model-generated';
+
+/** One politician's share of a news event, scored independently of the others */
+export interface EventMention {
+  politicianId: string;
+  sentiment: SentimentType;
+  impact: number;
+  stance?: ArticleStance;
+}
+
+/** A fetched article before analysis */
+export interface RawNewsItem {
+  title: string;
+  snippet: string;
+  url: string;
+  source: string;
+  publishedAt?: string;
+  /** Ids of the politicians the text mentions, most-mentioned first */
+  mentions?: string[];
+}
+
+export type ArticleStance = 'supportive' | 'critical' | 'neutral' | 'mixed';
+
+export type ArticleTopic =
+  | 'campaign'
+  | 'coalition'
+  | 'policy'
+  | 'economy'
+  | 'governance'
+  | 'scandal'
+  | 'legal'
+  | 'security'
+  | 'polling'
+  | 'personal'
+  | 'other';
+
+/** A provider's classification of one article with respect to one politician */
+export interface ArticleAnalysis {
+  sentiment: SentimentType;
+  /** 0.1 – 3.0 */
+  impact: number;
+  stance: ArticleStance;
+  topic: ArticleTopic;
+  rationale?: string;
 }
 
 export interface CandidateContext {
@@ -100,6 +208,8 @@ export interface CandidateContext {
   lastGenerated: string;
 }
 
+export type ScoringModelId = 'linear' | 'source-weighted' | 'time-decayed' | 'elo' | 'bayesian';
+
 export interface SimulationConfig {
   scanInterval: number;
   isPaused: boolean;
@@ -107,6 +217,105 @@ export interface SimulationConfig {
   autoRefreshCandidates: boolean;
   historyWindowDays: number;
   aiProviderConfig: AIProviderConfig;
+  scoringModel: ScoringModelId;
+  aiBudget: AIBudget;
+  /** Let model-generated (unverified) events move scores */
+  scoreModelGenerated: boolean;
+  promptOverrides: PromptOverrides;
+  /** News fetches allowed per hour, manual refreshes included; 0 means no limit */
+  fetchBudgetPerHour: number;
+  /** Keep fetching from a service worker while no tab is open, where the browser allows */
+  backgroundSync: boolean;
+}
+
+export type PromptId =
+  | 'event-search'
+  | 'event-recall'
+  | 'article-analysis'
+  | 'history-search'
+  | 'history-recall'
+  | 'image-search'
+  | 'source-suggestions'
+  | 'profile-update'
+  | 'candidate-context';
+
+/** Pins a prompt to a library version, or replaces it with custom text */
+export interface PromptOverride {
+  version?: number;
+  template?: string;
+}
+
+export type PromptOverrides = Partial<Record<PromptId, PromptOverride>>;
+
+/** A hand-labelled article for evaluating prompt versions offline */
+export interface PromptEvalCase {
+  id: string;
+  politicianId: string;
+  item: RawNewsItem;
+  /** The gold label: how the article reflects on the politician */
+  sentiment: SentimentType;
+}
+
+/** Daily AI spending limits across all providers; 0 means unlimited */
+export interface AIBudget {
+  dailyRequests: number;
+  dailyCostUsd: number;
+}
+
+/** The part of the app an AI request was made for */
+export type AIFeature =
+  | 'live-feed'
+  | 'candidate-refresh'
+  | 'history-backfill'
+  | 'candidate-setup'
+  | 'source-discovery'
+  | 'profile-update'
+  | 'context'
+  | 'scheduler'
+  | 'prompt-eval'
+  | 'general';
+
+/** AI usage aggregated per UTC day, provider and feature */
+export interface AIUsageRecord {
+  id: string; // date|provider|feature
+  date: string; // YYYY-MM-DD
+  provider: ProviderType;
+  feature: AIFeature;
+  requests: number;
+  failures: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+/** A cached provider response, addressed by provider, model, operation and prompt hash */
+export interface AICacheEntry {
+  key: string;
+  provider: ProviderType;
+  model: string;
+  operation: string;
+  feature: AIFeature;
+  value: unknown;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export type RollupPeriod = 'day' | 'week';
+
+/** Aggregated score movement for one politician over one day or week. */
+export interface ScoreRollup {
+  id: string;
+  politicianId: string;
+  period: RollupPeriod;
+  bucket: string; // YYYY-MM-DD (UTC); weekly buckets start on Monday
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  eventCount: number;
+  sentiment: SentimentBreakdown;
+  openAt: number;
+  closeAt: number;
 }
 
 export interface AdvancedPrediction {
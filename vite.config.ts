@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
@@ -10,13 +11,22 @@ export default defineConfig(({ mode }) => {
       host: '0.0.0.0',
     },
     plugins: [react()],
-    define: {
+    // The CLI reads its keys from the environment it runs in, not at build time
+    define: mode === 'cli' ? {} : {
       'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
       'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
       'process.env.OLLAMA_URL': JSON.stringify(env.OLLAMA_URL || 'http://localhost:11434'),
       'process.env.HUGGINGFACE_API_KEY': JSON.stringify(env.HUGGINGFACE_API_KEY || ''),
       'process.env.OPENROUTER_API_KEY': JSON.stringify(env.OPENROUTER_API_KEY || ''),
+      'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL || ''),
+      'process.env.OPENAI_MODEL': JSON.stringify(env.OPENAI_MODEL || ''),
+      'process.env.OPENAI_API_KEY': JSON.stringify(env.OPENAI_API_KEY || ''),
       'process.env.GNEWS_API_KEY': JSON.stringify(env.GNEWS_API_KEY || ''),
+      'process.env.RSS_PROXY_URL': JSON.stringify(env.RSS_PROXY_URL || ''),
+      'process.env.RSS_FIXTURE_URL': JSON.stringify(env.RSS_FIXTURE_URL || ''),
+    },
+    test: {
+      include: ['tests/**/*.test.ts'],
     },
     resolve: {
       alias: {